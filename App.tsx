@@ -1,9 +1,77 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Chess, Square, Move } from 'chess.js';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Chess, Square, Move, Color, SQUARES } from 'chess.js';
 import ThreeChess from './components/ThreeChess';
-import { getChessHint } from './services/geminiService';
-import { GameStatus } from './types';
-import { RefreshCw, Zap, Award, X, Rotate3D, Keyboard } from 'lucide-react';
+import Board2D from './components/Board2D';
+import OpponentPanel from './components/OpponentPanel';
+import PromotionPicker from './components/PromotionPicker';
+import MoveHistoryPanel from './components/MoveHistoryPanel';
+import PgnDialog from './components/PgnDialog';
+import BoardEditorPanel from './components/BoardEditorPanel';
+import ChessClock, { useChessClock, freezeClock } from './components/ChessClock';
+import TimeControlPanel from './components/TimeControlPanel';
+import SavedGamesDialog from './components/SavedGamesDialog';
+import HintSettingsPanel from './components/HintSettingsPanel';
+import EngineSourcePanel from './components/EngineSourcePanel';
+import AnalysisPanel, { useGameAnalysis } from './components/AnalysisPanel';
+import EvalBar, { useLiveEvaluation } from './components/EvalBar';
+import OnlinePanel, { useOnlineGame } from './components/OnlinePanel';
+import MoveInputBar from './components/MoveInputBar';
+import MaterialBalance from './components/MaterialBalance';
+import PuzzlePanel, { usePuzzleTrainer } from './components/PuzzlePanel';
+import OpeningExplorer, { OpeningLabel } from './components/OpeningExplorer';
+import ThemeDialog from './components/ThemeDialog';
+import NewGameDialog from './components/NewGameDialog';
+import { getGeminiMove, isGeminiConfigured, ChessHint } from './services/geminiService';
+import { HintError, createHintProviders, requestHint } from './services/hintProviders';
+import { ENGINE_LEVELS } from './services/engine';
+import { EngineStoppedError } from './services/engineClient';
+import { createEngineFor } from './services/engineSources';
+import { UciBridgeError } from './services/uciEngineClient';
+import { timeoutStatus } from './services/clock';
+import { SavedGame, SavedHint, createGameId, listGames, restoreChess, saveGame } from './services/gameStorage';
+import { RoomState } from './services/onlineProtocol';
+import { describeMove, describeResult, describeSquare } from './services/announce';
+import { getCapturedPieces, getMaterialBalance } from './services/material';
+import { BoardTheme, BUILT_IN_THEMES, DEFAULT_THEME } from './services/themes';
+import { QualityLevel, isWebGLAvailable } from './services/renderQuality';
+import { Puzzle } from './services/puzzles';
+import { getBookMoves, identifyOpening } from './services/openings';
+import { VARIANTS, chess960Index, createChess, getVariant, isEliminated, moveTargets, movesTo, uciMoves } from './services/variants';
+import { PieceSet, PieceSetError, PieceSetListing, PRIMITIVE_PIECE_SET_ID, listPieceSets, loadLocalPieceSet, loadPieceSet } from './services/pieceSets';
+import {
+  EditorPosition,
+  EditorTool,
+  EMPTY_CASTLING,
+  availableCastling,
+  enPassantCandidates,
+  fenToPosition,
+  placementToBoard,
+  positionToFen,
+  validatePosition,
+} from './services/boardEditor';
+import { GameStatus, GameMode, EngineLevel, MoveData, PromotionPiece, TimeControl, ClockState, BoardArrow, HintProviderId, EngineSource, RenderQuality, BoardRenderer, Variant } from './types';
+import { RefreshCw, Zap, Award, X, Rotate3D, Keyboard, Cpu, FileText, PencilRuler, Library, History, Sparkles, AlertTriangle, BarChart3, Gauge, Palette, Box, Grid2x2, BookOpen, CirclePlus } from 'lucide-react';
+
+const HINT_PROVIDER_KEY = 'gemini-chess-3d:hint-provider';
+const ENGINE_SOURCE_KEY = 'gemini-chess-3d:engine-source';
+const THEME_KEY = 'gemini-chess-3d:theme';
+const CUSTOM_THEMES_KEY = 'gemini-chess-3d:custom-themes';
+const PIECE_SET_KEY = 'gemini-chess-3d:piece-set';
+const RENDER_QUALITY_KEY = 'gemini-chess-3d:render-quality';
+const BOARD_RENDERER_KEY = 'gemini-chess-3d:board-renderer';
+const EVAL_BAR_KEY = 'gemini-chess-3d:eval-bar';
+
+const PUZZLE_REPLY_DELAY_MS = 500;    // Pause before the puzzle opponent answers
+const PUZZLE_TAKEBACK_MS = 900;       // How long a wrong puzzle move stays on the board
+
+const loadCustomThemes = (): BoardTheme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_THEMES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
 
 const App = () => {
   // Game Logic State
@@ -14,130 +82,1080 @@ const App = () => {
   const [lastMove, setLastMove] = useState<{ from: Square, to: Square } | null>(null);
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.PLAYING);
   const [boardView, setBoardView] = useState<'white' | 'black'>('white');
+  const [pendingPromotion, setPendingPromotion] = useState<MoveData | null>(null);
+
+  // History State
+  const [redoStack, setRedoStack] = useState<MoveData[]>([]);
+  const [viewPly, setViewPly] = useState<number | null>(null); // null = live position
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [showPgnDialog, setShowPgnDialog] = useState(false);
+
+  // Board Editor State (null = not editing)
+  const [editorPosition, setEditorPosition] = useState<EditorPosition | null>(null);
+  const [editorTool, setEditorTool] = useState<EditorTool>('move');
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const isEditing = editorPosition !== null;
+
+  // Opponent State (online, `engineColor` is the remote player's colour)
+  const [gameMode, setGameMode] = useState<GameMode>(GameMode.HOT_SEAT);
+  const [engineColor, setEngineColor] = useState<Color>('b');
+  const [engineLevel, setEngineLevel] = useState<EngineLevel>(EngineLevel.CASUAL);
+  const [isEngineThinking, setIsEngineThinking] = useState(false);
+  const [geminiCommentary, setGeminiCommentary] = useState<{ san: string, text: string, fallback: boolean } | null>(null);
+  const [engineSource, setEngineSource] = useState<EngineSource>(() =>
+    localStorage.getItem(ENGINE_SOURCE_KEY) === EngineSource.UCI ? EngineSource.UCI : EngineSource.BUILTIN);
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const engine = useMemo(() => createEngineFor(engineSource), [engineSource]);
+
+  // Clock State (null time control = untimed game)
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [pauseClocksOnModals, setPauseClocksOnModals] = useState(false);
+
+  // Evaluation Bar State (timed games need an explicit opt-in)
+  const [showEvalBar, setShowEvalBar] = useState(() => localStorage.getItem(EVAL_BAR_KEY) === 'on');
+  const [evalBarInTimed, setEvalBarInTimed] = useState(false);
 
   // AI Advisor State
-  const [hint, setHint] = useState<string | null>(null);
+  const [hint, setHint] = useState<ChessHint | null>(null);
   const [isThinking, setIsThinking] = useState(false);
   const [showHintModal, setShowHintModal] = useState(false);
+  const [hints, setHints] = useState<SavedHint[]>([]);
+  const [hintError, setHintError] = useState<HintError | null>(null);
+  const [hintProviderId, setHintProviderId] = useState<HintProviderId>(() => {
+    const stored = localStorage.getItem(HINT_PROVIDER_KEY) as HintProviderId | null;
+    if (stored && Object.values(HintProviderId).includes(stored)) return stored;
+    return isGeminiConfigured() ? HintProviderId.GEMINI : HintProviderId.ENGINE;
+  });
+  const hintProviders = useMemo(() => createHintProviders(), []);
+  const hintProvider = hintProviders[hintProviderId];
+  const hintRequestRef = useRef(0);
+
+  // Persistence State
+  const [gameId, setGameId] = useState(createGameId);
+  const [restoredClock, setRestoredClock] = useState<ClockState | null>(null);
+  const [resumeCandidate, setResumeCandidate] = useState<SavedGame | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+
+  // Post-game Analysis State
+  const [showAnalysis, setShowAnalysis] = useState(false);
+
+  // Opening Explorer State
+  const [showExplorer, setShowExplorer] = useState(false);
+
+  // Theme State (custom themes are imported JSON, kept in localStorage)
+  const [customThemes, setCustomThemes] = useState<BoardTheme[]>(loadCustomThemes);
+  const [themeId, setThemeId] = useState(() => localStorage.getItem(THEME_KEY) ?? DEFAULT_THEME.id);
+  const [showThemeDialog, setShowThemeDialog] = useState(false);
+  const [showNewGameDialog, setShowNewGameDialog] = useState(false);
+  const themes = useMemo(() => [...BUILT_IN_THEMES, ...customThemes], [customThemes]);
+  const theme = themes.find(t => t.id === themeId) ?? DEFAULT_THEME;
+
+  // Piece Set State (served sets are listed in public/piece-sets; local ones last until reload)
+  const [pieceSetListings, setPieceSetListings] = useState<PieceSetListing[]>([]);
+  const [pieceSetId, setPieceSetId] = useState(() => localStorage.getItem(PIECE_SET_KEY) ?? PRIMITIVE_PIECE_SET_ID);
+  const [servedPieceSet, setServedPieceSet] = useState<PieceSet | null>(null);
+  const [localPieceSet, setLocalPieceSet] = useState<PieceSet | null>(null);
+  const [pieceSetError, setPieceSetError] = useState<string | null>(null);
+  const pieceSet = [servedPieceSet, localPieceSet].find(s => s?.id === pieceSetId) ?? null;
+
+  // Render Quality (Auto follows the frame rate; autoQuality is the preset it picked)
+  const [renderQuality, setRenderQuality] = useState<RenderQuality>(() => {
+    const stored = localStorage.getItem(RENDER_QUALITY_KEY) as RenderQuality | null;
+    return stored && Object.values(RenderQuality).includes(stored) ? stored : RenderQuality.AUTO;
+  });
+  const [autoQuality, setAutoQuality] = useState<QualityLevel | null>(null);
+
+  // Board Renderer (the 2D board is forced while WebGL is missing or failed to start)
+  const [webglAvailable, setWebglAvailable] = useState(isWebGLAvailable);
+  const [preferredRenderer, setPreferredRenderer] = useState(() =>
+    localStorage.getItem(BOARD_RENDERER_KEY) === BoardRenderer.SVG ? BoardRenderer.SVG : BoardRenderer.WEBGL);
+  const boardRenderer = webglAvailable ? preferredRenderer : BoardRenderer.SVG;
+  const BoardComponent = boardRenderer === BoardRenderer.WEBGL ? ThreeChess : Board2D;
+
+  // Keyboard & Screen Reader State (cursor shown while the board has keyboard focus)
+  const [cursorSquare, setCursorSquare] = useState<Square | null>(null);
+  const [boardFocused, setBoardFocused] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const announcedRef = useRef({ plies: 0, status: GameStatus.PLAYING });
+  const moveInputRef = useRef<HTMLInputElement>(null);
 
   // Derived Board State
+  const history = useMemo(() => game.history({ verbose: true }) as Move[], [fen, game]);
+  const startFen = history.length ? history[0].before : fen;
+  const variant = useMemo(() => getVariant(game), [game]);
+  const isBrowsing = viewPly !== null;
+  const displayedPly = viewPly ?? history.length;
+  const displayedFen = isBrowsing ? (viewPly === 0 ? startFen : history[viewPly - 1].after) : fen;
+  const displayedLastMove = isBrowsing
+    ? (viewPly > 0 ? { from: history[viewPly - 1].from, to: history[viewPly - 1].to } : null)
+    : lastMove;
+
   const boardState = useMemo(() => {
-    return game.board();
-  }, [fen]);
+    if (editorPosition) return placementToBoard(editorPosition.placement);
+    return isBrowsing ? createChess(displayedFen).board() : game.board();
+  }, [fen, displayedFen, isBrowsing, editorPosition]);
+
+  // Moves up to the displayed position; captures and piece tracking follow
+  // them, so undo, reset, import and browsing all agree with the board
+  const displayedMoves = useMemo(() => history.slice(0, displayedPly), [history, displayedPly]);
+  const capturedPieces = useMemo(
+    () => isEditing ? [] : getCapturedPieces(displayedMoves),
+    [displayedMoves, isEditing]
+  );
+  const materialBalance = useMemo(() => getMaterialBalance(boardState), [boardState]);
+  const openingState = useMemo(() => identifyOpening(startFen, displayedMoves), [startFen, displayedMoves]);
+  const bookMoves = useMemo(() => showExplorer ? getBookMoves(displayedFen) : [], [showExplorer, displayedFen]);
+
+  // Gemini's suggestion stays on the board while its position is shown
+  const hintArrows = useMemo<BoardArrow[]>(() => {
+    if (!showHintModal || !hint?.best || hint.fen !== displayedFen || isEditing) return [];
+    return [
+      ...hint.alternatives.map(m => ({ from: m.from, to: m.to, kind: 'alternative' as const })),
+      { from: hint.best.from, to: hint.best.to, kind: 'best' },
+    ];
+  }, [showHintModal, hint, displayedFen, isEditing]);
+
+  const gameAnalysis = useGameAnalysis({
+    startFen,
+    history,
+    active: showAnalysis,
+    resetKey: `${gameId}|${fen}`,
+    source: engineSource,
+  });
+
+  // While reviewing, show the engine's better move for the move played next
+  const analysisArrows = useMemo<BoardArrow[]>(() => {
+    const next = showAnalysis ? gameAnalysis.analysis?.moves[displayedPly] : undefined;
+    return next?.bestMove ? [{ from: next.bestMove.from, to: next.bestMove.to, kind: 'best' }] : [];
+  }, [showAnalysis, gameAnalysis.analysis, displayedPly]);
+  const boardArrows = useMemo(() => [...hintArrows, ...analysisArrows], [hintArrows, analysisArrows]);
+
+  const isEvalBarVisible = showEvalBar && (!timeControl || evalBarInTimed) && !isEditing;
+  const liveEvaluation = useLiveEvaluation({ fen: displayedFen, enabled: isEvalBarVisible, source: engineSource });
+
+  // Online Play State
+  const online = useOnlineGame({
+    onJoined: (color, state) => joinRoom(color, state),
+    onSync: (state) => applyRoomState(state),
+    onMove: (ply, san) => applyRemoteMove(ply, san),
+  });
+  const isOnlineGame = gameMode === GameMode.ONLINE && online.room !== null;
+
+  // Puzzle Trainer State
+  const puzzles = usePuzzleTrainer({
+    onStart: (puzzle) => startPuzzle(puzzle),
+  });
+  const isPuzzleMode = gameMode === GameMode.PUZZLE;
+
+  const isGameOver = gameStatus !== GameStatus.PLAYING;
+  // Until a room is joined, online mode plays like hot seat
+  const hasOpponent = gameMode !== GameMode.HOT_SEAT && (gameMode !== GameMode.ONLINE || isOnlineGame);
+  const isOpponentTurn = hasOpponent && game.turn() === engineColor && !isGameOver && !isEditing;
+
+  const clock = useChessClock({
+    timeControl,
+    turn: game.turn(),
+    plyCount: history.length,
+    active: !isGameOver && !isEditing,
+    paused: pauseClocksOnModals && showHintModal,
+    resetKey: game,
+    initialState: restoredClock,
+    onFlag: (color) => setGameStatus(timeoutStatus(game, color)),
+  });
+
+  // Single entry point for every move, human or engine, so the board
+  // highlights, piece animation and game status stay in sync.
+  const makeMove = (moveData: MoveData | string): Move | null => {
+    try {
+      const move = game.move(moveData);
+      if (isOnlineGame && move.color !== engineColor) online.sendMove(game.history().length - 1, toMoveData(move));
+      if (isPuzzleMode && move.color !== engineColor) puzzles.handleMove(game.history().length - 1, move);
+      setRedoStack([]);
+      setFen(game.fen());
+      setLastMove({ from: move.from, to: move.to });
+      setSelectedSquare(null);
+      setValidMoves([]);
+      checkGameStatus();
+      return move;
+    } catch (e) {
+      console.error(e);
+      return null;
+    }
+  };
+
+  // Re-derive board state after the live game was rewound or replayed
+  const syncWithGame = (chess: Chess = game) => {
+    const moves = chess.history({ verbose: true }) as Move[];
+    const previous = moves[moves.length - 1];
+    setFen(chess.fen());
+    setLastMove(previous ? { from: previous.from, to: previous.to } : null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+    setViewPly(null);
+    checkGameStatus(chess);
+  };
+
+  const toMoveData = (move: Move): MoveData => ({
+    from: move.from,
+    to: move.to,
+    promotion: move.promotion as PromotionPiece | undefined,
+  });
+
+  // Against the computer, undo/redo step over the engine's reply so it is
+  // the player's turn again afterwards.
+  const undoMove = () => {
+    if (isOnlineGame || puzzles.mistake) return;
+    const undone: MoveData[] = [];
+    const step = () => {
+      const move = game.undo();
+      if (move) undone.push(toMoveData(move));
+      return move;
+    };
+    if (!step()) return;
+    if (hasOpponent && game.turn() === engineColor && game.history().length > 0) step();
+    setRedoStack(prev => [...prev, ...undone]);
+    syncWithGame();
+  };
+
+  const redoMove = () => {
+    if (redoStack.length === 0 || isOnlineGame) return;
+    const stack = [...redoStack];
+    game.move(stack.pop()!);
+    if (hasOpponent && game.turn() === engineColor && stack.length > 0) {
+      game.move(stack.pop()!);
+    }
+    setRedoStack(stack);
+    syncWithGame();
+  };
+
+  const goToPly = (ply: number) => {
+    const target = Math.max(0, Math.min(ply, history.length));
+    setViewPly(target === history.length ? null : target);
+    setIsReplaying(false);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  };
+
+  // Abandon the moves after the browsed position; they stay available to redo
+  const branchFromView = () => {
+    if (viewPly === null || isOnlineGame) return;
+    const undone: MoveData[] = [];
+    while (game.history().length > viewPly) {
+      const move = game.undo();
+      if (!move) break;
+      undone.push(toMoveData(move));
+    }
+    setRedoStack(prev => [...prev, ...undone]);
+    syncWithGame();
+  };
+
+  // The board is read-only while browsing earlier positions
+  const canMovePieces = !isGameOver && !isOpponentTurn && !pendingPromotion && !isBrowsing && !puzzles.mistake;
+
+  // Shared by click-click and drag-and-drop; promotions are held until the
+  // player picks a piece
+  const attemptMove = (from: Square, to: Square): boolean => {
+    const candidates = movesTo(game.moves({ square: from, verbose: true }) as Move[], to, variant);
+    if (candidates.length === 0) return false;
+    if (candidates.some(m => m.promotion)) {
+      setPendingPromotion({ from, to });
+      return true;
+    }
+    // A Chess960 king dropped on its rook castles
+    return makeMove({ from, to: candidates[0].to }) !== null;
+  };
 
   // Handle Square Click
   const onSquareClick = (square: Square) => {
-    if (game.isGameOver()) return;
+    if (!canMovePieces) return;
 
     // 1. Attempting to Move?
-    if (selectedSquare && validMoves.includes(square)) {
-      try {
-        const move = game.move({
-          from: selectedSquare,
-          to: square,
-          promotion: 'q',
-        });
-
-        if (move) {
-          setFen(game.fen());
-          setLastMove({ from: move.from, to: move.to });
-          setSelectedSquare(null);
-          setValidMoves([]);
-          checkGameStatus();
-          return;
-        }
-      } catch (e) {
-        console.error(e);
-      }
-    }
+    if (selectedSquare && validMoves.includes(square) && attemptMove(selectedSquare, square)) return;
 
     // 2. Select Piece
     const piece = game.get(square);
     if (piece && piece.color === game.turn()) {
       setSelectedSquare(square);
       const moves = game.moves({ square, verbose: true }) as Move[];
-      setValidMoves(moves.map(m => m.to));
+      setValidMoves(moveTargets(moves, variant));
     } else {
       setSelectedSquare(null);
       setValidMoves([]);
     }
   };
 
-  const checkGameStatus = () => {
-    if (game.isCheckmate()) setGameStatus(GameStatus.CHECKMATE);
-    else if (game.isDraw()) setGameStatus(GameStatus.DRAW);
-    else if (game.isStalemate()) setGameStatus(GameStatus.STALEMATE);
+  // Picking a piece up selects it, so its legal squares show during the drag
+  const handlePieceDragStart = (square: Square): Square[] | null => {
+    const piece = game.get(square);
+    if (!canMovePieces || !piece || piece.color !== game.turn()) return null;
+    const targets = moveTargets(game.moves({ square, verbose: true }) as Move[], variant);
+    setSelectedSquare(square);
+    setValidMoves(targets);
+    return targets;
+  };
+
+  const handlePieceDrop = (from: Square, to: Square) => {
+    attemptMove(from, to);
+  };
+
+  const handleTypedMove = (move: MoveData) => canMovePieces && makeMove(move) !== null;
+  const handleBookMove = (move: MoveData) => { if (canMovePieces) makeMove(move); };
+
+  // --- Keyboard Board Navigation ---
+
+  // Arrow keys move relative to the screen, so "up" heads for the far side
+  const handleBoardKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowUp: [0, 1], ArrowDown: [0, -1], ArrowLeft: [-1, 0], ArrowRight: [1, 0],
+    };
+    const square = cursorSquare ?? (boardView === 'white' ? 'e2' : 'e7');
+
+    if (steps[e.key]) {
+      e.preventDefault();
+      e.stopPropagation();
+      const sign = boardView === 'white' ? 1 : -1;
+      const clamp = (n: number) => Math.max(0, Math.min(7, n));
+      const file = clamp(square.charCodeAt(0) - 97 + steps[e.key][0] * sign);
+      const rank = clamp(parseInt(square[1]) - 1 + steps[e.key][1] * sign);
+      const next = `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
+      setCursorSquare(next);
+      setAnnouncement(describeSquare(next, boardState.flat().find(p => p?.square === next) ?? null));
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      e.stopPropagation();
+      setCursorSquare(square);
+      if (isEditing) handleEditorSquareClick(square);
+      else onSquareClick(square);
+    }
+  };
+
+  // Only keyboard focus shows the cursor; clicking the canvas should not
+  const handleBoardFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || !e.currentTarget.matches(':focus-visible')) return;
+    setBoardFocused(true);
+    const square = cursorSquare ?? selectedSquare ?? (boardView === 'white' ? 'e2' : 'e7');
+    setCursorSquare(square);
+    setAnnouncement(describeSquare(square, boardState.flat().find(p => p?.square === square) ?? null));
+  };
+
+  useEffect(() => {
+    listPieceSets().then(setPieceSetListings);
+  }, []);
+
+  useEffect(() => {
+    const listing = pieceSetListings.find(l => l.id === pieceSetId);
+    if (!listing || servedPieceSet?.id === pieceSetId) return;
+    let cancelled = false;
+    loadPieceSet(listing)
+      .then(set => { if (!cancelled) setServedPieceSet(set); })
+      .catch(e => { if (!cancelled) setPieceSetError(e instanceof PieceSetError ? e.message : 'Could not load this piece set.'); });
+    return () => { cancelled = true; };
+  }, [pieceSetId, pieceSetListings]);
+
+  // Announce each new move, and the result once the game ends
+  useEffect(() => {
+    const parts: string[] = [];
+    const last = history[history.length - 1];
+    if (last && history.length > announcedRef.current.plies) parts.push(describeMove(last));
+    if (gameStatus !== announcedRef.current.status) {
+      const result = describeResult(gameStatus, game.turn());
+      if (result) parts.push(result);
+    }
+    announcedRef.current = { plies: history.length, status: gameStatus };
+    if (parts.length) setAnnouncement(parts.join(' '));
+  }, [history, gameStatus]);
+
+  const handlePromotionSelect = (promotion: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    setPendingPromotion(null);
+    makeMove({ ...pendingPromotion, promotion });
+  };
+
+  const handlePromotionCancel = () => {
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  };
+
+  const checkGameStatus = (chess: Chess = game) => {
+    if (isEliminated(chess)) setGameStatus(GameStatus.ELIMINATED);
+    else if (chess.isCheckmate()) setGameStatus(GameStatus.CHECKMATE);
+    else if (chess.isDraw()) setGameStatus(GameStatus.DRAW);
+    else if (chess.isStalemate()) setGameStatus(GameStatus.STALEMATE);
     else setGameStatus(GameStatus.PLAYING);
   };
 
+  // An online game in progress can only be left from the online panel.
+  // Variant games start again from the same position.
   const resetGame = () => {
-    const newGame = new Chess();
+    if (isOnlineGame && !isGameOver) return;
+    startNewGame(variant === Variant.STANDARD ? undefined : startFen, variant);
+  };
+
+  const handleNewGame = (newStartFen: string | undefined, newVariant: Variant) => {
+    setShowNewGameDialog(false);
+    if (isOnlineGame && !isGameOver) return;
+    // Puzzles set up their own positions
+    if (isPuzzleMode) setGameMode(GameMode.HOT_SEAT);
+    startNewGame(newStartFen, newVariant);
+  };
+
+  const startNewGame = (startFen?: string, newVariant = Variant.STANDARD) => {
+    saveRef.current();
+    if (online.room) online.leave();
+    const newGame = createChess(startFen, newVariant);
+    if (newVariant !== Variant.STANDARD) newGame.setHeader('Variant', newVariant);
     setGame(newGame);
     setFen(newGame.fen());
     setSelectedSquare(null);
     setValidMoves([]);
     setLastMove(null);
-    setGameStatus(GameStatus.PLAYING);
+    setPendingPromotion(null);
+    setRedoStack([]);
+    setViewPly(null);
+    setIsReplaying(false);
+    setShowAnalysis(false);
+    setEditorPosition(null);
+    setEditorError(null);
+    checkGameStatus(newGame);
+    cancelHint();
+    setHints([]);
+    setGeminiCommentary(null);
+    setGameId(createGameId());
+    setRestoredClock(null);
+    setBoardView(hasOpponent && engineColor === 'w' ? 'black' : 'white');
+  };
+
+  // --- Puzzles ---
+
+  // The player takes the side that solves; the opponent's replies come from
+  // the puzzle (see the effects below)
+  const startPuzzle = (puzzle: Puzzle) => {
+    startNewGame(puzzle.fen);
+    setGameMode(GameMode.PUZZLE);
+    setEngineColor(puzzle.playerColor === 'w' ? 'b' : 'w');
+    setBoardView(puzzle.playerColor === 'w' ? 'white' : 'black');
+  };
+
+  // --- Board Editor ---
+
+  const openEditor = () => {
+    setEditorPosition(fenToPosition(displayedFen));
+    setEditorTool('move');
+    setEditorError(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+  };
+
+  // Drop castling rights and en passant squares that the new placement no longer supports
+  const updateEditorPlacement = (placement: EditorPosition['placement']) => {
+    if (!editorPosition) return;
+    const allowed = availableCastling(placement);
+    const castling = { ...editorPosition.castling };
+    (Object.keys(castling) as (keyof typeof castling)[]).forEach(key => {
+      castling[key] = castling[key] && allowed[key];
+    });
+    const next = { ...editorPosition, placement, castling };
+    if (next.enPassant && !enPassantCandidates(next).includes(next.enPassant)) next.enPassant = null;
+    setEditorPosition(next);
+    setEditorError(null);
+  };
+
+  const handleEditorSquareClick = (square: Square) => {
+    if (!editorPosition || editorTool === 'move') return;
+    const placement = { ...editorPosition.placement };
+    const existing = placement[square];
+    if (editorTool === 'erase' || (existing?.type === editorTool.type && existing.color === editorTool.color)) {
+      delete placement[square];
+    } else {
+      placement[square] = editorTool;
+    }
+    updateEditorPlacement(placement);
+  };
+
+  const handleEditorDrop = (from: Square, to: Square) => {
+    if (!editorPosition?.placement[from]) return;
+    const placement = { ...editorPosition.placement };
+    placement[to] = placement[from];
+    delete placement[from];
+    updateEditorPlacement(placement);
+  };
+
+  const handleEditorPositionChange = (position: EditorPosition) => {
+    setEditorPosition(position);
+    setEditorError(null);
+  };
+
+  const playFromEditor = () => {
+    if (!editorPosition) return;
+    const error = validatePosition(editorPosition);
+    if (error) {
+      setEditorError(error);
+      return;
+    }
+    startNewGame(positionToFen(editorPosition));
+  };
+
+  // Replace the game with an imported one and replay it from the start so the
+  // board animates through to the final position.
+  const importGame = (imported: Chess) => {
+    saveRef.current();
+    if (online.room) online.leave();
+    const moves = imported.history({ verbose: true }) as Move[];
+    const previous = moves[moves.length - 1];
+    setGame(imported);
+    setFen(imported.fen());
+    setLastMove(previous ? { from: previous.from, to: previous.to } : null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+    setRedoStack([]);
+    cancelHint();
+    setHints([]);
+    setGeminiCommentary(null);
+    setGameId(createGameId());
+    setRestoredClock(null);
+    setViewPly(moves.length > 0 ? 0 : null);
+    setIsReplaying(moves.length > 0);
+    setShowAnalysis(false);
+    setShowPgnDialog(false);
+    checkGameStatus(imported);
+  };
+
+  useEffect(() => {
+    if (!isReplaying) return;
+    if (viewPly === null) {
+      setIsReplaying(false);
+      return;
+    }
+    const delay = Math.min(250, 3000 / history.length);
+    const timer = setTimeout(() => {
+      setViewPly(viewPly + 1 >= history.length ? null : viewPly + 1);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isReplaying, viewPly, history.length]);
+
+  // --- Saved Games ---
+
+  const opponentName = gameMode === GameMode.VS_GEMINI ? 'Gemini'
+    : gameMode === GameMode.ONLINE ? 'Online Opponent'
+    : gameMode === GameMode.PUZZLE ? 'Puzzle'
+    : `Computer (${ENGINE_LEVELS[engineLevel].label})`;
+  const defaultPlayers = {
+    white: hasOpponent && engineColor === 'w' ? opponentName : 'Player',
+    black: hasOpponent && engineColor === 'b' ? opponentName : 'Player',
+  };
+
+  const snapshot = (): SavedGame => {
+    const headers = game.getHeaders();
+    const named = (value?: string) => value && value !== '?' ? value : undefined;
+    const white = named(headers.White) ?? defaultPlayers.white;
+    const black = named(headers.Black) ?? defaultPlayers.black;
+    const now = Date.now();
+    return {
+      id: gameId,
+      name: `${white} vs ${black}`,
+      createdAt: now,
+      updatedAt: now,
+      startFen,
+      moves: history.map(m => m.san),
+      headers,
+      players: { white, black },
+      status: gameStatus,
+      gameMode,
+      engineColor,
+      engineLevel,
+      timeControl,
+      clock: timeControl ? freezeClock(clock.state) : null,
+      boardView,
+      hints,
+    };
+  };
+
+  // Effects below save through this ref so they always see the latest state
+  const saveRef = useRef<() => void>(() => {});
+  saveRef.current = () => {
+    // Puzzle attempts are not games worth keeping
+    if ((history.length === 0 && hints.length === 0) || isPuzzleMode) return;
+    saveGame(snapshot()).catch(e => console.error('Storage Error:', e));
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => saveRef.current(), 400);
+    return () => clearTimeout(timer);
+  }, [fen, game, gameStatus, boardView, hints, timeControl, gameMode, engineColor, engineLevel]);
+
+  // Keep the stored clock fresh while it runs, and flush when the tab is hidden
+  useEffect(() => {
+    if (!timeControl || !clock.running || isGameOver) return;
+    const interval = setInterval(() => saveRef.current(), 5000);
+    return () => clearInterval(interval);
+  }, [timeControl, clock.running, isGameOver]);
+
+  useEffect(() => {
+    const flush = () => { if (document.visibilityState === 'hidden') saveRef.current(); };
+    document.addEventListener('visibilitychange', flush);
+    return () => document.removeEventListener('visibilitychange', flush);
+  }, []);
+
+  // Offer the most recent unfinished game on startup
+  useEffect(() => {
+    listGames()
+      .then(games => setResumeCandidate(games.find(g => g.status === GameStatus.PLAYING && g.moves.length > 0) ?? null))
+      .catch(e => console.error('Storage Error:', e));
+  }, []);
+
+  const openSavedGame = (saved: SavedGame) => {
+    let restored: Chess;
+    try {
+      restored = restoreChess(saved);
+    } catch (e) {
+      console.error('Storage Error:', e);
+      return;
+    }
+    saveRef.current();
+    if (online.room) online.leave();
+    const moves = restored.history({ verbose: true }) as Move[];
+    const previous = moves[moves.length - 1];
+    setGame(restored);
+    setFen(restored.fen());
+    setLastMove(previous ? { from: previous.from, to: previous.to } : null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+    setRedoStack([]);
+    setViewPly(null);
+    setIsReplaying(false);
+    setShowAnalysis(false);
+    setEditorPosition(null);
+    setEditorError(null);
+    cancelHint();
+    setShowHintModal(false);
+    setHints(saved.hints);
+    setGeminiCommentary(null);
+    setGameId(saved.id);
+    // The relay room is gone, so a stored online game continues over the board
+    setGameMode(saved.gameMode === GameMode.ONLINE ? GameMode.HOT_SEAT : saved.gameMode);
+    setEngineColor(saved.engineColor);
+    setEngineLevel(saved.engineLevel);
+    setTimeControl(saved.timeControl);
+    setRestoredClock(saved.clock);
+    setBoardView(saved.boardView);
+    // Timeouts cannot be re-derived from the position
+    setGameStatus(saved.status);
+    setResumeCandidate(null);
+    setShowLibrary(false);
+  };
+
+  // --- Online Play ---
+
+  // Entering a room starts a new saved game; rejoining after a drop keeps it
+  const joinRoom = (color: Color, state: RoomState) => {
+    if (state.room !== online.room) {
+      saveRef.current();
+      cancelHint();
+      setHints([]);
+      setGameId(createGameId());
+      setRestoredClock(null);
+      setShowAnalysis(false);
+      setEditorPosition(null);
+    }
+    setGameMode(GameMode.ONLINE);
+    setEngineColor(color === 'w' ? 'b' : 'w');
+    setBoardView(color === 'w' ? 'white' : 'black');
+    applyRoomState(state);
+  };
+
+  // The relay's move list is authoritative: extend the local game when it is a
+  // prefix of that list, otherwise rebuild it from the room's start position
+  const applyRoomState = (state: RoomState) => {
+    const local = game.history();
+    const isPrefix = startFen === state.startFen
+      && local.length <= state.moves.length
+      && local.every((san, i) => san === state.moves[i]);
+    const target = isPrefix ? game : createChess(state.startFen);
+    try {
+      state.moves.slice(isPrefix ? local.length : 0).forEach(san => target.move(san));
+    } catch (e) {
+      console.error('Relay Error: room moves do not replay', e);
+      return;
+    }
+    if (target !== game) setGame(target);
+    setRedoStack([]);
+    syncWithGame(target);
+  };
+
+  // Every move is echoed to both players. Our own echo is already on the
+  // board; anything that does not line up asks the relay for the full list.
+  const applyRemoteMove = (ply: number, san: string) => {
+    const local = game.history();
+    if (ply < local.length && local[ply] === san) return;
+    if (ply !== local.length || game.turn() !== engineColor || !makeMove(san)) online.requestSync();
+  };
+
+  const handleTimeControlChange = (tc: TimeControl | null) => {
+    setRestoredClock(null);
+    setTimeControl(tc);
+  };
+
+  // Engine Opponent: search in the worker whenever it is the computer's turn
+  useEffect(() => {
+    if (!isOpponentTurn || gameMode !== GameMode.VS_COMPUTER) return;
+    let cancelled = false;
+    setIsEngineThinking(true);
+
+    // Keep the engine from flagging in fast time controls
+    const settings = ENGINE_LEVELS[engineLevel];
+    const timeMs = timeControl ? Math.min(settings.timeMs, clock.times[engineColor] / 30) : settings.timeMs;
+
+    engine.search(fen, { ...settings, timeMs }, undefined, { startFen, moves: uciMoves(startFen, history) })
+      .then(result => {
+        if (cancelled) return;
+        setEngineError(null);
+        if (result.move) makeMove(result.move);
+      })
+      .catch(e => {
+        if (e instanceof EngineStoppedError) return;
+        console.error('Engine Error:', e);
+        if (!cancelled && e instanceof UciBridgeError) setEngineError(e.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsEngineThinking(false);
+      });
+
+    return () => {
+      cancelled = true;
+      engine.stop();
+      setIsEngineThinking(false);
+    };
+  }, [fen, game, isOpponentTurn, gameMode, engineLevel, engine]);
+
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  // Gemini Opponent: ask the model for a move; the service falls back to a
+  // random legal move, so the game keeps going even when Gemini does not
+  useEffect(() => {
+    if (!isOpponentTurn || gameMode !== GameMode.VS_GEMINI) return;
+    let cancelled = false;
+    setIsEngineThinking(true);
+
+    getGeminiMove(fen, startFen, history.map(m => m.san))
+      .then(result => {
+        if (cancelled || !result) return;
+        const move = makeMove(result.move);
+        if (move) setGeminiCommentary({ san: move.san, text: result.commentary, fallback: result.fallback });
+      })
+      .catch(e => console.error('Gemini Error:', e))
+      .finally(() => {
+        if (!cancelled) setIsEngineThinking(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setIsEngineThinking(false);
+    };
+  }, [fen, game, isOpponentTurn, gameMode]);
+
+  // Puzzle Opponent: replays the puzzle's next move, including the one that sets it up
+  useEffect(() => {
+    if (!isOpponentTurn || !isPuzzleMode) return;
+    const reply = puzzles.replyAt(history.length);
+    if (!reply) return;
+    const timer = setTimeout(() => makeMove(reply), PUZZLE_REPLY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [fen, game, isOpponentTurn, isPuzzleMode, puzzles.puzzle, puzzles.mistake]);
+
+  // A wrong puzzle move stays up briefly, then is taken back for another try
+  useEffect(() => {
+    if (!puzzles.mistake) return;
+    const timer = setTimeout(() => {
+      game.undo();
+      syncWithGame();
+      puzzles.clearMistake();
+    }, PUZZLE_TAKEBACK_MS);
+    return () => clearTimeout(timer);
+  }, [puzzles.mistake]);
+
+  const handleGameModeChange = (mode: GameMode) => {
+    if (mode !== GameMode.ONLINE && online.room) online.leave();
+    setGameMode(mode);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    if (mode === GameMode.PUZZLE) puzzles.restart();
+    else if (mode !== GameMode.HOT_SEAT) setBoardView(engineColor === 'w' ? 'black' : 'white');
+  };
+
+  const handleEngineColorChange = (color: Color) => {
+    setEngineColor(color);
+    setSelectedSquare(null);
+    setValidMoves([]);
+    setBoardView(color === 'w' ? 'black' : 'white');
+  };
+
+  // Results of a request that was superseded (new game, another request) are ignored
+  const cancelHint = () => {
+    hintRequestRef.current++;
     setHint(null);
-    setBoardView('white');
+    setHintError(null);
+    setIsThinking(false);
   };
 
-  const handleGetHint = async () => {
+  const handleGetHint = async (providerId: HintProviderId = hintProviderId) => {
+    // Puzzles get a nudge instead, so the hint does not give the answer away
+    if (isPuzzleMode) {
+      if (!isOpponentTurn) puzzles.requestNudge(fen, history.length);
+      return;
+    }
     if (isThinking) return;
+    const provider = hintProviders[providerId];
+    const requestId = ++hintRequestRef.current;
+    const ply = history.length;
     setIsThinking(true);
     setHint(null);
+    setHintError(null);
     setShowHintModal(true);
 
-    const advice = await getChessHint(fen, game.turn());
-    setHint(advice);
-    setIsThinking(false);
+    try {
+      const advice = await requestHint(provider, fen);
+      if (requestId !== hintRequestRef.current) return;
+      setHint(advice);
+      setHints(prev => [...prev, { ply, fen, move: advice.best?.san, provider: providerId, text: advice.explanation, createdAt: Date.now() }]);
+    } catch (e) {
+      if (requestId !== hintRequestRef.current) return;
+      console.error('Hint Error:', e);
+      setHintError(e instanceof HintError ? e : new HintError('failed', 'Something went wrong while getting a hint. Please try again.'));
+    } finally {
+      if (requestId === hintRequestRef.current) setIsThinking(false);
+    }
+  };
+
+  const handleEngineSourceChange = (source: EngineSource) => {
+    setEngineSource(source);
+    setEngineError(null);
+    localStorage.setItem(ENGINE_SOURCE_KEY, source);
+  };
+
+  const handleHintProviderChange = (id: HintProviderId) => {
+    setHintProviderId(id);
+    localStorage.setItem(HINT_PROVIDER_KEY, id);
+  };
+
+  const handleThemeSelect = (id: string) => {
+    setThemeId(id);
+    localStorage.setItem(THEME_KEY, id);
   };
 
+  const updateCustomThemes = (next: BoardTheme[]) => {
+    setCustomThemes(next);
+    localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(next));
+  };
+
+  const handleThemeImport = (imported: BoardTheme) => {
+    updateCustomThemes([...customThemes, imported]);
+    handleThemeSelect(imported.id);
+  };
+
+  const handleThemeDelete = (id: string) => {
+    updateCustomThemes(customThemes.filter(t => t.id !== id));
+    if (themeId === id) handleThemeSelect(DEFAULT_THEME.id);
+  };
+
+  const handleRenderQualitySelect = (quality: RenderQuality) => {
+    setRenderQuality(quality);
+    localStorage.setItem(RENDER_QUALITY_KEY, quality);
+  };
+
+  const toggleBoardRenderer = () => {
+    if (!webglAvailable) return;
+    const next = boardRenderer === BoardRenderer.WEBGL ? BoardRenderer.SVG : BoardRenderer.WEBGL;
+    setPreferredRenderer(next);
+    localStorage.setItem(BOARD_RENDERER_KEY, next);
+  };
+
+  const handlePieceSetSelect = (id: string) => {
+    setPieceSetId(id);
+    setPieceSetError(null);
+    if (id !== localPieceSet?.id) localStorage.setItem(PIECE_SET_KEY, id);
+  };
+
+  const handleLocalPieceSet = async (files: File[]) => {
+    try {
+      const set = await loadLocalPieceSet(files);
+      setLocalPieceSet(set);
+      setPieceSetId(set.id);
+      setPieceSetError(null);
+    } catch (e) {
+      setPieceSetError(e instanceof PieceSetError ? e.message : 'Could not load these piece models.');
+    }
+  };
+
+  const switchHintProvider = (id: HintProviderId) => {
+    handleHintProviderChange(id);
+    handleGetHint(id);
+  };
+
+  // In a timed game the toggle doubles as the explicit opt-in
+  const toggleEvalBar = () => {
+    const show = !isEvalBarVisible;
+    if (timeControl && show) setEvalBarInTimed(true);
+    setShowEvalBar(show);
+    localStorage.setItem(EVAL_BAR_KEY, show ? 'on' : 'off');
+  };
+
+  // Online players always see the board from their own side
   const toggleView = () => {
+    if (isOnlineGame) return;
     setBoardView(prev => prev === 'white' ? 'black' : 'white');
   };
 
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
-
-      switch(e.key.toLowerCase()) {
-        case 'r':
-          resetGame();
-          break;
-        case 'h':
-          if (!game.isGameOver()) handleGetHint();
-          break;
-        case 'f':
-          toggleView();
-          break;
-        case 'escape':
-          setShowHintModal(false);
-          break;
+  // The listener is registered once and calls the latest handler through this ref
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    // The promotion picker owns the keyboard while it is open
+    if (pendingPromotion) return;
+    if (showPgnDialog) {
+      if (e.key === 'Escape') setShowPgnDialog(false);
+      return;
+    }
+    if (showLibrary) {
+      if (e.key === 'Escape') setShowLibrary(false);
+      return;
+    }
+    if (showThemeDialog) {
+      if (e.key === 'Escape') setShowThemeDialog(false);
+      return;
+    }
+    if (showNewGameDialog) {
+      if (e.key === 'Escape') setShowNewGameDialog(false);
+      return;
+    }
+    if (isEditing) {
+      if (e.key === 'Escape') setEditorPosition(null);
+      else if (e.key.toLowerCase() === 'f') toggleView();
+      return;
+    }
+
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoMove();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redoMove();
       }
-    };
+      return;
+    }
+
+    switch(e.key.toLowerCase()) {
+      case 'r':
+        resetGame();
+        break;
+      case 'n':
+        setShowNewGameDialog(true);
+        break;
+      case 'h':
+        if (!isGameOver) handleGetHint();
+        break;
+      case 'f':
+        toggleView();
+        break;
+      case 'p':
+        setShowPgnDialog(true);
+        break;
+      case 'e':
+        openEditor();
+        break;
+      case 'l':
+        setShowLibrary(true);
+        break;
+      case 't':
+        setShowThemeDialog(true);
+        break;
+      case 'v':
+        toggleEvalBar();
+        break;
+      case 'b':
+        toggleBoardRenderer();
+        break;
+      case 'o':
+        setShowExplorer(show => !show);
+        break;
+      case '/':
+        e.preventDefault();
+        moveInputRef.current?.focus();
+        break;
+      case 'escape':
+        setShowHintModal(false);
+        setShowAnalysis(false);
+        break;
+      case 'arrowleft':
+        goToPly(displayedPly - 1);
+        break;
+      case 'arrowright':
+        goToPly(displayedPly + 1);
+        break;
+      case 'home':
+        goToPly(0);
+        break;
+      case 'end':
+        goToPly(history.length);
+        break;
+    }
+  };
 
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => keyHandlerRef.current(e);
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [game, isThinking]);
+  }, []);
 
   return (
     <div className="w-full h-screen relative flex flex-col bg-gradient-to-br from-slate-950 via-slate-900 to-slate-800 text-white overflow-hidden font-sans">
 
-      {/* 3D Scene Layer */}
-      <div className="absolute inset-0 z-0">
-         <ThreeChess
+      {/* Screen reader announcements */}
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+
+      {/* 3D Scene Layer (focusable for arrow-key play) */}
+      <div
+        className="absolute inset-0 z-0 outline-none"
+        tabIndex={0}
+        role="application"
+        aria-label="Chess board. Use the arrow keys to move between squares and Enter to select or move a piece."
+        onKeyDown={handleBoardKeyDown}
+        onFocus={handleBoardFocus}
+        onBlur={() => setBoardFocused(false)}
+      >
+         <BoardComponent
            boardState={boardState}
-           fen={fen}
-           selectedSquare={selectedSquare}
-           validMoves={validMoves}
-           lastMove={lastMove}
-           onSquareClick={onSquareClick}
+           fen={displayedFen}
+           startFen={isEditing ? undefined : startFen}
+           moves={isEditing ? undefined : displayedMoves}
+           selectedSquare={isEditing ? null : selectedSquare}
+           validMoves={isEditing ? [] : validMoves}
+           lastMove={isEditing ? null : displayedLastMove}
+           cursorSquare={boardFocused ? cursorSquare : null}
+           onSquareClick={isEditing ? handleEditorSquareClick : onSquareClick}
+           onPieceDragStart={isEditing ? () => SQUARES : handlePieceDragStart}
+           onPieceDrop={isEditing ? handleEditorDrop : handlePieceDrop}
+           capturedPieces={capturedPieces}
+           arrows={boardArrows}
            turn={game.turn()}
            view={boardView}
+           theme={theme}
+           pieceSet={pieceSet}
+           quality={renderQuality}
+           onAutoQualityChange={setAutoQuality}
+           onRenderError={() => setWebglAvailable(false)}
          />
       </div>
 
+      {/* Evaluation Bar */}
+      {isEvalBarVisible && <EvalBar evaluation={liveEvaluation} view={boardView} />}
+
       {/* HUD Overlay */}
       <div className="absolute top-0 left-0 w-full p-6 z-10 pointer-events-none flex justify-between items-start">
         {/* Header */}
@@ -150,12 +1168,88 @@ const App = () => {
             <span className="text-sm font-semibold text-gray-100 uppercase tracking-wider">
               {game.turn() === 'w' ? 'White to Move' : 'Black to Move'}
             </span>
-             {game.inCheck() && !game.isGameOver() && (
+             {game.inCheck() && !isGameOver && (
                 <span className="ml-2 px-2.5 py-1 rounded-md text-xs font-bold bg-red-500 text-white animate-pulse shadow-lg shadow-red-500/50">
                   CHECK
                 </span>
              )}
+             {variant !== Variant.STANDARD && (
+                <span className="ml-2 px-2.5 py-1 rounded-md text-xs font-bold bg-white/10 text-gray-200" title={VARIANTS[variant].description}>
+                  {VARIANTS[variant].label}{variant === Variant.CHESS960 && chess960Index(startFen) !== null ? ` #${chess960Index(startFen)}` : ''}
+                </span>
+             )}
+             {isEngineThinking && (
+                <span className="ml-2 flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-bold bg-blue-500/20 text-blue-300 animate-pulse">
+                  <Cpu size={12} /> THINKING
+                </span>
+             )}
           </div>
+          {!isEditing && <OpeningLabel state={openingState} moves={displayedMoves} />}
+          {!isEditing && <MaterialBalance captured={capturedPieces} balance={materialBalance} />}
+          {gameMode === GameMode.VS_GEMINI && geminiCommentary && !isEditing && (
+            <div className="mt-3 max-w-xs flex items-start gap-2 px-3 py-2 rounded-xl bg-cyan-500/10 border border-cyan-400/20 text-xs text-gray-200">
+              <Sparkles size={14} className="text-cyan-300 shrink-0 mt-0.5" />
+              <span>
+                <span className="font-mono font-bold text-cyan-200 mr-1.5">{geminiCommentary.san}</span>
+                <span className={geminiCommentary.fallback ? 'text-amber-200' : ''}>{geminiCommentary.text}</span>
+              </span>
+            </div>
+          )}
+          {timeControl && (
+            <ChessClock
+              times={clock.times}
+              running={clock.running}
+              isTicking={!isGameOver && !isEditing && !(pauseClocksOnModals && showHintModal)}
+            />
+          )}
+          {editorPosition ? (
+            <BoardEditorPanel
+              position={editorPosition}
+              tool={editorTool}
+              error={editorError}
+              onToolChange={setEditorTool}
+              onPositionChange={handleEditorPositionChange}
+              onStartPosition={() => handleEditorPositionChange(fenToPosition(new Chess().fen()))}
+              onClear={() => handleEditorPositionChange({ placement: {}, turn: 'w', castling: EMPTY_CASTLING, enPassant: null })}
+              onPlay={playFromEditor}
+              onCancel={() => setEditorPosition(null)}
+            />
+          ) : (
+            <OpponentPanel
+              gameMode={gameMode}
+              engineColor={engineColor}
+              engineLevel={engineLevel}
+              onGameModeChange={handleGameModeChange}
+              onEngineColorChange={handleEngineColorChange}
+              onEngineLevelChange={setEngineLevel}
+            />
+          )}
+          {gameMode === GameMode.ONLINE && !isEditing && <OnlinePanel online={online} />}
+          {isPuzzleMode && !isEditing && <PuzzlePanel trainer={puzzles} />}
+          {!isEditing && (
+            <TimeControlPanel
+              timeControl={timeControl}
+              pauseOnModals={pauseClocksOnModals}
+              onTimeControlChange={handleTimeControlChange}
+              evalBarInTimed={evalBarInTimed}
+              onPauseOnModalsChange={setPauseClocksOnModals}
+              onEvalBarInTimedChange={setEvalBarInTimed}
+            />
+          )}
+          {!isEditing && (
+            <EngineSourcePanel
+              source={engineSource}
+              error={engineError}
+              onSourceChange={handleEngineSourceChange}
+            />
+          )}
+          {!isEditing && (
+            <HintSettingsPanel
+              providers={hintProviders}
+              providerId={hintProviderId}
+              onProviderChange={handleHintProviderChange}
+            />
+          )}
         </div>
 
         {/* Action Buttons */}
@@ -163,7 +1257,8 @@ const App = () => {
           <div className="flex gap-3">
              <button
               onClick={toggleView}
-              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group"
+              disabled={isOnlineGame}
+              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group disabled:opacity-40 disabled:cursor-not-allowed"
               title="Flip Board (F)"
             >
               <Rotate3D size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors group-hover:rotate-180 duration-500" />
@@ -175,22 +1270,122 @@ const App = () => {
             >
               <RefreshCw size={20} className="text-gray-300 group-hover:text-blue-400 group-hover:rotate-180 transition-all duration-500" />
             </button>
+            <button
+              onClick={() => setShowNewGameDialog(true)}
+              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group"
+              title="New Game / Variants (N)"
+            >
+              <CirclePlus size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
+            <button
+              onClick={() => setShowPgnDialog(true)}
+              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group"
+              title="Import / Export PGN (P)"
+            >
+              <FileText size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
+            <button
+              onClick={() => isEditing ? setEditorPosition(null) : openEditor()}
+              className={`p-3.5 backdrop-blur-xl rounded-xl transition-all shadow-xl border group ${isEditing ? 'bg-blue-600/60 border-blue-400/50' : 'bg-slate-800/50 border-white/10 hover:bg-slate-700/60 hover:border-blue-400/30'}`}
+              title="Board Editor (E)"
+            >
+              <PencilRuler size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
+            <button
+              onClick={toggleEvalBar}
+              className={`p-3.5 backdrop-blur-xl rounded-xl transition-all shadow-xl border group ${isEvalBarVisible ? 'bg-blue-600/60 border-blue-400/50' : 'bg-slate-800/50 border-white/10 hover:bg-slate-700/60 hover:border-blue-400/30'}`}
+              title="Evaluation Bar (V)"
+            >
+              <Gauge size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group"
+              title="Saved Games (L)"
+            >
+              <Library size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
+            <button
+              onClick={() => setShowThemeDialog(true)}
+              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group"
+              title="Board Theme (T)"
+            >
+              <Palette size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
+            <button
+              onClick={toggleBoardRenderer}
+              disabled={!webglAvailable}
+              className="p-3.5 bg-slate-800/50 backdrop-blur-xl rounded-xl hover:bg-slate-700/60 transition-all shadow-xl border border-white/10 hover:border-blue-400/30 group disabled:opacity-40 disabled:cursor-not-allowed"
+              title={!webglAvailable ? '3D board unavailable: WebGL could not start' : boardRenderer === BoardRenderer.WEBGL ? 'Switch to 2D Board (B)' : 'Switch to 3D Board (B)'}
+            >
+              {boardRenderer === BoardRenderer.WEBGL
+                ? <Grid2x2 size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+                : <Box size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />}
+            </button>
+            <button
+              onClick={() => setShowExplorer(!showExplorer)}
+              className={`p-3.5 backdrop-blur-xl rounded-xl transition-all shadow-xl border group ${showExplorer ? 'bg-blue-600/60 border-blue-400/50' : 'bg-slate-800/50 border-white/10 hover:bg-slate-700/60 hover:border-blue-400/30'}`}
+              title="Opening Explorer (O)"
+            >
+              <BookOpen size={20} className="text-gray-300 group-hover:text-blue-400 transition-colors" />
+            </button>
           </div>
 
           <button
-            onClick={handleGetHint}
-            disabled={isThinking || game.isGameOver()}
+            onClick={() => handleGetHint()}
+            disabled={isPuzzleMode ? puzzles.isNudging || !puzzles.puzzle : isThinking || isGameOver}
             className="flex items-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-600 to-cyan-600 backdrop-blur-xl rounded-xl hover:from-blue-500 hover:to-cyan-500 transition-all shadow-xl hover:shadow-blue-500/50 border border-blue-400/30 group disabled:opacity-50 disabled:cursor-not-allowed"
-            title="Ask Gemini (H)"
+            title={isPuzzleMode ? 'Get a nudge without the answer (H)' : `Ask ${hintProvider.label} (H)`}
           >
             <Zap size={20} className="text-white fill-current group-hover:scale-110 transition-transform" />
-            <span className="font-bold text-sm">Ask Gemini</span>
+            <span className="font-bold text-sm">{isPuzzleMode ? 'Nudge' : `Ask ${hintProvider.label}`}</span>
           </button>
+
+          {!isEditing && (
+            <MoveInputBar
+              fen={fen}
+              disabled={!canMovePieces}
+              inputRef={moveInputRef}
+              onMove={handleTypedMove}
+            />
+          )}
+
+          {showExplorer && !isEditing && (
+            <OpeningExplorer
+              bookMoves={bookMoves}
+              canPlay={canMovePieces}
+              onPlay={handleBookMove}
+            />
+          )}
+
+          {!isEditing && <MoveHistoryPanel
+            history={history}
+            startFen={startFen}
+            viewPly={displayedPly}
+            isBrowsing={isBrowsing}
+            canUndo={history.length > 0 && !isOnlineGame}
+            canRedo={redoStack.length > 0 && !isOnlineGame}
+            onSelectPly={goToPly}
+            onUndo={undoMove}
+            onRedo={redoMove}
+            onBranch={branchFromView}
+          />}
         </div>
       </div>
 
+      {/* Promotion Picker */}
+      {pendingPromotion && (
+        <PromotionPicker
+          color={game.turn()}
+          previews3d={boardRenderer === BoardRenderer.WEBGL}
+          onSelect={handlePromotionSelect}
+          onCancel={handlePromotionCancel}
+          onRenderError={() => setWebglAvailable(false)}
+        />
+      )}
+
       {/* Game Over Modal */}
-      {gameStatus !== GameStatus.PLAYING && (
+      {gameStatus !== GameStatus.PLAYING && !isReplaying && !showAnalysis && !isPuzzleMode && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-in fade-in duration-300">
           <div className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-12 rounded-3xl shadow-2xl max-w-md w-full text-center relative overflow-hidden">
              <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500 to-transparent"></div>
@@ -201,6 +1396,12 @@ const App = () => {
              <p className="text-2xl text-gray-200 mb-10 capitalize font-light relative z-10">
                {gameStatus === GameStatus.CHECKMATE
                  ? <span className="text-blue-400 font-semibold">{game.turn() === 'w' ? 'Black' : 'White'} Wins!</span>
+                 : gameStatus === GameStatus.ELIMINATED
+                 ? <span className="text-blue-400 font-semibold">{game.turn() === 'w' ? 'Black' : 'White'} Wins! <span className="block text-base text-gray-400 normal-case mt-1">{game.turn() === 'w' ? 'White' : 'Black'} has no pieces left</span></span>
+                 : gameStatus === GameStatus.TIMEOUT
+                 ? <span className="text-blue-400 font-semibold">{game.turn() === 'w' ? 'Black' : 'White'} Wins on Time!</span>
+                 : gameStatus === GameStatus.TIMEOUT_DRAW
+                 ? <>Draw <span className="block text-base text-gray-400 normal-case mt-1">{game.turn() === 'w' ? 'White' : 'Black'} ran out of time, but the opponent cannot checkmate</span></>
                  : gameStatus}
              </p>
              <button
@@ -209,6 +1410,112 @@ const App = () => {
              >
                Play Again
              </button>
+             <button
+               onClick={() => setShowPgnDialog(true)}
+               className="w-full mt-3 py-3 flex items-center justify-center gap-2 bg-slate-800/60 text-gray-200 font-semibold rounded-xl border border-white/10 hover:bg-slate-700/60 transition-all relative z-10"
+             >
+               <FileText size={18} /> Export PGN
+             </button>
+             {history.length > 0 && (
+               <button
+                 onClick={() => setShowAnalysis(true)}
+                 className="w-full mt-3 py-3 flex items-center justify-center gap-2 bg-slate-800/60 text-gray-200 font-semibold rounded-xl border border-white/10 hover:bg-slate-700/60 transition-all relative z-10"
+               >
+                 <BarChart3 size={18} /> Analyze Game
+               </button>
+             )}
+          </div>
+        </div>
+      )}
+
+      {/* Post-game Analysis */}
+      {showAnalysis && (
+        <AnalysisPanel
+          analysis={gameAnalysis.analysis}
+          progress={gameAnalysis.progress}
+          error={gameAnalysis.error}
+          selectedPly={displayedPly}
+          onSelectPly={goToPly}
+          onNewGame={resetGame}
+          onClose={() => setShowAnalysis(false)}
+        />
+      )}
+
+      {/* PGN Import / Export */}
+      {showPgnDialog && (
+        <PgnDialog
+          game={game}
+          fen={fen}
+          gameStatus={gameStatus}
+          defaultPlayers={defaultPlayers}
+          onImport={importGame}
+          onClose={() => setShowPgnDialog(false)}
+        />
+      )}
+
+      {/* New Game / Variants */}
+      {showNewGameDialog && (
+        <NewGameDialog
+          variant={variant}
+          onStart={handleNewGame}
+          onClose={() => setShowNewGameDialog(false)}
+        />
+      )}
+
+      {/* Board Theme */}
+      {showThemeDialog && (
+        <ThemeDialog
+          themes={themes}
+          customIds={customThemes.map(t => t.id)}
+          selectedId={theme.id}
+          onSelect={handleThemeSelect}
+          onImport={handleThemeImport}
+          onDelete={handleThemeDelete}
+          pieceSets={[
+            { id: PRIMITIVE_PIECE_SET_ID, name: 'Classic (built-in)' },
+            ...pieceSetListings,
+            ...(localPieceSet ? [localPieceSet] : []),
+          ]}
+          pieceSetId={pieceSetId}
+          pieceSetError={pieceSetError}
+          onPieceSetSelect={handlePieceSetSelect}
+          onLocalPieceSet={handleLocalPieceSet}
+          renderQuality={renderQuality}
+          autoQuality={autoQuality}
+          onRenderQualitySelect={handleRenderQualitySelect}
+          onClose={() => setShowThemeDialog(false)}
+        />
+      )}
+
+      {/* Saved Games Library */}
+      {showLibrary && (
+        <SavedGamesDialog
+          currentGameId={gameId}
+          onOpen={openSavedGame}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {/* Resume Prompt */}
+      {resumeCandidate && history.length === 0 && !isEditing && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 pointer-events-auto animate-in slide-in-from-top-4 fade-in duration-300">
+          <div className="flex items-center gap-4 bg-slate-900/90 backdrop-blur-2xl px-5 py-3 rounded-2xl border border-blue-500/30 shadow-2xl">
+            <History size={20} className="text-blue-400 shrink-0" />
+            <div className="text-sm">
+              <div className="font-semibold text-white">Resume game?</div>
+              <div className="text-xs text-gray-400">
+                {resumeCandidate.name} • {Math.ceil(resumeCandidate.moves.length / 2)} moves • {new Date(resumeCandidate.updatedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => openSavedGame(resumeCandidate)}
+              className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-600 to-cyan-600 text-sm font-bold hover:from-blue-500 hover:to-cyan-500"
+            >
+              Resume game
+            </button>
+            <button onClick={() => setResumeCandidate(null)} className="text-gray-400 hover:text-white p-1 hover:bg-white/10 rounded-lg" title="Dismiss">
+              <X size={16} />
+            </button>
           </div>
         </div>
       )}
@@ -236,7 +1543,7 @@ const App = () => {
                </div>
                <div className="flex-1">
                  <h3 className="text-xl font-bold text-white mb-3 flex items-center gap-3">
-                   Gemini Analysis
+                   {hintProvider.label} Analysis
                    {isThinking && <span className="text-xs font-normal text-blue-300 animate-pulse px-2 py-1 bg-blue-500/20 rounded">Processing...</span>}
                  </h3>
 
@@ -246,9 +1553,54 @@ const App = () => {
                      <div className="h-3 bg-white/10 rounded w-2/3 animate-pulse"></div>
                      <div className="h-3 bg-white/10 rounded w-1/2 animate-pulse"></div>
                    </div>
+                 ) : hintError ? (
+                   <div className="space-y-3">
+                     <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+                       <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                       <span>
+                         <span className="font-semibold">
+                           {hintError.kind === 'missing-key' ? 'API key missing' : hintError.kind === 'timeout' ? 'Timed out' : 'Hint failed'}:
+                         </span>{' '}
+                         {hintError.message}
+                       </span>
+                     </div>
+                     <div className="flex gap-2">
+                       {hintError.kind !== 'missing-key' && (
+                         <button
+                           onClick={() => handleGetHint()}
+                           className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-slate-800/60 border border-white/10 text-gray-200 hover:bg-slate-700/60"
+                         >
+                           Try Again
+                         </button>
+                       )}
+                       {hintProviderId !== HintProviderId.ENGINE && (
+                         <button
+                           onClick={() => switchHintProvider(HintProviderId.ENGINE)}
+                           className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500"
+                         >
+                           Use Local Engine
+                         </button>
+                       )}
+                     </div>
+                   </div>
                  ) : (
-                   <div className="text-gray-100 text-base leading-relaxed whitespace-pre-line">
-                     {hint}
+                   <div className="space-y-3">
+                     {hint?.best && (
+                       <div className="flex flex-wrap items-center gap-2">
+                         <span className="px-3 py-1 rounded-lg bg-cyan-500/20 border border-cyan-400/40 text-cyan-200 font-mono font-bold text-lg shadow-[0_0_20px_rgba(34,211,238,0.3)]">
+                           {hint.best.san}
+                         </span>
+                         {hint.alternatives.length > 0 && <span className="text-xs text-gray-400 uppercase tracking-wider ml-1">Also</span>}
+                         {hint.alternatives.map(m => (
+                           <span key={m.uci} className="px-2 py-0.5 rounded-md bg-violet-500/15 border border-violet-400/30 text-violet-200 font-mono text-sm">
+                             {m.san}
+                           </span>
+                         ))}
+                       </div>
+                     )}
+                     <div className="text-gray-100 text-base leading-relaxed whitespace-pre-line">
+                       {hint?.explanation}
+                     </div>
                    </div>
                  )}
                </div>
@@ -275,7 +1627,7 @@ const App = () => {
         </div>
         <div className="flex items-center gap-1 bg-slate-900/40 backdrop-blur-xl px-4 py-3 rounded-full border border-white/10">
           <Keyboard size={14} className="text-white/40" />
-          <span className="text-white/40 text-xs uppercase tracking-wider">R: Reset • H: Hint • F: Flip</span>
+          <span className="text-white/40 text-xs uppercase tracking-wider">R: Reset • N: New Game • H: Hint • F: Flip • P: PGN • E: Editor • L: Library • T: Theme • V: Eval • B: 2D/3D • O: Openings • /: Type Move • ←/→: Moves • Ctrl+Z: Undo</span>
         </div>
       </div>
 
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Color, Move } from 'chess.js';
+import { X, BarChart3, RefreshCw, AlertTriangle } from 'lucide-react';
+import { EngineStoppedError } from '../services/engineClient';
+import { createEngineFor } from '../services/engineSources';
+import { UciBridgeError } from '../services/uciEngineClient';
+import { EngineSource } from '../types';
+import {
+  ANALYSIS_SETTINGS,
+  AnalyzedMove,
+  GameAnalysis,
+  MoveClassification,
+  analyzeGame,
+  formatEval,
+  winPercent,
+} from '../services/analysis';
+
+// --- Analysis Hook ---
+// Runs the engine over the whole game once `active` turns on. The result is
+// kept until the game (or its moves) change.
+export const useGameAnalysis = ({
+  startFen,
+  history,
+  active,
+  resetKey,
+  source,
+}: {
+  startFen: string;
+  history: Move[];
+  active: boolean;
+  resetKey: unknown;
+  source: EngineSource;
+}) => {
+  const engine = useMemo(() => createEngineFor(source), [source]);
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  // A different engine means a fresh analysis
+  useEffect(() => {
+    setAnalysis(null);
+    setProgress(0);
+    setError(null);
+  }, [resetKey, engine]);
+
+  useEffect(() => {
+    if (!active || analysis) return;
+    let cancelled = false;
+    setError(null);
+
+    analyzeGame(startFen, history, fen => engine.search(fen, ANALYSIS_SETTINGS), (done, total) => {
+      if (!cancelled) setProgress(done / total);
+    })
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(e => {
+        if (cancelled || e instanceof EngineStoppedError) return;
+        console.error('Analysis Error:', e);
+        setError(e instanceof UciBridgeError ? e.message : 'The engine stopped unexpectedly while analyzing this game.');
+      });
+
+    return () => {
+      cancelled = true;
+      engine.stop();
+    };
+  }, [active, resetKey, analysis, engine]);
+
+  return { analysis, progress, error };
+};
+
+// --- Display ---
+
+const CLASS_STYLES: Record<MoveClassification, { label: string, dot: string, text: string }> = {
+  best: { label: 'Best', dot: '#22c55e', text: 'text-green-300' },
+  good: { label: 'Good', dot: '#94a3b8', text: 'text-gray-300' },
+  inaccuracy: { label: 'Inaccuracy', dot: '#facc15', text: 'text-yellow-300' },
+  mistake: { label: 'Mistake', dot: '#f97316', text: 'text-orange-300' },
+  blunder: { label: 'Blunder', dot: '#ef4444', text: 'text-red-300' },
+};
+
+const FLAGGED: MoveClassification[] = ['inaccuracy', 'mistake', 'blunder'];
+
+const GRAPH_WIDTH = 600;
+const GRAPH_HEIGHT = 110;
+
+interface EvalGraphProps {
+  analysis: GameAnalysis;
+  selectedPly: number;
+  onSelectPly: (ply: number) => void;
+}
+
+// White's winning chances over the game; the filled area is White's share
+const EvalGraph: React.FC<EvalGraphProps> = ({ analysis, selectedPly, onSelectPly }) => {
+  const count = analysis.positions.length;
+  const x = (ply: number) => count > 1 ? (ply / (count - 1)) * GRAPH_WIDTH : GRAPH_WIDTH / 2;
+  const y = (score: number) => GRAPH_HEIGHT * (1 - winPercent(score) / 100);
+
+  const line = analysis.positions.map((p, i) => `${x(i)},${y(p.score)}`).join(' ');
+  const area = `0,${GRAPH_HEIGHT} ${line} ${x(count - 1)},${GRAPH_HEIGHT}`;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    onSelectPly(Math.round(ratio * (count - 1)));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-28 rounded-lg bg-slate-950/80 border border-white/10 cursor-crosshair"
+      onClick={handleClick}
+    >
+      <polygon points={area} fill="rgba(241,245,249,0.85)" />
+      <line x1={0} x2={GRAPH_WIDTH} y1={GRAPH_HEIGHT / 2} y2={GRAPH_HEIGHT / 2} stroke="rgba(148,163,184,0.4)" strokeDasharray="4 4" />
+      <polyline points={line} fill="none" stroke="#3b82f6" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      <line x1={x(selectedPly)} x2={x(selectedPly)} y1={0} y2={GRAPH_HEIGHT} stroke="#22d3ee" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      {analysis.moves.filter(m => FLAGGED.includes(m.classification)).map(m => (
+        <circle
+          key={m.ply}
+          cx={x(m.ply)}
+          cy={y(analysis.positions[m.ply].score)}
+          r={4}
+          fill={CLASS_STYLES[m.classification].dot}
+          stroke="#0f172a"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+interface AnalysisPanelProps {
+  analysis: GameAnalysis | null;
+  progress: number;
+  error: string | null;
+  selectedPly: number;
+  onSelectPly: (ply: number) => void;
+  onNewGame: () => void;
+  onClose: () => void;
+}
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ analysis, progress, error, selectedPly, onSelectPly, onNewGame, onClose }) => {
+  const counts = (color: Color, classification: MoveClassification) =>
+    analysis?.moves.filter(m => m.color === color && m.classification === classification).length ?? 0;
+
+  const flagged = analysis?.moves.filter(m => FLAGGED.includes(m.classification)) ?? [];
+  const current = analysis && selectedPly > 0 ? analysis.moves[selectedPly - 1] : null;
+  const next = analysis && selectedPly < analysis.moves.length ? analysis.moves[selectedPly] : null;
+
+  const moveLabel = (m: AnalyzedMove) => `${Math.ceil(m.ply / 2)}${m.color === 'w' ? '.' : '...'} ${m.san}`;
+
+  return (
+    <div className="absolute bottom-12 left-1/2 -translate-x-1/2 z-40 w-11/12 max-w-3xl pointer-events-auto animate-in slide-in-from-bottom-10 fade-in duration-300">
+      <div className="bg-gradient-to-br from-slate-900/95 to-slate-800/95 backdrop-blur-2xl border border-blue-500/30 p-6 rounded-2xl shadow-[0_0_60px_rgba(59,130,246,0.25)] relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
+          title="Close (ESC)"
+        >
+          <X size={20} />
+        </button>
+
+        <h3 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+          <BarChart3 size={20} className="text-blue-400" /> Game Analysis
+        </h3>
+
+        {error ? (
+          <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+          </div>
+        ) : !analysis ? (
+          <div className="space-y-2 py-2">
+            <div className="text-sm text-gray-300">Evaluating every position… {Math.round(progress * 100)}%</div>
+            <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-blue-500 to-cyan-400 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {/* Accuracy per side */}
+            <div className="grid grid-cols-2 gap-3">
+              {(['w', 'b'] as Color[]).map(color => (
+                <div key={color} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-800/50 border border-white/10">
+                  <span className={`w-3 h-3 rounded-full ${color === 'w' ? 'bg-white' : 'bg-gray-800 border border-white/40'}`} />
+                  <div className="flex-1">
+                    <div className="text-xs text-gray-400 uppercase tracking-wider">{color === 'w' ? 'White' : 'Black'} accuracy</div>
+                    <div className="text-xl font-bold text-white tabular-nums">{analysis.accuracy[color].toFixed(1)}%</div>
+                  </div>
+                  <div className="text-[11px] text-right leading-tight">
+                    {FLAGGED.map(c => (
+                      <div key={c} className={CLASS_STYLES[c].text}>{counts(color, c)} {CLASS_STYLES[c].label.toLowerCase()}{counts(color, c) === 1 ? '' : 's'}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <EvalGraph analysis={analysis} selectedPly={selectedPly} onSelectPly={onSelectPly} />
+
+            {/* Selected position */}
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-200">
+              <span className="font-mono font-bold text-cyan-200">{formatEval(analysis.positions[selectedPly].score)}</span>
+              {current ? (
+                <span>
+                  After <span className="font-mono font-semibold">{moveLabel(current)}</span>{' '}
+                  <span className={CLASS_STYLES[current.classification].text}>({CLASS_STYLES[current.classification].label.toLowerCase()})</span>
+                </span>
+              ) : <span>Starting position</span>}
+              {next?.bestMove && (
+                <span className="text-gray-400">
+                  Better than {next.san}: <span className="font-mono font-semibold text-cyan-300">{next.bestMove.san}</span>
+                </span>
+              )}
+            </div>
+
+            {/* Flagged moves, click to see the position before them */}
+            {flagged.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 max-h-20 overflow-y-auto">
+                {flagged.map(m => (
+                  <button
+                    key={m.ply}
+                    onClick={() => onSelectPly(m.ply - 1)}
+                    className={`px-2 py-0.5 rounded-md text-xs font-mono bg-slate-800/60 border border-white/10 hover:bg-slate-700/60 ${CLASS_STYLES[m.classification].text}`}
+                    title={`${CLASS_STYLES[m.classification].label}: lost ${(m.loss / 100).toFixed(1)} pawns${m.bestMove ? `, ${m.bestMove.san} was better` : ''}`}
+                  >
+                    {moveLabel(m)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={onNewGame}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500"
+          >
+            <RefreshCw size={16} /> Play Again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisPanel;
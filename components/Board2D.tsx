@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Color, PieceSymbol, Square } from 'chess.js';
+import { BoardArrow } from '../types';
+import { resolvePieces } from '../services/pieceTracking';
+import { ARROW_COLORS, BoardTheme, DEFAULT_THEME, DROP_COLORS } from '../services/themes';
+import type { ThreeChessProps } from './ThreeChess';
+
+// --- Constants ---
+// The board is drawn in a 0..8 viewBox, one unit per square
+const DRAG_THRESHOLD_PX = 5;   // Pointer travel before a press becomes a drag
+const MOVE_DURATION_MS = 250;
+
+// Solid glyphs for both colours; the theme fills them. U+FE0E keeps the pawn
+// from rendering as an emoji.
+const GLYPHS: Record<PieceSymbol, string> = { p: '\u265F\uFE0E', n: '♞', b: '♝', r: '♜', q: '♛', k: '♚' };
+
+type Point = { x: number, y: number };
+
+// --- Helper Functions ---
+
+// Top-left corner of a square, with White or Black at the bottom
+const getCorner = (square: Square, view: 'white' | 'black'): Point => {
+  const file = square.charCodeAt(0) - 97;
+  const rank = parseInt(square[1]) - 1;
+  return view === 'white' ? { x: file, y: 7 - rank } : { x: 7 - file, y: rank };
+};
+
+const getSquareAt = (point: Point, view: 'white' | 'black'): Square | null => {
+  const col = Math.floor(point.x);
+  const row = Math.floor(point.y);
+  if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+  const file = view === 'white' ? col : 7 - col;
+  const rank = view === 'white' ? 7 - row : row;
+  return `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
+};
+
+// --- Sub-Components ---
+
+interface PieceGlyphProps {
+  type: PieceSymbol;
+  color: Color;
+  at: Point;
+  enterFrom?: Point;   // Where a newly mounted piece slides in from
+  dragging: boolean;
+  isSelected: boolean;
+  theme: BoardTheme;
+  onPointerDown?: (e: React.PointerEvent) => void;
+}
+
+// Moves are animated with a CSS transition on the transform, so a piece that
+// keeps its key glides to its new square (and across the board on a flip)
+const PieceGlyph: React.FC<PieceGlyphProps> = ({ type, color, at, enterFrom, dragging, isSelected, theme, onPointerDown }) => {
+  const [entered, setEntered] = useState(!enterFrom);
+
+  useEffect(() => {
+    if (entered) return;
+    // Paint once at the start position so the transition has somewhere to run from
+    const frame = requestAnimationFrame(() => setEntered(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const position = entered || !enterFrom ? at : enterFrom;
+  const fill = color === 'w' ? theme.pieces.white : theme.pieces.black;
+  const outline = color === 'w' ? theme.pieces.black : theme.pieces.white;
+
+  return (
+    <g
+      style={{
+        transform: `translate(${position.x}px, ${position.y}px)`,
+        transition: dragging ? 'none' : `transform ${MOVE_DURATION_MS}ms ease-out`,
+        cursor: onPointerDown ? 'grab' : undefined,
+      }}
+      onPointerDown={onPointerDown}
+    >
+      <text
+        x={0.5}
+        y={0.54}
+        fontSize={0.82}
+        textAnchor="middle"
+        dominantBaseline="central"
+        fill={isSelected ? theme.highlights.selected : fill}
+        stroke={outline}
+        strokeWidth={0.035}
+        paintOrder="stroke"
+        style={{ userSelect: 'none', filter: dragging ? 'drop-shadow(0 0.08px 0.06px rgba(0,0,0,0.6))' : undefined }}
+      >
+        {GLYPHS[type]}
+      </text>
+    </g>
+  );
+};
+
+const ArrowLine: React.FC<BoardArrow & { view: 'white' | 'black' }> = ({ from, to, kind, view }) => {
+  const start = getCorner(from, view);
+  const end = getCorner(to, view);
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  // Stop short of the centre so the head lands on the target square
+  const shorten = Math.min(0.3, length / 2);
+  const x2 = end.x + 0.5 - (dx / length) * shorten;
+  const y2 = end.y + 0.5 - (dy / length) * shorten;
+
+  return (
+    <line
+      x1={start.x + 0.5}
+      y1={start.y + 0.5}
+      x2={x2}
+      y2={y2}
+      stroke={ARROW_COLORS[kind]}
+      strokeWidth={kind === 'best' ? 0.16 : 0.1}
+      strokeLinecap="round"
+      opacity={kind === 'best' ? 0.9 : 0.65}
+      markerEnd={`url(#arrowhead-${kind})`}
+    />
+  );
+};
+
+// --- Main Component ---
+// Flat SVG board for study, and for browsers where WebGL is missing or slow.
+// Takes the 3D board's props; quality, piece sets and the capture trays are
+// 3D-only (the HUD still shows the material balance).
+
+const Board2D: React.FC<ThreeChessProps> = ({
+  boardState,
+  startFen,
+  moves,
+  selectedSquare,
+  validMoves,
+  lastMove,
+  cursorSquare = null,
+  onSquareClick,
+  onPieceDragStart,
+  onPieceDrop,
+  arrows = [],
+  view,
+  theme = DEFAULT_THEME,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pieces = useMemo(() => resolvePieces(boardState, startFen, moves), [boardState, startFen, moves]);
+  const [hovered, setHovered] = useState<Square | null>(null);
+
+  // --- Drag and Drop ---
+  // Same rules as the 3D board: a press becomes a drag after a few pixels,
+  // legal squares take the move on release and anything else snaps back.
+  const dragRef = useRef<{ from: Square, targets: Square[], startX: number, startY: number, active: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [dragPoint, setDragPoint] = useState<Point | null>(null);
+  const [dragFrom, setDragFrom] = useState<Square | null>(null);
+
+  const toBoardPoint = (e: React.PointerEvent | React.MouseEvent): Point | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handlePiecePointerDown = (square: Square, e: React.PointerEvent) => {
+    if (e.button !== 0 || !onPieceDrop) return;
+    const targets = onPieceDragStart?.(square);
+    if (!targets) return;
+    dragRef.current = { from: square, targets, startX: e.clientX, startY: e.clientY, active: false };
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toBoardPoint(e);
+    const drag = dragRef.current;
+    if (!drag) {
+      setHovered(point ? getSquareAt(point, view) : null);
+      return;
+    }
+    if (!drag.active) {
+      if (Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < DRAG_THRESHOLD_PX) return;
+      drag.active = true;
+      setDragFrom(drag.from);
+    }
+    setDragPoint(point);
+    setHovered(point ? getSquareAt(point, view) : null);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag?.active) return;
+
+    const point = toBoardPoint(e);
+    const to = point ? getSquareAt(point, view) : null;
+    suppressClickRef.current = true;
+    setTimeout(() => { suppressClickRef.current = false; });
+    setDragFrom(null);
+    setDragPoint(null);
+    if (to && to !== drag.from && drag.targets.includes(to)) onPieceDrop?.(drag.from, to);
+  };
+
+  // Clicks that end a drag would otherwise reselect the dragged piece
+  const handleClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) return;
+    const point = toBoardPoint(e);
+    const square = point ? getSquareAt(point, view) : null;
+    if (square) onSquareClick(square);
+  };
+
+  const dropTargetFor = (square: Square): keyof typeof DROP_COLORS | null => {
+    if (!dragFrom || square !== hovered || square === dragFrom) return null;
+    return dragRef.current?.targets.includes(square) ? 'legal' : 'illegal';
+  };
+
+  // --- Squares ---
+  const { squares, highlights } = theme;
+  const occupied = new Set(pieces.map(p => p.square));
+  const tiles = [];
+  for (let file = 0; file < 8; file++) {
+    for (let rank = 0; rank < 8; rank++) {
+      const square = `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
+      const { x, y } = getCorner(square, view);
+      const isDark = (file + rank) % 2 === 0;
+      const dropTarget = dropTargetFor(square);
+      const overlay = dropTarget ? DROP_COLORS[dropTarget].color
+        : selectedSquare === square ? highlights.selected
+        : lastMove && (lastMove.from === square || lastMove.to === square) ? highlights.lastMove
+        : hovered === square ? highlights.hover
+        : null;
+
+      tiles.push(
+        <g key={square}>
+          <rect x={x} y={y} width={1} height={1} fill={isDark ? squares.dark : squares.light} />
+          {overlay && <rect x={x} y={y} width={1} height={1} fill={overlay} opacity={hovered === square && !dropTarget ? 0.35 : 0.55} />}
+          {/* Coordinates along the bottom and left edges */}
+          {y === 7 && (
+            <text x={x + 0.94} y={y + 0.93} fontSize={0.2} textAnchor="end" fontWeight="bold" fill={isDark ? squares.light : squares.dark} style={{ userSelect: 'none' }}>
+              {square[0]}
+            </text>
+          )}
+          {x === 0 && (
+            <text x={x + 0.06} y={y + 0.22} fontSize={0.2} fontWeight="bold" fill={isDark ? squares.light : squares.dark} style={{ userSelect: 'none' }}>
+              {square[1]}
+            </text>
+          )}
+        </g>
+      );
+    }
+  }
+
+  return (
+    <div className="w-full h-full absolute inset-0 flex items-center justify-center px-6 pt-28 pb-16" style={{ background: theme.background }}>
+      <svg
+        ref={svgRef}
+        viewBox="-0.15 -0.15 8.3 8.3"
+        className="w-full h-full touch-none"
+        onClick={handleClick}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => { if (!dragRef.current) setHovered(null); }}
+        style={{ cursor: dragFrom ? 'grabbing' : hovered ? 'pointer' : 'auto' }}
+      >
+        <defs>
+          {(Object.keys(ARROW_COLORS) as (keyof typeof ARROW_COLORS)[]).map(kind => (
+            <marker key={kind} id={`arrowhead-${kind}`} viewBox="0 0 10 10" refX="5" refY="5" markerWidth="3" markerHeight="3" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={ARROW_COLORS[kind]} />
+            </marker>
+          ))}
+        </defs>
+
+        {/* Frame */}
+        <rect x={-0.15} y={-0.15} width={8.3} height={8.3} rx={0.08} fill={theme.frame.outer} />
+        <rect x={-0.05} y={-0.05} width={8.1} height={8.1} fill={theme.frame.inner} />
+
+        {tiles}
+
+        {/* Possible Moves: dots on empty squares, rings around captures */}
+        {validMoves.map(square => {
+          const { x, y } = getCorner(square, view);
+          return occupied.has(square)
+            ? <circle key={square} cx={x + 0.5} cy={y + 0.5} r={0.44} fill="none" stroke={highlights.possibleMove} strokeWidth={0.07} opacity={0.7} />
+            : <circle key={square} cx={x + 0.5} cy={y + 0.5} r={0.15} fill={highlights.possibleMove} opacity={0.6} />;
+        })}
+
+        {/* Keyboard Cursor */}
+        {cursorSquare && (() => {
+          const { x, y } = getCorner(cursorSquare, view);
+          return <rect x={x + 0.04} y={y + 0.04} width={0.92} height={0.92} fill="none" stroke={highlights.cursor} strokeWidth={0.07} rx={0.04} />;
+        })()}
+
+        {/* Pieces; the dragged one is drawn last so it passes over the others */}
+        {[...pieces].sort((a, b) => Number(a.square === dragFrom) - Number(b.square === dragFrom)).map(p => {
+          const dragging = p.square === dragFrom && dragPoint !== null;
+          return (
+            <PieceGlyph
+              key={p.id}
+              type={p.type}
+              color={p.color}
+              at={dragging ? { x: dragPoint.x - 0.5, y: dragPoint.y - 0.5 } : getCorner(p.square, view)}
+              enterFrom={p.promotedFrom && getCorner(p.promotedFrom, view)}
+              dragging={dragging}
+              isSelected={selectedSquare === p.square}
+              theme={theme}
+              onPointerDown={onPieceDrop && ((e) => handlePiecePointerDown(p.square, e))}
+            />
+          );
+        })}
+
+        {/* Suggestion Arrows */}
+        <g pointerEvents="none">
+          {arrows.map(a => <ArrowLine key={`${a.kind}-${a.from}${a.to}`} {...a} view={view} />)}
+        </g>
+      </svg>
+    </div>
+  );
+};
+
+export default Board2D;
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Color, PieceSymbol } from 'chess.js';
+import { Eraser, Hand, Copy, ClipboardPaste, Check, AlertTriangle, Play, X, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  EditorPosition,
+  EditorTool,
+  CastlingRights,
+  availableCastling,
+  enPassantCandidates,
+  fenToPosition,
+  positionToFen,
+  FenParseError,
+} from '../services/boardEditor';
+
+const PIECE_GLYPHS: Record<Color, Record<PieceSymbol, string>> = {
+  w: { k: '♔', q: '♕', r: '♖', b: '♗', n: '♘', p: '♙' },
+  b: { k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟' },
+};
+
+const PALETTE_ORDER: PieceSymbol[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+
+interface BoardEditorPanelProps {
+  position: EditorPosition;
+  tool: EditorTool;
+  error: string | null;
+  onToolChange: (tool: EditorTool) => void;
+  onPositionChange: (position: EditorPosition) => void;
+  onStartPosition: () => void;
+  onClear: () => void;
+  onPlay: () => void;
+  onCancel: () => void;
+}
+
+const toolClass = (active: boolean) =>
+  `w-9 h-9 flex items-center justify-center rounded-lg text-2xl leading-none transition-all border ${
+    active ? 'bg-blue-500/80 border-blue-300/60 shadow-lg shadow-blue-500/30' : 'bg-slate-800/60 border-white/10 hover:bg-slate-700/60'
+  }`;
+
+const smallButtonClass = "flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-semibold text-gray-200 bg-slate-800/60 border border-white/10 hover:bg-slate-700/60 transition-all";
+
+const BoardEditorPanel: React.FC<BoardEditorPanelProps> = ({
+  position,
+  tool,
+  error,
+  onToolChange,
+  onPositionChange,
+  onStartPosition,
+  onClear,
+  onPlay,
+  onCancel,
+}) => {
+  const [fenInput, setFenInput] = useState<string | null>(null);
+  const [fenError, setFenError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fen = positionToFen(position);
+  const allowedCastling = availableCastling(position.placement);
+  const epOptions = enPassantCandidates(position);
+
+  const isToolActive = (type: PieceSymbol, color: Color) =>
+    typeof tool === 'object' && tool.type === type && tool.color === color;
+
+  const applyFen = (text: string) => {
+    try {
+      onPositionChange(fenToPosition(text));
+      setFenInput(null);
+      setFenError(null);
+    } catch (e) {
+      setFenError(e instanceof FenParseError ? e.message : 'Could not read this FEN.');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(fen);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error('Clipboard Error:', e);
+    }
+  };
+
+  const handlePaste = async () => {
+    try {
+      applyFen(await navigator.clipboard.readText());
+    } catch (e) {
+      console.error('Clipboard Error:', e);
+      setFenError('Clipboard access was denied; paste the FEN into the field instead.');
+    }
+  };
+
+  const toggleCastling = (key: keyof CastlingRights) => {
+    onPositionChange({ ...position, castling: { ...position.castling, [key]: !position.castling[key] } });
+  };
+
+  const castlingOption = (key: keyof CastlingRights, label: string) => (
+    <label className={`flex items-center gap-1.5 text-xs ${allowedCastling[key] ? 'text-gray-200' : 'text-gray-500'}`}>
+      <input
+        type="checkbox"
+        checked={position.castling[key]}
+        disabled={!allowedCastling[key] && !position.castling[key]}
+        onChange={() => toggleCastling(key)}
+        className="accent-blue-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="mt-4 w-72 space-y-3 text-white">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Board Editor</span>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white p-1 hover:bg-white/10 rounded-lg" title="Leave Editor (ESC)">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Palette */}
+      <div className="space-y-1.5">
+        {(['w', 'b'] as Color[]).map(color => (
+          <div key={color} className="flex gap-1.5">
+            {PALETTE_ORDER.map(type => (
+              <button
+                key={type}
+                onClick={() => onToolChange({ type, color })}
+                className={`${toolClass(isToolActive(type, color))} ${color === 'w' ? 'text-white' : 'text-gray-900 [text-shadow:0_0_2px_rgba(255,255,255,0.8)]'}`}
+                title={`Place ${color === 'w' ? 'White' : 'Black'} ${type.toUpperCase()}`}
+              >
+                {PIECE_GLYPHS[color][type]}
+              </button>
+            ))}
+          </div>
+        ))}
+        <div className="flex gap-1.5">
+          <button onClick={() => onToolChange('move')} className={toolClass(tool === 'move')} title="Drag pieces between squares">
+            <Hand size={18} />
+          </button>
+          <button onClick={() => onToolChange('erase')} className={toolClass(tool === 'erase')} title="Remove pieces">
+            <Eraser size={18} />
+          </button>
+          <button onClick={onStartPosition} className={smallButtonClass} title="Standard starting position">
+            <RotateCcw size={14} /> Start
+          </button>
+          <button onClick={onClear} className={smallButtonClass} title="Remove all pieces">
+            <Trash2 size={14} /> Clear
+          </button>
+        </div>
+        <p className="text-[11px] text-gray-500">Click a square to place or remove. Drag any piece to move it.</p>
+      </div>
+
+      {/* Side to move, castling and en passant */}
+      <div className="space-y-2 p-3 bg-slate-800/40 rounded-xl border border-white/10">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">To move</span>
+          <div className="flex gap-1">
+            {(['w', 'b'] as Color[]).map(color => (
+              <button
+                key={color}
+                onClick={() => onPositionChange({ ...position, turn: color, enPassant: null })}
+                className={`px-2.5 py-1 rounded-md text-xs font-semibold ${position.turn === color ? 'bg-blue-500/80 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+              >
+                {color === 'w' ? 'White' : 'Black'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          {castlingOption('wK', 'White O-O')}
+          {castlingOption('wQ', 'White O-O-O')}
+          {castlingOption('bK', 'Black O-O')}
+          {castlingOption('bQ', 'Black O-O-O')}
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">En passant</span>
+          <select
+            value={position.enPassant ?? ''}
+            onChange={(e) => onPositionChange({ ...position, enPassant: (e.target.value || null) as EditorPosition['enPassant'] })}
+            className="bg-slate-800/60 border border-white/10 rounded-md px-2 py-0.5 text-xs text-gray-200"
+          >
+            <option value="" className="bg-slate-900">None</option>
+            {[...new Set([...epOptions, ...(position.enPassant ? [position.enPassant] : [])])].map(sq => (
+              <option key={sq} value={sq} className="bg-slate-900">{sq}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* FEN */}
+      <div className="space-y-1.5">
+        <input
+          value={fenInput ?? fen}
+          onChange={(e) => { setFenInput(e.target.value); setFenError(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') applyFen(e.currentTarget.value); }}
+          onBlur={(e) => { if (fenInput !== null) applyFen(e.currentTarget.value); }}
+          spellCheck={false}
+          className="w-full bg-slate-800/60 border border-white/10 rounded-lg px-2 py-1.5 font-mono text-[11px] text-gray-100 focus:outline-none focus:border-blue-400/50"
+          title="FEN"
+        />
+        <div className="flex gap-1.5">
+          <button onClick={handleCopy} className={smallButtonClass}>
+            {copied ? <Check size={14} className="text-green-400" /> : <Copy size={14} />} Copy FEN
+          </button>
+          <button onClick={handlePaste} className={smallButtonClass}>
+            <ClipboardPaste size={14} /> Paste FEN
+          </button>
+        </div>
+        {fenError && <p className="text-xs text-red-300">{fenError}</p>}
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-xs text-red-300">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error}
+        </div>
+      )}
+
+      <button
+        onClick={onPlay}
+        className="w-full flex items-center justify-center gap-2 py-2.5 bg-gradient-to-r from-blue-600 to-cyan-600 rounded-xl font-bold text-sm hover:from-blue-500 hover:to-cyan-500 transition-all shadow-xl border border-blue-400/30"
+      >
+        <Play size={16} /> Play From This Position
+      </button>
+    </div>
+  );
+};
+
+export default BoardEditorPanel;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+// A canvas throws when it cannot create a WebGL context; the boundary then
+// renders nothing and tells the parent, so it can show a 2D stand-in.
+class CanvasErrorBoundary extends React.Component<{ onError?: (error: Error) => void, children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error('WebGL Error:', error);
+    this.props.onError?.(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+export default CanvasErrorBoundary;
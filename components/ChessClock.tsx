@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Color } from 'chess.js';
+import { Timer } from 'lucide-react';
+import { TimeControl, ClockState } from '../types';
+import { chargeMove, formatClock } from '../services/clock';
+
+const initialClock = (timeControl: TimeControl | null): ClockState => ({
+  remaining: { w: timeControl?.baseMs ?? 0, b: timeControl?.baseMs ?? 0 },
+  running: null,
+  bankedMs: 0,
+  since: null,
+});
+
+const usedThisTurn = (state: ClockState, now: number) =>
+  state.bankedMs + (state.since !== null ? now - state.since : 0);
+
+// Stopped copy of the clock, safe to persist and resume later
+export const freezeClock = (state: ClockState): ClockState => ({
+  ...state,
+  bankedMs: usedThisTurn(state, Date.now()),
+  since: null,
+});
+
+// Time to show for `color`. Under a Bronstein delay the clock does not move
+// until the delay has been used up.
+const displayedTime = (state: ClockState, color: Color, timeControl: TimeControl, now: number) => {
+  if (state.running !== color) return state.remaining[color];
+  const used = usedThisTurn(state, now);
+  const charged = timeControl.bonusType === 'delay' ? Math.max(0, used - timeControl.bonusMs) : used;
+  return state.remaining[color] - charged;
+};
+
+// --- Clock Hook ---
+// The clock starts with the first move. Each move charges the mover (adding
+// the increment or delay refund) and starts the opponent's clock.
+export const useChessClock = ({
+  timeControl,
+  turn,
+  plyCount,
+  active,
+  paused,
+  resetKey,
+  initialState,
+  onFlag,
+}: {
+  timeControl: TimeControl | null;
+  turn: Color;
+  plyCount: number;
+  active: boolean;     // False once the game is over or while editing
+  paused: boolean;     // Temporarily stopped, e.g. while a dialog is open
+  resetKey: unknown;   // A new value (e.g. a new game) resets both clocks
+  initialState?: ClockState | null;  // Frozen clock to resume from on reset
+  onFlag: (color: Color) => void;
+}) => {
+  const [state, setState] = useState<ClockState>(() => initialState ?? initialClock(timeControl));
+  const [now, setNow] = useState(() => Date.now());
+  const prevPlyRef = useRef(plyCount);
+  const flaggedRef = useRef(false);
+
+  const ticking = !!timeControl && active && !paused;
+
+  // New game or time control: start over, or pick up a resumed game's clock
+  useEffect(() => {
+    setState(initialState
+      ? { ...initialState, since: ticking && initialState.running ? Date.now() : null }
+      : initialClock(timeControl));
+    prevPlyRef.current = plyCount;
+    flaggedRef.current = false;
+  }, [timeControl, resetKey]);
+
+  // A move (or undo/redo) hands the clock to the side to move
+  useEffect(() => {
+    const prevPly = prevPlyRef.current;
+    prevPlyRef.current = plyCount;
+    if (!timeControl || prevPly === plyCount) return;
+
+    const t = Date.now();
+    setState(prev => {
+      const remaining = { ...prev.remaining };
+      if (prev.running) {
+        const used = usedThisTurn(prev, t);
+        remaining[prev.running] = plyCount === prevPly + 1
+          ? chargeMove(prev.remaining[prev.running], used, timeControl)
+          : prev.remaining[prev.running] - used;
+      }
+      return { remaining, running: turn, bankedMs: 0, since: ticking ? t : null };
+    });
+  }, [plyCount]);
+
+  // Pausing banks the time used so far; resuming starts a new stretch
+  useEffect(() => {
+    const t = Date.now();
+    setState(prev => {
+      if (!prev.running) return prev;
+      if (!ticking && prev.since !== null) {
+        return { ...prev, bankedMs: usedThisTurn(prev, t), since: null };
+      }
+      if (ticking && prev.since === null) return { ...prev, since: t };
+      return prev;
+    });
+  }, [ticking]);
+
+  // Tick while running and watch for a flag fall
+  useEffect(() => {
+    if (!timeControl || state.since === null || !state.running) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [timeControl, state.since, state.running]);
+
+  const times: Record<Color, number> = timeControl
+    ? { w: displayedTime(state, 'w', timeControl, now), b: displayedTime(state, 'b', timeControl, now) }
+    : { w: 0, b: 0 };
+
+  useEffect(() => {
+    if (!timeControl || !state.running || !ticking || flaggedRef.current) return;
+    if (times[state.running] <= 0) {
+      flaggedRef.current = true;
+      onFlag(state.running);
+    }
+  }, [now]);
+
+  return { state, times, running: state.running };
+};
+
+// --- Display ---
+
+interface ChessClockProps {
+  times: Record<Color, number>;
+  running: Color | null;
+  isTicking: boolean;
+}
+
+const ChessClock: React.FC<ChessClockProps> = ({ times, running, isTicking }) => {
+  const face = (color: Color) => {
+    const isRunning = running === color && isTicking;
+    const isLow = times[color] < 10000;
+    return (
+      <div
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border font-mono text-lg font-bold tabular-nums transition-all ${
+          isRunning
+            ? (isLow ? 'bg-red-500/30 border-red-400/60 text-red-200 animate-pulse' : 'bg-blue-500/30 border-blue-400/50 text-white')
+            : 'bg-slate-800/60 border-white/10 text-gray-400'
+        }`}
+        title={color === 'w' ? 'White clock' : 'Black clock'}
+      >
+        <span className={`w-2.5 h-2.5 rounded-full ${color === 'w' ? 'bg-white' : 'bg-gray-800 border border-white/40'}`} />
+        {formatClock(times[color])}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2 mt-3">
+      <Timer size={16} className="text-gray-400" />
+      {face('w')}
+      {face('b')}
+    </div>
+  );
+};
+
+export default ChessClock;
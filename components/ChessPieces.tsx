@@ -1,61 +1,201 @@
-import React, { useState } from 'react';
-import { Color } from 'chess.js';
+import React, { Suspense, useEffect, useMemo, useState } from 'react';
+import { Color, PieceSymbol } from 'chess.js';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { useGLTF } from '@react-three/drei';
 import { useSpring, animated, config } from '@react-spring/three';
+import * as THREE from 'three';
+import { DEFAULT_THEME, PIECE_MATERIALS, PieceMaterialKind } from '../services/themes';
+import { PieceModel, PieceSet, Vec3 } from '../services/pieceSets';
 
-// Material colors
-const WHITE_COLOR = "#f5f5f5";
-const BLACK_COLOR = "#1a1a1a";
-const SELECTED_COLOR = "#3b82f6";
+// Colours and surface of a piece set, taken from the board theme
+export interface PieceStyle {
+  white: string;
+  black: string;
+  material: PieceMaterialKind;
+  selected: string;
+}
+
+const DEFAULT_PIECE_STYLE: PieceStyle = { ...DEFAULT_THEME.pieces, selected: DEFAULT_THEME.highlights.selected };
+
+// Height at which a dragged piece floats above the board
+const DRAG_HEIGHT = 0.6;
 
 interface PieceGeometryProps {
   color: Color;
   position: [number, number, number];
   isSelected: boolean;
   onClick?: () => void;
-  isHovered?: boolean;
+  onPointerDown?: (e: ThreeEvent<PointerEvent>) => void;
+  dragPoint?: React.MutableRefObject<THREE.Vector3 | null>;  // Set while this piece is dragged
+  enterFrom?: [number, number, number];   // Where a newly mounted piece springs in from
+  scale?: number;
+  pieceStyle?: PieceStyle;
 }
 
-// Reusable material setup
-const PieceMaterial = ({ color, isSelected, isHovered }: { color: Color, isSelected: boolean, isHovered: boolean }) => {
-  const baseColor = color === 'w' ? WHITE_COLOR : BLACK_COLOR;
+// --- Shared Geometry ---
+// Built once for the whole app: every piece on the board (and in the trays and
+// the promotion picker) draws from these instead of creating its own buffers.
 
-  const { emissive, colorAnim, metalness } = useSpring({
-    emissive: isSelected ? SELECTED_COLOR : (isHovered ? "#555555" : "#000000"),
-    colorAnim: isSelected ? SELECTED_COLOR : baseColor,
-    metalness: isSelected || isHovered ? 0.8 : 0.4,
-    config: config.gentle
+const GEOMETRIES = {
+  smallBase: new THREE.CylinderGeometry(0.3, 0.35, 0.2, 32),
+  wideBase: new THREE.CylinderGeometry(0.35, 0.4, 0.2, 32),
+  pawnBody: new THREE.ConeGeometry(0.2, 0.8, 32),
+  pawnHead: new THREE.SphereGeometry(0.2, 32, 32),
+  rookBody: new THREE.CylinderGeometry(0.3, 0.35, 1.2, 32),
+  rookTop: new THREE.CylinderGeometry(0.35, 0.35, 0.3, 6),
+  knightBody: new THREE.CylinderGeometry(0.3, 0.35, 0.8, 32),
+  knightNeck: new THREE.BoxGeometry(0.3, 0.6, 0.5),
+  knightHead: new THREE.BoxGeometry(0.28, 0.3, 0.3),
+  bishopBody: new THREE.CylinderGeometry(0.15, 0.3, 1.4, 32),
+  bishopHead: new THREE.SphereGeometry(0.15, 32, 16),
+  bishopMitre: new THREE.CylinderGeometry(0.2, 0, 0.4, 4),
+  queenBody: new THREE.CylinderGeometry(0.2, 0.35, 1.6, 32),
+  queenCrown: new THREE.CylinderGeometry(0.3, 0.1, 0.3, 16),
+  queenHead: new THREE.SphereGeometry(0.15, 32, 32),
+  kingBody: new THREE.CylinderGeometry(0.25, 0.35, 1.8, 32),
+  kingNeck: new THREE.BoxGeometry(0.2, 0.2, 0.2),
+  kingCrossUpright: new THREE.BoxGeometry(0.1, 0.4, 0.1),
+  kingCrossBar: new THREE.BoxGeometry(0.3, 0.1, 0.1),
+};
+
+interface PiecePart {
+  geometry: THREE.BufferGeometry;
+  position: Vec3;
+  rotation?: Vec3;
+}
+
+const PRIMITIVE_PARTS: Record<PieceSymbol, PiecePart[]> = {
+  p: [
+    { geometry: GEOMETRIES.smallBase, position: [0, 0.1, 0] },
+    { geometry: GEOMETRIES.pawnBody, position: [0, 0.6, 0] },
+    { geometry: GEOMETRIES.pawnHead, position: [0, 1.0, 0] },
+  ],
+  r: [
+    { geometry: GEOMETRIES.rookBody, position: [0, 0.6, 0] },
+    { geometry: GEOMETRIES.rookTop, position: [0, 1.25, 0] },
+  ],
+  n: [
+    { geometry: GEOMETRIES.knightBody, position: [0, 0.4, 0] },
+    { geometry: GEOMETRIES.knightNeck, position: [0, 1.0, 0.1], rotation: [-0.5, 0, 0] },
+    { geometry: GEOMETRIES.knightHead, position: [0, 1.3, -0.15] },
+  ],
+  b: [
+    { geometry: GEOMETRIES.smallBase, position: [0, 0.1, 0] },
+    { geometry: GEOMETRIES.bishopBody, position: [0, 0.8, 0] },
+    { geometry: GEOMETRIES.bishopHead, position: [0, 1.55, 0] },
+    { geometry: GEOMETRIES.bishopMitre, position: [0, 1.5, 0], rotation: [0, 0, 0.5] },
+  ],
+  q: [
+    { geometry: GEOMETRIES.wideBase, position: [0, 0.1, 0] },
+    { geometry: GEOMETRIES.queenBody, position: [0, 0.9, 0] },
+    { geometry: GEOMETRIES.queenCrown, position: [0, 1.8, 0] },
+    { geometry: GEOMETRIES.queenHead, position: [0, 2.0, 0] },
+  ],
+  k: [
+    { geometry: GEOMETRIES.wideBase, position: [0, 0.1, 0] },
+    { geometry: GEOMETRIES.kingBody, position: [0, 1.0, 0] },
+    { geometry: GEOMETRIES.kingNeck, position: [0, 2.0, 0] },
+    { geometry: GEOMETRIES.kingCrossUpright, position: [0, 2.2, 0] },
+    { geometry: GEOMETRIES.kingCrossBar, position: [0, 2.25, 0] },
+  ],
+};
+
+// --- Material ---
+// One material per piece, shared by all of its meshes. The spring writes
+// straight into it rather than re-rendering a material element per mesh.
+
+interface MaterialState {
+  color: string;
+  emissive: string;
+  emissiveIntensity: number;
+  metalness: number;
+}
+
+const applyMaterialState = (material: THREE.MeshPhysicalMaterial, values: MaterialState) => {
+  material.color.set(values.color);
+  material.emissive.set(values.emissive);
+  material.emissiveIntensity = values.emissiveIntensity;
+  material.metalness = values.metalness;
+};
+
+const usePieceMaterial = (color: Color, isSelected: boolean, isHovered: boolean, pieceStyle: PieceStyle) => {
+  const invalidate = useThree(state => state.invalidate);
+  const surface = PIECE_MATERIALS[pieceStyle.material];
+
+  const target: MaterialState = {
+    color: isSelected ? pieceStyle.selected : (color === 'w' ? pieceStyle.white : pieceStyle.black),
+    emissive: isSelected ? pieceStyle.selected : (isHovered ? "#555555" : "#000000"),
+    emissiveIntensity: isSelected ? 1 : (isHovered ? 0.2 : 0),
+    metalness: isSelected || isHovered ? Math.max(0.8, surface.metalness) : surface.metalness,
+  };
+
+  const material = useMemo(() => {
+    const created = new THREE.MeshPhysicalMaterial();
+    applyMaterialState(created, target);
+    return created;
+  }, []);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.roughness = surface.roughness;
+    material.clearcoat = surface.clearcoat;
+    material.transparent = surface.opacity < 1;
+    material.opacity = surface.opacity;
+    material.needsUpdate = true;
+    invalidate();
+  }, [material, surface]);
+
+  useSpring({
+    ...target,
+    config: config.gentle,
+    onChange: ({ value }) => {
+      applyMaterialState(material, value as MaterialState);
+      invalidate();
+    },
   });
 
-  return (
-    <animated.meshStandardMaterial
-      color={colorAnim}
-      roughness={0.2}
-      metalness={metalness}
-      emissive={emissive}
-      emissiveIntensity={isSelected ? 1 : (isHovered ? 0.2 : 0)}
-    />
-  );
+  return material;
 };
 
-// Wrapper for common animation logic
-const AnimatedPieceGroup: React.FC<{
-  position: [number, number, number];
-  children: React.ReactNode;
+// Wrapper for common animation logic. Frames are rendered on demand, so
+// anything that starts a spring also asks for a frame to get it going.
+const AnimatedPieceGroup: React.FC<PieceGeometryProps & {
   rotation?: [number, number, number];
-  onClick?: () => void;
-  color: Color;
-  isSelected: boolean;
-}> = ({ position, children, rotation = [0, 0, 0], onClick, color, isSelected }) => {
+  children: (material: THREE.Material) => React.ReactNode;
+}> = ({ position, children, rotation = [0, 0, 0], onClick, onPointerDown, dragPoint, enterFrom, scale: baseScale = 1, color, isSelected, pieceStyle = DEFAULT_PIECE_STYLE }) => {
   const [hovered, setHover] = useState(false);
+  const invalidate = useThree(state => state.invalidate);
+  const material = usePieceMaterial(color, isSelected, hovered, pieceStyle);
+  const lift = hovered || isSelected ? 0.3 : 0;
 
   // Smooth movement configuration
-  const { pos, rot, scale } = useSpring({
-    pos: [position[0], position[1] + (hovered || isSelected ? 0.3 : 0), position[2]],
+  const { rot, scale } = useSpring({
     rot: rotation,
-    scale: hovered || isSelected ? 1.1 : 1,
+    scale: (hovered || isSelected ? 1.1 : 1) * baseScale,
     config: config.gentle
   });
 
+  // While dragged the piece tracks the pointer directly; once released it
+  // springs from wherever it was dropped to its (possibly new) square
+  const [{ pos }, posApi] = useSpring(() => ({
+    pos: enterFrom ?? [position[0], position[1] + lift, position[2]],
+    config: config.gentle
+  }));
+
+  useEffect(() => {
+    if (!dragPoint) posApi.start({ pos: [position[0], position[1] + lift, position[2]] });
+    invalidate();
+  }, [position[0], position[1], position[2], lift, dragPoint]);
+
+  useEffect(() => {
+    invalidate();
+  }, [rotation[0], rotation[1], rotation[2], hovered, isSelected, baseScale, pieceStyle]);
+
+  useFrame(() => {
+    const point = dragPoint?.current;
+    if (point) posApi.set({ pos: [point.x, DRAG_HEIGHT, point.z] });
+  });
+
   return (
     <animated.group
       position={pos as any}
@@ -65,151 +205,106 @@ const AnimatedPieceGroup: React.FC<{
         e.stopPropagation();
         onClick?.();
       }}
-      onPointerOver={(e) => {
+      onPointerDown={onPointerDown && ((e) => {
+        e.stopPropagation();
+        onPointerDown(e);
+      })}
+      // Pieces without a click handler (e.g. in the capture trays) are decoration
+      onPointerOver={onClick && ((e) => {
         e.stopPropagation();
         setHover(true);
         document.body.style.cursor = 'pointer';
-      }}
-      onPointerOut={(e) => {
+      })}
+      onPointerOut={onClick && ((e) => {
         e.stopPropagation();
         setHover(false);
         document.body.style.cursor = 'auto';
-      }}
-    >
-      {React.Children.map(children, child => {
-        if (React.isValidElement(child)) {
-           // @ts-ignore
-           return React.cloneElement(child, { isHovered: hovered, isSelected, color });
-        }
-        return child;
       })}
+    >
+      {children(material)}
     </animated.group>
   );
 };
 
-export const Pawn: React.FC<PieceGeometryProps> = (props) => {
+const PrimitivePiece: React.FC<PieceGeometryProps & { type: PieceSymbol }> = ({ type, ...props }) => {
+  // Knights face the opponent
+  const rotation: Vec3 | undefined = type === 'n' ? (props.color === 'w' ? [0, -Math.PI / 2, 0] : [0, Math.PI / 2, 0]) : undefined;
   return (
-    <AnimatedPieceGroup {...props}>
-      <mesh position={[0, 0.1, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.3, 0.35, 0.2, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 0.6, 0]} castShadow receiveShadow>
-        <coneGeometry args={[0.2, 0.8, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.0, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[0.2, 32, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
+    <AnimatedPieceGroup {...props} rotation={rotation}>
+      {material => PRIMITIVE_PARTS[type].map((part, i) => (
+        <mesh key={i} geometry={part.geometry} material={material} position={part.position} rotation={part.rotation} castShadow receiveShadow />
+      ))}
     </AnimatedPieceGroup>
   );
 };
 
-export const Rook: React.FC<PieceGeometryProps> = (props) => {
-  return (
-    <AnimatedPieceGroup {...props}>
-      <mesh position={[0, 0.6, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.3, 0.35, 1.2, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.25, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.35, 0.35, 0.3, 6]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-    </AnimatedPieceGroup>
-  );
-};
+export const Pawn: React.FC<PieceGeometryProps> = (props) => <PrimitivePiece {...props} type="p" />;
+export const Rook: React.FC<PieceGeometryProps> = (props) => <PrimitivePiece {...props} type="r" />;
+export const Knight: React.FC<PieceGeometryProps> = (props) => <PrimitivePiece {...props} type="n" />;
+export const Bishop: React.FC<PieceGeometryProps> = (props) => <PrimitivePiece {...props} type="b" />;
+export const Queen: React.FC<PieceGeometryProps> = (props) => <PrimitivePiece {...props} type="q" />;
+export const King: React.FC<PieceGeometryProps> = (props) => <PrimitivePiece {...props} type="k" />;
 
-export const Knight: React.FC<PieceGeometryProps> = (props) => {
-  const rotation: [number, number, number] = props.color === 'w' ? [0, -Math.PI / 2, 0] : [0, Math.PI / 2, 0];
-  return (
-    <AnimatedPieceGroup {...props} rotation={rotation}>
-      <mesh position={[0, 0.4, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.3, 0.35, 0.8, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.0, 0.1]} rotation={[-0.5, 0, 0]} castShadow receiveShadow>
-        <boxGeometry args={[0.3, 0.6, 0.5]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.3, -0.15]} castShadow receiveShadow>
-        <boxGeometry args={[0.28, 0.3, 0.3]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-    </AnimatedPieceGroup>
-  );
-};
+// --- glTF Pieces ---
 
-export const Bishop: React.FC<PieceGeometryProps> = (props) => {
-  return (
-    <AnimatedPieceGroup {...props}>
-      <mesh position={[0, 0.1, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.3, 0.35, 0.2, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 0.8, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.15, 0.3, 1.4, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.55, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[0.15, 32, 16]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-       <mesh position={[0, 1.5, 0]} rotation={[0,0,0.5]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.2, 0, 0.4, 4]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-    </AnimatedPieceGroup>
-  );
+// The model's meshes with their node transforms baked in, so every piece on
+// the board shares the loaded geometry but gets its own piece material (and
+// with it the theme colours and selection/hover feedback)
+const useModelMeshes = (url: string) => {
+  const { scene } = useGLTF(url);
+  return useMemo(() => {
+    scene.updateMatrixWorld(true);
+    const meshes: { geometry: THREE.BufferGeometry, matrix: THREE.Matrix4 }[] = [];
+    scene.traverse(node => {
+      if ((node as THREE.Mesh).isMesh) meshes.push({ geometry: (node as THREE.Mesh).geometry, matrix: node.matrixWorld.clone() });
+    });
+    return meshes;
+  }, [scene]);
 };
 
-export const Queen: React.FC<PieceGeometryProps> = (props) => {
+const ModelPiece: React.FC<PieceGeometryProps & { model: PieceModel, blackRotation: Vec3 }> = ({ model, blackRotation, ...props }) => {
+  const meshes = useModelMeshes(model.url);
   return (
-    <AnimatedPieceGroup {...props}>
-      <mesh position={[0, 0.1, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.35, 0.4, 0.2, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 0.9, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.2, 0.35, 1.6, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.8, 0]} castShadow receiveShadow>
-         <cylinderGeometry args={[0.3, 0.1, 0.3, 16]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 2.0, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[0.15, 32, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
+    <AnimatedPieceGroup {...props} rotation={props.color === 'b' ? blackRotation : [0, 0, 0]}>
+      {material => (
+        <group position={model.offset} rotation={model.rotation} scale={model.scale}>
+          {meshes.map((m, i) => (
+            <mesh key={i} geometry={m.geometry} material={material} matrix={m.matrix} matrixAutoUpdate={false} castShadow receiveShadow />
+          ))}
+        </group>
+      )}
     </AnimatedPieceGroup>
   );
 };
 
-export const King: React.FC<PieceGeometryProps> = (props) => {
+// A model that fails to load leaves the primitive piece in its place
+class ModelErrorBoundary extends React.Component<{ fallback: React.ReactNode, children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error('Piece Model Error:', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+// Renders the piece set's model for the type, or the primitive piece when the
+// set has none (or none is selected). Primitives also stand in while loading.
+export const Piece: React.FC<PieceGeometryProps & { type: PieceSymbol, pieceSet?: PieceSet | null }> = ({ type, pieceSet, ...props }) => {
+  const model = pieceSet?.pieces[type];
+  if (!pieceSet || !model) return <PrimitivePiece {...props} type={type} />;
+
   return (
-    <AnimatedPieceGroup {...props}>
-       <mesh position={[0, 0.1, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.35, 0.4, 0.2, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 1.0, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.25, 0.35, 1.8, 32]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 2.0, 0]} castShadow receiveShadow>
-        <boxGeometry args={[0.2, 0.2, 0.2]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-      <mesh position={[0, 2.2, 0]} castShadow receiveShadow>
-        <boxGeometry args={[0.1, 0.4, 0.1]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-       <mesh position={[0, 2.25, 0]} castShadow receiveShadow>
-        <boxGeometry args={[0.3, 0.1, 0.1]} />
-        <PieceMaterial color={props.color} isSelected={props.isSelected} isHovered={false} />
-      </mesh>
-    </AnimatedPieceGroup>
+    <ModelErrorBoundary key={model.url} fallback={<PrimitivePiece {...props} type={type} />}>
+      <Suspense fallback={<PrimitivePiece {...props} type={type} />}>
+        <ModelPiece {...props} model={model} blackRotation={pieceSet.blackRotation} />
+      </Suspense>
+    </ModelErrorBoundary>
   );
 };
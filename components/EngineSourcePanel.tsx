@@ -0,0 +1,35 @@
+import React from 'react';
+import { Cpu, AlertTriangle } from 'lucide-react';
+import { EngineSource } from '../types';
+import { ENGINE_SOURCES } from '../services/engineSources';
+
+interface EngineSourcePanelProps {
+  source: EngineSource;
+  error: string | null;   // Last failure of the selected engine, e.g. an unreachable bridge
+  onSourceChange: (source: EngineSource) => void;
+}
+
+const EngineSourcePanel: React.FC<EngineSourcePanelProps> = ({ source, error, onSourceChange }) => (
+  <div className="mt-2 space-y-1.5 text-white">
+    <div className="flex items-center gap-2">
+      <Cpu size={14} className="text-gray-400 shrink-0" />
+      <select
+        value={source}
+        onChange={(e) => onSourceChange(e.target.value as EngineSource)}
+        className="flex-1 bg-slate-800/60 border border-white/10 rounded-xl px-2 py-1.5 text-xs font-semibold text-gray-200 focus:outline-none focus:border-blue-400/50"
+        title={ENGINE_SOURCES[source].description}
+      >
+        {Object.values(ENGINE_SOURCES).map(s => (
+          <option key={s.id} value={s.id} className="bg-slate-900">Engine: {s.label}</option>
+        ))}
+      </select>
+    </div>
+    {error && (
+      <p className="flex items-start gap-1.5 text-[11px] text-amber-300 max-w-xs">
+        <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {error}
+      </p>
+    )}
+  </div>
+);
+
+export default EngineSourcePanel;
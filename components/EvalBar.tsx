@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { EngineStoppedError } from '../services/engineClient';
+import { createEngineFor } from '../services/engineSources';
+import { EngineResult, EngineSettings } from '../services/engine';
+import { EngineSource } from '../types';
+import { formatEval, toPositionEval, winPercent } from '../services/analysis';
+import { createChess } from '../services/variants';
+
+// Deeper than the analysis report; each completed depth refreshes the bar
+const LIVE_SETTINGS: Pick<EngineSettings, 'depth' | 'timeMs' | 'noise'> = { depth: 6, timeMs: 4000, noise: 0 };
+
+export interface LiveEvaluation {
+  score: number;   // Centipawns from White's point of view (see services/analysis)
+  depth: number;
+}
+
+// --- Live Evaluation Hook ---
+// Searches the shown position in a worker and reports after every depth, so
+// the bar moves as soon as a shallow result is in. A new position stops the
+// previous search.
+export const useLiveEvaluation = ({ fen, enabled, source }: { fen: string, enabled: boolean, source: EngineSource }) => {
+  const engine = useMemo(() => createEngineFor(source), [source]);
+  const [evaluation, setEvaluation] = useState<LiveEvaluation | null>(null);
+
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setEvaluation(null);
+      return;
+    }
+    let cancelled = false;
+    const turn = createChess(fen).turn();
+    const report = (result: EngineResult) => {
+      if (!cancelled) setEvaluation({ score: toPositionEval(result, turn).score, depth: result.depth });
+    };
+
+    engine.search(fen, LIVE_SETTINGS, report)
+      .then(report)
+      .catch(e => {
+        if (!(e instanceof EngineStoppedError)) console.error('Engine Error:', e);
+      });
+
+    return () => {
+      cancelled = true;
+      engine.stop();
+    };
+  }, [fen, enabled, engine]);
+
+  return evaluation;
+};
+
+// --- Display ---
+
+interface EvalBarProps {
+  evaluation: LiveEvaluation | null;
+  view: 'white' | 'black';
+}
+
+const EvalBar: React.FC<EvalBarProps> = ({ evaluation, view }) => {
+  const white = evaluation ? winPercent(evaluation.score) : 50;
+  const label = evaluation ? formatEval(evaluation.score) : '…';
+  const whiteAhead = (evaluation?.score ?? 0) >= 0;
+
+  return (
+    <div
+      className="absolute left-6 top-1/2 -translate-y-1/2 z-10 pointer-events-auto flex flex-col items-center gap-2"
+      title={evaluation ? `Evaluation ${label} (depth ${evaluation.depth})` : 'Evaluating…'}
+    >
+      <div className={`relative w-5 h-80 rounded-full overflow-hidden border border-white/20 shadow-2xl bg-gray-900 flex ${view === 'white' ? 'flex-col-reverse' : 'flex-col'}`}>
+        <div className="w-full bg-gray-100 transition-all duration-500 ease-out" style={{ height: `${white}%` }} />
+        <div className="absolute top-1/2 left-0 w-full h-px bg-blue-400/60" />
+      </div>
+      <span className={`px-1.5 py-0.5 rounded-md text-[11px] font-mono font-bold tabular-nums ${whiteAhead ? 'bg-gray-100 text-gray-900' : 'bg-gray-900 text-gray-100 border border-white/20'}`}>
+        {label}
+      </span>
+    </div>
+  );
+};
+
+export default EvalBar;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Lightbulb, AlertTriangle } from 'lucide-react';
+import { HintProviderId } from '../types';
+import { HintProvider } from '../services/hintProviders';
+import { isGeminiConfigured } from '../services/geminiService';
+
+interface HintSettingsPanelProps {
+  providers: Record<HintProviderId, HintProvider>;
+  providerId: HintProviderId;
+  onProviderChange: (id: HintProviderId) => void;
+}
+
+const HintSettingsPanel: React.FC<HintSettingsPanelProps> = ({ providers, providerId, onProviderChange }) => {
+  const missingKey = providerId === HintProviderId.GEMINI && !isGeminiConfigured();
+
+  return (
+    <div className="mt-2 space-y-1.5 text-white">
+      <div className="flex items-center gap-2">
+        <Lightbulb size={14} className="text-gray-400 shrink-0" />
+        <select
+          value={providerId}
+          onChange={(e) => onProviderChange(e.target.value as HintProviderId)}
+          className="flex-1 bg-slate-800/60 border border-white/10 rounded-xl px-2 py-1.5 text-xs font-semibold text-gray-200 focus:outline-none focus:border-blue-400/50"
+          title={providers[providerId].description}
+        >
+          {Object.values(providers).map(p => (
+            <option key={p.id} value={p.id} className="bg-slate-900">Hints: {p.label}</option>
+          ))}
+        </select>
+      </div>
+      {missingKey && (
+        <p className="flex items-center gap-1.5 text-[11px] text-amber-300">
+          <AlertTriangle size={12} className="shrink-0" /> No Gemini API key configured
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default HintSettingsPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Color, PieceSymbol } from 'chess.js';
+import { CapturedPiece, MATERIAL_VALUES } from '../services/material';
+
+interface MaterialBalanceProps {
+  captured: CapturedPiece[];
+  balance: number;   // White minus Black, in points
+}
+
+const GLYPHS: Record<Color, Record<PieceSymbol, string>> = {
+  w: { p: '♙', n: '♘', b: '♗', r: '♖', q: '♕', k: '♔' },
+  b: { p: '♟', n: '♞', b: '♝', r: '♜', q: '♛', k: '♚' },
+};
+
+const MaterialBalance: React.FC<MaterialBalanceProps> = ({ captured, balance }) => {
+  if (captured.length === 0 && balance === 0) return null;
+
+  const row = (capturer: Color) => {
+    const pieces = captured
+      .filter(p => p.color !== capturer)
+      .sort((a, b) => MATERIAL_VALUES[a.type] - MATERIAL_VALUES[b.type]);
+    const lead = capturer === 'w' ? balance : -balance;
+    return (
+      <div className="flex items-center gap-2 min-h-[1.25rem]">
+        <span className="w-12 text-[10px] font-bold uppercase tracking-wider text-gray-400">{capturer === 'w' ? 'White' : 'Black'}</span>
+        <span className="text-base leading-none tracking-tighter text-gray-200">
+          {pieces.map(p => GLYPHS[p.color][p.type]).join('')}
+        </span>
+        {lead > 0 && <span className="text-xs font-bold text-emerald-300">+{lead}</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="mt-3 space-y-0.5"
+      aria-label={balance === 0 ? 'Material is even' : `${balance > 0 ? 'White' : 'Black'} is up ${Math.abs(balance)} in material`}
+    >
+      {row('w')}
+      {row('b')}
+    </div>
+  );
+};
+
+export default MaterialBalance;
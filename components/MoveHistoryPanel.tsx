@@ -0,0 +1,147 @@
+import React, { useEffect, useRef } from 'react';
+import { Move } from 'chess.js';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Undo2, Redo2, GitBranch } from 'lucide-react';
+
+interface MoveHistoryPanelProps {
+  history: Move[];
+  startFen: string;
+  viewPly: number;          // Number of half-moves applied to the displayed position
+  isBrowsing: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSelectPly: (ply: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onBranch: () => void;
+}
+
+interface MoveRow {
+  number: number;
+  white?: { san: string, ply: number };
+  black?: { san: string, ply: number };
+}
+
+// Groups half-moves into numbered rows, honouring the side to move and move
+// number of the starting position (e.g. "12... Nf6" when Black starts).
+const groupMoves = (history: Move[], startFen: string): MoveRow[] => {
+  const rows: MoveRow[] = [];
+  let number = parseInt(startFen.split(' ')[5]) || 1;
+  let row: MoveRow | null = null;
+
+  history.forEach((move, i) => {
+    const entry = { san: move.san, ply: i + 1 };
+    if (move.color === 'w' || !row) {
+      row = { number };
+      rows.push(row);
+    }
+    if (move.color === 'w') {
+      row.white = entry;
+    } else {
+      row.black = entry;
+      row = null;
+      number++;
+    }
+  });
+
+  return rows;
+};
+
+const navButtonClass = "p-2 rounded-lg text-gray-300 hover:text-blue-400 hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-300";
+
+const MoveHistoryPanel: React.FC<MoveHistoryPanelProps> = ({
+  history,
+  startFen,
+  viewPly,
+  isBrowsing,
+  canUndo,
+  canRedo,
+  onSelectPly,
+  onUndo,
+  onRedo,
+  onBranch,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const rows = groupMoves(history, startFen);
+  const lastPly = history.length;
+
+  // Keep the highlighted move in view
+  useEffect(() => {
+    const active = listRef.current?.querySelector('[data-active="true"]');
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [viewPly, lastPly]);
+
+  const moveCell = (entry?: { san: string, ply: number }) => {
+    if (!entry) return <span className="flex-1 px-2 py-1 text-gray-600">…</span>;
+    const active = entry.ply === viewPly;
+    return (
+      <button
+        data-active={active}
+        onClick={() => onSelectPly(entry.ply)}
+        className={`flex-1 text-left px-2 py-1 rounded-md font-mono text-sm transition-colors ${
+          active ? 'bg-blue-500/80 text-white' : 'text-gray-200 hover:bg-white/10'
+        }`}
+      >
+        {entry.san}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-64 bg-slate-900/40 backdrop-blur-2xl rounded-2xl border border-white/10 shadow-2xl overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/10">
+        <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Moves</span>
+        <div className="flex gap-1">
+          <button onClick={onUndo} disabled={!canUndo} className={navButtonClass} title="Undo (Ctrl+Z)">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className={navButtonClass} title="Redo (Ctrl+Y)">
+            <Redo2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="max-h-64 overflow-y-auto px-2 py-2 space-y-0.5">
+        {rows.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-3">No moves yet</p>
+        )}
+        {rows.map((row, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <span className="w-8 text-right text-xs text-gray-500 font-mono">{row.number}.</span>
+            {moveCell(row.white)}
+            {moveCell(row.black)}
+          </div>
+        ))}
+      </div>
+
+      {isBrowsing && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-white/10 bg-amber-500/10">
+          <span className="text-xs text-amber-300 font-semibold">Viewing move {viewPly} of {lastPly}</span>
+          <button
+            onClick={onBranch}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold text-amber-200 hover:bg-amber-500/20 transition-colors"
+            title="Continue playing from this position"
+          >
+            <GitBranch size={14} /> Play from here
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-between px-3 py-2 border-t border-white/10">
+        <button onClick={() => onSelectPly(0)} disabled={viewPly === 0} className={navButtonClass} title="First (Home)">
+          <ChevronsLeft size={18} />
+        </button>
+        <button onClick={() => onSelectPly(viewPly - 1)} disabled={viewPly === 0} className={navButtonClass} title="Previous (←)">
+          <ChevronLeft size={18} />
+        </button>
+        <button onClick={() => onSelectPly(viewPly + 1)} disabled={viewPly === lastPly} className={navButtonClass} title="Next (→)">
+          <ChevronRight size={18} />
+        </button>
+        <button onClick={() => onSelectPly(lastPly)} disabled={viewPly === lastPly} className={navButtonClass} title="Last (End)">
+          <ChevronsRight size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MoveHistoryPanel;
@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Move } from 'chess.js';
+import { TextCursorInput } from 'lucide-react';
+import { resolveSuggestedMove } from '../services/geminiService';
+import { MoveData, PromotionPiece } from '../types';
+import { createChess } from '../services/variants';
+
+interface MoveInputBarProps {
+  fen: string;
+  disabled: boolean;
+  inputRef?: React.Ref<HTMLInputElement>;
+  onMove: (move: MoveData) => boolean;   // False when the move was not played
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Legal moves whose SAN or UCI form starts with the typed text. SAN is
+// matched case-sensitively first so "b" means pawn moves and "B" bishop moves.
+const matchMoves = (legal: Move[], text: string): Move[] => {
+  const query = text.trim().replace(/^\d+\.(\.\.)?\s*/, '');
+  if (!query) return [];
+  const uci = query.toLowerCase();
+  const exact = legal.filter(m => m.san.startsWith(query) || m.lan.startsWith(uci));
+  if (exact.length) return exact;
+  return legal.filter(m => m.san.toLowerCase().startsWith(uci));
+};
+
+const toMoveData = (move: { from: Move['from'], to: Move['to'], promotion?: string }): MoveData => ({
+  from: move.from,
+  to: move.to,
+  promotion: move.promotion as PromotionPiece | undefined,
+});
+
+const MoveInputBar: React.FC<MoveInputBarProps> = ({ fen, disabled, inputRef, onMove }) => {
+  const [text, setText] = useState('');
+  const [active, setActive] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [open, setOpen] = useState(false);
+
+  const legal = useMemo(() => createChess(fen).moves({ verbose: true }) as Move[], [fen]);
+  const suggestions = useMemo(() => matchMoves(legal, text).slice(0, MAX_SUGGESTIONS), [legal, text]);
+  const showList = open && !disabled && suggestions.length > 0;
+
+  const play = (move: MoveData) => {
+    if (!onMove(move)) return;
+    setText('');
+    setError(null);
+    setActive(0);
+  };
+
+  const submit = () => {
+    if (!text.trim()) return;
+    // A complete move wins over the highlighted suggestion ("e4" must not play "e4xd5")
+    const typed = resolveSuggestedMove(fen, text);
+    if (typed) play(toMoveData(typed));
+    else if (suggestions.length === 1) play(toMoveData(suggestions[0]));
+    else setError(suggestions.length ? `"${text.trim()}" is ambiguous: pick a move from the list.` : `"${text.trim()}" is not a legal move.`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && showList) {
+      e.preventDefault();
+      setActive((active + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && showList) {
+      e.preventDefault();
+      setActive((active - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' && showList && text) {
+      e.preventDefault();
+      setText(suggestions[active].san);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      // Walking the list with the arrow keys picks that entry
+      if (showList && active > 0) play(toMoveData(suggestions[active]));
+      else submit();
+    } else if (e.key === 'Escape') {
+      setText('');
+      setError(null);
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2 px-3 py-2 bg-slate-800/50 backdrop-blur-xl rounded-xl border border-white/10 focus-within:border-blue-400/50">
+        <TextCursorInput size={16} className="text-gray-400 shrink-0" />
+        <input
+          ref={inputRef}
+          value={text}
+          disabled={disabled}
+          onChange={(e) => {
+            setText(e.target.value);
+            setActive(0);
+            setError(null);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a move (Nf3, e2e4)…  /"
+          className="flex-1 min-w-0 bg-transparent text-sm font-mono text-gray-100 placeholder:text-gray-500 placeholder:font-sans focus:outline-none disabled:opacity-50"
+          role="combobox"
+          aria-label="Enter a move in SAN or UCI notation"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls="move-suggestions"
+          aria-activedescendant={showList ? `move-suggestion-${active}` : undefined}
+          aria-invalid={!!error}
+          aria-describedby={error ? 'move-input-error' : undefined}
+          autoComplete="off"
+          spellCheck={false}
+        />
+      </div>
+
+      {showList && (
+        <ul
+          id="move-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-56 overflow-y-auto bg-slate-900/95 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl py-1"
+        >
+          {suggestions.map((m, i) => (
+            <li
+              key={m.lan}
+              id={`move-suggestion-${i}`}
+              role="option"
+              aria-selected={i === active}
+              // Keep focus in the input so the list does not close first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => play(toMoveData(m))}
+              className={`flex justify-between px-3 py-1 text-sm font-mono cursor-pointer ${i === active ? 'bg-blue-500/30 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+            >
+              <span className="font-semibold">{m.san}</span>
+              <span className="text-gray-500">{m.lan}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p id="move-input-error" className="mt-1 px-1 text-[11px] text-amber-300">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default MoveInputBar;
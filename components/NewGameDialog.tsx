@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { X, Play, Dices, AlertTriangle, CirclePlus } from 'lucide-react';
+import { Variant } from '../types';
+import {
+  CHESS960_COUNT, CHESS960_STANDARD, HORDE_FEN, START_PRESETS, VARIANTS,
+  chess960BackRank, chess960Fen, createChess, randomChess960Index,
+} from '../services/variants';
+
+interface NewGameDialogProps {
+  variant: Variant;                                  // The current game's, selected at first
+  onStart: (startFen: string | undefined, variant: Variant) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 focus:outline-none focus:border-blue-400/50";
+const buttonClass = "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all border border-white/10";
+
+const GLYPHS: Record<string, string> = { K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘' };
+
+// The FEN's problem in words, or null when it can be played from
+const fenError = (fen: string): string | null => {
+  if (!fen.trim()) return 'Enter a FEN or pick a preset.';
+  try {
+    createChess(fen.trim());
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : 'This is not a valid FEN.';
+  }
+};
+
+const NewGameDialog: React.FC<NewGameDialogProps> = ({ variant: currentVariant, onStart, onClose }) => {
+  const [variant, setVariant] = useState(currentVariant);
+  const [index, setIndex] = useState(randomChess960Index);
+  const [indexText, setIndexText] = useState(String(index));
+  const [customFen, setCustomFen] = useState(START_PRESETS[0].fen);
+
+  const backRank = useMemo(() => chess960BackRank(index), [index]);
+  const customError = useMemo(() => variant === Variant.FROM_POSITION ? fenError(customFen) : null, [variant, customFen]);
+
+  const handleIndexChange = (text: string) => {
+    setIndexText(text);
+    const n = Number(text);
+    if (text.trim() && Number.isInteger(n) && n >= 0 && n < CHESS960_COUNT) setIndex(n);
+  };
+
+  const pickIndex = (n: number) => {
+    setIndex(n);
+    setIndexText(String(n));
+  };
+
+  const handleStart = () => {
+    if (customError) return;
+    switch (variant) {
+      case Variant.CHESS960: return onStart(chess960Fen(index), variant);
+      case Variant.HORDE: return onStart(HORDE_FEN, variant);
+      case Variant.FROM_POSITION: return onStart(customFen.trim(), variant);
+      default: return onStart(undefined, variant);
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-sm font-semibold transition-all ${active ? 'bg-blue-500/80 text-white' : 'text-gray-300 hover:bg-white/10'}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xl relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
+          title="Close (ESC)"
+        >
+          <X size={22} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <CirclePlus size={22} className="text-blue-400" /> New Game
+        </h2>
+
+        <div className="flex gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10 mb-3">
+          {(Object.keys(VARIANTS) as Variant[]).map(v => (
+            <button key={v} className={tabClass(variant === v)} onClick={() => setVariant(v)}>{VARIANTS[v].label}</button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-400 mb-4">{VARIANTS[variant].description}</p>
+
+        {variant === Variant.CHESS960 && (
+          <div className="space-y-3">
+            <div className="flex items-end gap-2">
+              <label className="flex-1 text-xs text-gray-400 uppercase tracking-wider">
+                Start position (0–{CHESS960_COUNT - 1})
+                <input
+                  type="number"
+                  min={0}
+                  max={CHESS960_COUNT - 1}
+                  className={`${inputClass} mt-1`}
+                  value={indexText}
+                  onChange={(e) => handleIndexChange(e.target.value)}
+                />
+              </label>
+              <button onClick={() => pickIndex(randomChess960Index())} className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60`}>
+                <Dices size={16} /> Random
+              </button>
+              <button onClick={() => pickIndex(CHESS960_STANDARD)} className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60`} title="Position 518 is the standard setup">
+                518
+              </button>
+            </div>
+            <div className="flex justify-center gap-1" aria-label={`Back rank ${backRank}`}>
+              {[...backRank].map((piece, i) => (
+                <span key={i} className={`w-10 h-10 flex items-center justify-center text-3xl rounded-md ${i % 2 ? 'bg-slate-600/60' : 'bg-slate-700/60'} text-white`}>
+                  {GLYPHS[piece]}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 text-center">Castle by moving the king to the g or c file, or onto its rook.</p>
+          </div>
+        )}
+
+        {variant === Variant.FROM_POSITION && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {START_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => setCustomFen(preset.fen)}
+                  className={`${buttonClass} ${customFen === preset.fen ? 'bg-blue-500/80 text-white' : 'bg-slate-800/60 text-gray-200 hover:bg-slate-700/60'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <input
+              className={`${inputClass} font-mono text-xs`}
+              value={customFen}
+              onChange={(e) => setCustomFen(e.target.value)}
+              placeholder="FEN"
+              spellCheck={false}
+            />
+            {customError && (
+              <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {customError}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-5">
+          <button
+            onClick={handleStart}
+            disabled={!!customError}
+            className={`${buttonClass} bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <Play size={16} /> Start
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewGameDialog;
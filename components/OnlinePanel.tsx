@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Color } from 'chess.js';
+import { Copy, LogOut, Wifi, WifiOff, AlertTriangle } from 'lucide-react';
+import { OnlineConnection, createOnlineClient, relayUrl, storedRoom } from '../services/onlineClient';
+import { ROOM_CODE_PATTERN, RoomState } from '../services/onlineProtocol';
+import { MoveData } from '../types';
+
+interface OnlineGameHandlers {
+  onJoined: (color: Color, state: RoomState) => void;  // Also fires after every reconnect
+  onSync: (state: RoomState) => void;
+  onMove: (ply: number, san: string) => void;
+}
+
+// --- Online Game Hook ---
+// Owns the relay connection for this tab. The handlers are read through a
+// ref, so they always see the latest game state.
+export const useOnlineGame = (handlers: OnlineGameHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const colorRef = useRef<Color | null>(null);
+
+  const [connection, setConnection] = useState<OnlineConnection>('idle');
+  const [room, setRoom] = useState<string | null>(null);
+  const [color, setColor] = useState<Color | null>(null);
+  const [peerConnected, setPeerConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resumeRoom] = useState(storedRoom);
+
+  const client = useMemo(() => createOnlineClient({
+    onConnectionChange: setConnection,
+    onMessage: (message) => {
+      switch (message.type) {
+        case 'joined': {
+          const opponent = message.color === 'w' ? 'b' : 'w';
+          colorRef.current = message.color;
+          setRoom(message.state.room);
+          setColor(message.color);
+          setPeerConnected(message.state.connected[opponent]);
+          setError(null);
+          handlersRef.current.onJoined(message.color, message.state);
+          break;
+        }
+        case 'sync':
+          handlersRef.current.onSync(message.state);
+          break;
+        case 'move':
+          handlersRef.current.onMove(message.ply, message.san);
+          break;
+        case 'presence':
+          if (colorRef.current) setPeerConnected(message.connected[colorRef.current === 'w' ? 'b' : 'w']);
+          break;
+        case 'error':
+          setError(message.message);
+          break;
+      }
+    },
+  }), []);
+
+  // Pick up the game again after a reload
+  useEffect(() => {
+    if (resumeRoom) client.join(resumeRoom);
+    return () => client.leave();
+  }, [client]);
+
+  const start = (action: () => void) => {
+    setError(null);
+    action();
+  };
+
+  return {
+    connection,
+    room,
+    color,
+    peerConnected,
+    error,
+    create: (asColor: Color) => start(() => client.create(asColor)),
+    join: (code: string) => start(() => client.join(code)),
+    sendMove: (ply: number, move: MoveData) => client.sendMove(ply, move),
+    requestSync: client.requestSync,
+    leave: () => {
+      client.leave();
+      colorRef.current = null;
+      setRoom(null);
+      setColor(null);
+      setPeerConnected(false);
+      setError(null);
+    },
+  };
+};
+
+export type OnlineGame = ReturnType<typeof useOnlineGame>;
+
+// --- Display ---
+
+interface OnlinePanelProps {
+  online: OnlineGame;
+}
+
+const segmentClass = (active: boolean) =>
+  `flex-1 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+    active ? 'bg-blue-500/80 text-white shadow-lg shadow-blue-500/30' : 'text-gray-300 hover:bg-white/10'
+  }`;
+
+const buttonClass = "px-3 py-1.5 rounded-lg text-xs font-bold bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const StatusDot: React.FC<{ ok: boolean, label: string }> = ({ ok, label }) => (
+  <span className="flex items-center gap-1.5">
+    <span className={`w-2 h-2 rounded-full ${ok ? 'bg-green-400 shadow-[0_0_6px_rgba(74,222,128,0.8)]' : 'bg-amber-400 animate-pulse'}`} />
+    {label}
+  </span>
+);
+
+const OnlinePanel: React.FC<OnlinePanelProps> = ({ online }) => {
+  const [color, setColor] = useState<Color>('w');
+  const [code, setCode] = useState('');
+  const busy = online.connection === 'connecting' || (online.connection === 'reconnecting' && !online.room);
+  const validCode = ROOM_CODE_PATTERN.test(code.trim().toUpperCase());
+
+  return (
+    <div className="mt-2 space-y-2 text-white">
+      {online.room ? (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-400 uppercase tracking-wider">Room</span>
+            <span className="font-mono font-bold tracking-widest text-cyan-200">{online.room}</span>
+            <button
+              onClick={() => navigator.clipboard?.writeText(online.room!)}
+              className="text-gray-400 hover:text-white p-1 hover:bg-white/10 rounded-lg"
+              title="Copy room code"
+            >
+              <Copy size={14} />
+            </button>
+            <button
+              onClick={online.leave}
+              className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold text-gray-300 hover:text-white hover:bg-white/10"
+              title="Leave this game"
+            >
+              <LogOut size={14} /> Leave
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-gray-300">
+            <span>You play <span className="font-semibold text-white">{online.color === 'w' ? 'White' : 'Black'}</span></span>
+            <StatusDot ok={online.connection === 'open'} label={online.connection === 'open' ? 'Connected' : 'Reconnecting…'} />
+            <StatusDot ok={online.peerConnected} label={online.peerConnected ? 'Opponent online' : 'Waiting for opponent'} />
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <div className="flex flex-1 gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10">
+              <button className={segmentClass(color === 'w')} onClick={() => setColor('w')}>White</button>
+              <button className={segmentClass(color === 'b')} onClick={() => setColor('b')}>Black</button>
+            </div>
+            <button onClick={() => online.create(color)} disabled={busy} className={buttonClass}>
+              Create
+            </button>
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (validCode) online.join(code);
+            }}
+          >
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={6}
+              className="flex-1 min-w-0 bg-slate-800/60 border border-white/10 rounded-xl px-3 py-1.5 text-xs font-mono tracking-widest text-gray-100 placeholder:tracking-normal placeholder:font-sans focus:outline-none focus:border-blue-400/50"
+            />
+            <button type="submit" disabled={busy || !validCode} className={buttonClass}>
+              Join
+            </button>
+          </form>
+          {busy && (
+            <p className="flex items-center gap-1.5 text-[11px] text-gray-400">
+              {online.connection === 'connecting' ? <Wifi size={12} className="animate-pulse" /> : <WifiOff size={12} />}
+              {online.connection === 'connecting' ? 'Connecting…' : `Cannot reach ${relayUrl()}, retrying…`}
+              <button onClick={online.leave} className="ml-auto underline hover:text-white">Cancel</button>
+            </p>
+          )}
+        </>
+      )}
+      {online.error && (
+        <p className="flex items-center gap-1.5 text-[11px] text-amber-300">
+          <AlertTriangle size={12} className="shrink-0" /> {online.error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OnlinePanel;
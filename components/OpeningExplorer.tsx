@@ -0,0 +1,77 @@
+import React from 'react';
+import { Move } from 'chess.js';
+import { BookOpen, AlertTriangle } from 'lucide-react';
+import { BookMove, OpeningState } from '../services/openings';
+import { MoveData } from '../types';
+
+// "4." for White, "4..." for Black, from the move number of the position it was played in
+const moveLabel = (move: Move) => {
+  const number = parseInt(move.before.split(' ')[5]) || 1;
+  return `${number}${move.color === 'w' ? '.' : '...'} ${move.san}`;
+};
+
+// --- HUD Label ---
+
+interface OpeningLabelProps {
+  state: OpeningState;
+  moves: Move[];   // The displayed moves, to name the one that left the book
+}
+
+export const OpeningLabel: React.FC<OpeningLabelProps> = ({ state, moves }) => {
+  const { opening, inBook, leftBookAt } = state;
+  if (!opening) return null;
+  const justLeft = leftBookAt !== null && leftBookAt === moves.length - 1;
+
+  return (
+    <div className="mt-2 max-w-xs space-y-1">
+      <div className="flex items-center gap-2 text-xs text-gray-300" title={opening.moves}>
+        <BookOpen size={14} className="text-blue-300 shrink-0" />
+        <span className="font-mono font-bold text-blue-200">{opening.eco}</span>
+        <span className="truncate">{opening.name}</span>
+        {!inBook && <span className="shrink-0 text-[10px] uppercase tracking-wider text-gray-500">out of book</span>}
+      </div>
+      {justLeft && (
+        <p className="flex items-center gap-1.5 text-[11px] text-amber-300" role="status">
+          <AlertTriangle size={12} className="shrink-0" />
+          <span><span className="font-mono font-bold">{moveLabel(moves[leftBookAt])}</span> leaves the book</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+// --- Explorer ---
+
+interface OpeningExplorerProps {
+  bookMoves: BookMove[];
+  canPlay: boolean;
+  onPlay: (move: MoveData) => void;
+}
+
+const OpeningExplorer: React.FC<OpeningExplorerProps> = ({ bookMoves, canPlay, onPlay }) => (
+  <div className="w-64 bg-slate-900/40 backdrop-blur-2xl rounded-2xl border border-white/10 shadow-2xl overflow-hidden">
+    <div className="flex items-center px-3 py-2 border-b border-white/10">
+      <span className="text-xs font-semibold text-gray-300 uppercase tracking-wider">Opening Book</span>
+    </div>
+
+    <div className="max-h-48 overflow-y-auto px-2 py-2 space-y-0.5">
+      {bookMoves.length === 0 && (
+        <p className="text-xs text-gray-500 text-center py-3">No book moves from here</p>
+      )}
+      {bookMoves.map(move => (
+        <button
+          key={move.uci}
+          onClick={() => onPlay({ from: move.from, to: move.to, promotion: move.promotion })}
+          disabled={!canPlay}
+          className="w-full flex items-center gap-2 px-2 py-1 rounded-md text-left transition-colors text-gray-200 hover:bg-white/10 disabled:opacity-50 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+          title={`${move.opening.eco} ${move.opening.name}`}
+        >
+          <span className="w-12 shrink-0 font-mono text-sm font-semibold">{move.san}</span>
+          <span className="truncate text-[11px] text-gray-400">{move.opening.name}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default OpeningExplorer;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Color } from 'chess.js';
+import { Cpu, Users, Sparkles, Globe, Puzzle } from 'lucide-react';
+import { GameMode, EngineLevel } from '../types';
+import { ENGINE_LEVELS } from '../services/engine';
+
+interface OpponentPanelProps {
+  gameMode: GameMode;
+  engineColor: Color;
+  engineLevel: EngineLevel;
+  onGameModeChange: (mode: GameMode) => void;
+  onEngineColorChange: (color: Color) => void;
+  onEngineLevelChange: (level: EngineLevel) => void;
+}
+
+const segmentClass = (active: boolean) =>
+  `flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+    active ? 'bg-blue-500/80 text-white shadow-lg shadow-blue-500/30' : 'text-gray-300 hover:bg-white/10'
+  }`;
+
+const OpponentPanel: React.FC<OpponentPanelProps> = ({
+  gameMode,
+  engineColor,
+  engineLevel,
+  onGameModeChange,
+  onEngineColorChange,
+  onEngineLevelChange,
+}) => {
+  return (
+    <div className="mt-4 space-y-2 text-white">
+      <div className="flex gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10">
+        <button className={segmentClass(gameMode === GameMode.HOT_SEAT)} onClick={() => onGameModeChange(GameMode.HOT_SEAT)}>
+          <Users size={14} /> Hot Seat
+        </button>
+        <button className={segmentClass(gameMode === GameMode.VS_COMPUTER)} onClick={() => onGameModeChange(GameMode.VS_COMPUTER)}>
+          <Cpu size={14} /> vs Computer
+        </button>
+        <button className={segmentClass(gameMode === GameMode.VS_GEMINI)} onClick={() => onGameModeChange(GameMode.VS_GEMINI)}>
+          <Sparkles size={14} /> vs Gemini
+        </button>
+        <button className={segmentClass(gameMode === GameMode.ONLINE)} onClick={() => onGameModeChange(GameMode.ONLINE)}>
+          <Globe size={14} /> Online
+        </button>
+        <button className={segmentClass(gameMode === GameMode.PUZZLE)} onClick={() => onGameModeChange(GameMode.PUZZLE)}>
+          <Puzzle size={14} /> Puzzles
+        </button>
+      </div>
+
+      {/* Online games take their colours from the room (see OnlinePanel), puzzles from the position */}
+      {gameMode !== GameMode.HOT_SEAT && gameMode !== GameMode.ONLINE && gameMode !== GameMode.PUZZLE && (
+        <div className="flex gap-2">
+          <div className="flex flex-1 gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10">
+            {/* The player picks their own colour; the opponent takes the other side */}
+            <button className={segmentClass(engineColor === 'b')} onClick={() => onEngineColorChange('b')}>
+              White
+            </button>
+            <button className={segmentClass(engineColor === 'w')} onClick={() => onEngineColorChange('w')}>
+              Black
+            </button>
+          </div>
+          {gameMode === GameMode.VS_COMPUTER && <select
+            value={engineLevel}
+            onChange={(e) => onEngineLevelChange(e.target.value as EngineLevel)}
+            className="bg-slate-800/60 border border-white/10 rounded-xl px-2 text-xs font-semibold text-gray-200 focus:outline-none focus:border-blue-400/50"
+            title="Engine Difficulty"
+          >
+            {Object.values(EngineLevel).map(level => (
+              <option key={level} value={level} className="bg-slate-900">
+                {ENGINE_LEVELS[level].label}
+              </option>
+            ))}
+          </select>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpponentPanel;
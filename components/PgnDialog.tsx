@@ -0,0 +1,143 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Chess } from 'chess.js';
+import { X, Download, Upload, Copy, Check, AlertTriangle, FileText } from 'lucide-react';
+import { GameStatus } from '../types';
+import { downloadPgn, exportPgn, importPgn, PgnImportError, PgnPlayers } from '../services/pgn';
+
+interface PgnDialogProps {
+  game: Chess;
+  fen: string;
+  gameStatus: GameStatus;
+  defaultPlayers: PgnPlayers;
+  onImport: (game: Chess) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 focus:outline-none focus:border-blue-400/50";
+const buttonClass = "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all border border-white/10";
+
+const PgnDialog: React.FC<PgnDialogProps> = ({ game, fen, gameStatus, defaultPlayers, onImport, onClose }) => {
+  const [tab, setTab] = useState<'export' | 'import'>('export');
+  const [players, setPlayers] = useState<PgnPlayers>(() => {
+    const headers = game.getHeaders();
+    const named = (value?: string) => value && value !== '?' ? value : undefined;
+    return {
+      white: named(headers.White) ?? defaultPlayers.white,
+      black: named(headers.Black) ?? defaultPlayers.black,
+    };
+  });
+  const [copied, setCopied] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { pgn, headers } = useMemo(() => exportPgn(game, gameStatus, players), [game, fen, gameStatus, players]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(pgn);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error('Clipboard Error:', e);
+    }
+  };
+
+  const handleDownload = () => downloadPgn(pgn, headers);
+
+  const handleImport = (text: string) => {
+    try {
+      onImport(importPgn(text));
+    } catch (e) {
+      setImportError(e instanceof PgnImportError ? e.message : 'Could not import this PGN.');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setImportText(text);
+    setImportError(null);
+    handleImport(text);
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-sm font-semibold transition-all ${active ? 'bg-blue-500/80 text-white' : 'text-gray-300 hover:bg-white/10'}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xl relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
+          title="Close (ESC)"
+        >
+          <X size={22} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <FileText size={22} className="text-blue-400" /> PGN
+        </h2>
+
+        <div className="flex gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10 mb-4">
+          <button className={tabClass(tab === 'export')} onClick={() => setTab('export')}>Export</button>
+          <button className={tabClass(tab === 'import')} onClick={() => setTab('import')}>Import</button>
+        </div>
+
+        {tab === 'export' ? (
+          <div className="space-y-3">
+            <div className="flex gap-3">
+              <label className="flex-1 text-xs text-gray-400 uppercase tracking-wider">
+                White
+                <input className={`${inputClass} mt-1`} value={players.white} onChange={(e) => setPlayers(p => ({ ...p, white: e.target.value }))} />
+              </label>
+              <label className="flex-1 text-xs text-gray-400 uppercase tracking-wider">
+                Black
+                <input className={`${inputClass} mt-1`} value={players.black} onChange={(e) => setPlayers(p => ({ ...p, black: e.target.value }))} />
+              </label>
+            </div>
+            <textarea readOnly value={pgn} className={`${inputClass} h-48 font-mono text-xs resize-none`} />
+            <div className="flex justify-end gap-2">
+              <button onClick={handleCopy} className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60`}>
+                {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />} {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button onClick={handleDownload} className={`${buttonClass} bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500`}>
+                <Download size={16} /> Download .pgn
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <textarea
+              value={importText}
+              onChange={(e) => { setImportText(e.target.value); setImportError(null); }}
+              placeholder={'[Event "Casual Game"]\n[White "..."]\n\n1. e4 e5 2. Nf3 Nc6 *'}
+              className={`${inputClass} h-48 font-mono text-xs resize-none`}
+            />
+            {importError && (
+              <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {importError}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <input ref={fileInputRef} type="file" accept=".pgn,text/plain" className="hidden" onChange={handleFile} />
+              <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60`}>
+                <Upload size={16} /> Choose File
+              </button>
+              <button onClick={() => handleImport(importText)} className={`${buttonClass} bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500`}>
+                <Upload size={16} /> Import
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PgnDialog;
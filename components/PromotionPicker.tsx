@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { View } from '@react-three/drei';
+import { Color } from 'chess.js';
+import * as THREE from 'three';
+import * as Pieces from './ChessPieces';
+import CanvasErrorBoundary from './CanvasErrorBoundary';
+import { PromotionPiece } from '../types';
+
+const OPTIONS: { piece: PromotionPiece, label: string, key: string, glyph: string, Component: typeof Pieces.Queen }[] = [
+  { piece: 'q', label: 'Queen', key: 'Q', glyph: '♛', Component: Pieces.Queen },
+  { piece: 'r', label: 'Rook', key: 'R', glyph: '♜', Component: Pieces.Rook },
+  { piece: 'b', label: 'Bishop', key: 'B', glyph: '♝', Component: Pieces.Bishop },
+  { piece: 'n', label: 'Knight', key: 'N', glyph: '♞', Component: Pieces.Knight },
+];
+
+// Slowly turns the preview piece so its silhouette reads clearly
+const Turntable: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const ref = useRef<THREE.Group>(null);
+  useFrame((_, delta) => {
+    if (ref.current) ref.current.rotation.y += delta * 0.8;
+  });
+  return <group ref={ref}>{children}</group>;
+};
+
+// The previews share one canvas and draw into their own corners of it with
+// scissoring, so it is cleared once per frame before they render
+const ClearEachFrame: React.FC = () => {
+  useFrame(({ gl }) => gl.clear());
+  return null;
+};
+
+// Flat stand-in for the 3D preview, drawn like the pieces on the 2D board
+const GlyphPreview: React.FC<{ glyph: string, color: Color }> = ({ glyph, color }) => (
+  <svg viewBox="0 0 1 1" className="w-20 h-20">
+    <text
+      x={0.5}
+      y={0.54}
+      fontSize={0.82}
+      textAnchor="middle"
+      dominantBaseline="central"
+      fill={color === 'w' ? '#f8fafc' : '#1e293b'}
+      stroke={color === 'w' ? '#1e293b' : '#f8fafc'}
+      strokeWidth={0.035}
+      paintOrder="stroke"
+    >
+      {glyph}
+    </text>
+  </svg>
+);
+
+interface PromotionPickerProps {
+  color: Color;
+  previews3d: boolean;                    // Flat glyphs otherwise, e.g. with the 2D board
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+  onRenderError?: (error: Error) => void;   // WebGL could not start
+}
+
+const PromotionPicker: React.FC<PromotionPickerProps> = ({ color, previews3d, onSelect, onCancel, onRenderError }) => {
+  const [webglFailed, setWebglFailed] = useState(false);
+  const show3d = previews3d && !webglFailed;
+
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      const option = OPTIONS.find(o => o.piece === key);
+      if (option) {
+        e.preventDefault();
+        onSelect(option.piece);
+      } else if (key === 'escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  }, [onSelect, onCancel]);
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl shadow-2xl relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white text-center mb-1">Promote Pawn</h2>
+        <p className="text-xs text-gray-400 text-center uppercase tracking-wider mb-5">Q • R • B • N — Esc to cancel</p>
+        <div className="flex gap-4">
+          {OPTIONS.map(({ piece, label, key, glyph, Component }) => (
+            <button
+              key={piece}
+              onClick={() => onSelect(piece)}
+              className="w-28 flex flex-col items-center bg-slate-800/60 rounded-2xl border border-white/10 hover:border-blue-400/60 hover:bg-slate-700/60 transition-all group"
+              title={`${label} (${key})`}
+            >
+              {show3d ? (
+                <View className="w-28 h-32 pointer-events-none">
+                  <ambientLight intensity={0.6} />
+                  <directionalLight position={[3, 5, 4]} intensity={1.5} />
+                  <pointLight position={[-3, 2, -2]} intensity={0.6} color="#3b82f6" />
+                  <Turntable>
+                    <Component color={color} position={[0, -0.2, 0]} isSelected={false} />
+                  </Turntable>
+                </View>
+              ) : (
+                <div className="w-28 h-32 flex items-center justify-center pointer-events-none select-none">
+                  <GlyphPreview glyph={glyph} color={color} />
+                </div>
+              )}
+              <span className="pb-3 text-sm font-semibold text-gray-200 group-hover:text-blue-300">
+                {label} <span className="text-gray-500 text-xs">({key})</span>
+              </span>
+            </button>
+          ))}
+        </div>
+        {show3d && (
+          <CanvasErrorBoundary onError={(error) => { setWebglFailed(true); onRenderError?.(error); }}>
+            <Canvas
+              camera={{ position: [0, 0.9, 3.8], fov: 40 }}
+              gl={{ antialias: true, alpha: true }}
+              style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}
+            >
+              <ClearEachFrame />
+              <View.Port />
+            </Canvas>
+          </CanvasErrorBoundary>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromotionPicker;
@@ -0,0 +1,261 @@
+import React, { useRef, useState } from 'react';
+import { Move } from 'chess.js';
+import { Upload, RotateCcw, SkipForward, Flame, Lightbulb, Check, X, AlertTriangle } from 'lucide-react';
+import {
+  Puzzle, PuzzleImportError, PuzzleStats, StoredPuzzleSet, checkPuzzleMove, loadPuzzleSet, loadPuzzleStats,
+  parsePuzzles, recordPuzzleResult, savePuzzleSet, savePuzzleStats, themeNudge, uciToMoveData, EMPTY_PUZZLE_STATS,
+} from '../services/puzzles';
+import { getPuzzleNudge, isGeminiConfigured } from '../services/geminiService';
+import { MoveData } from '../types';
+
+interface PuzzleTrainerHandlers {
+  onStart: (puzzle: Puzzle) => void;   // Set the board up for the puzzle
+}
+
+export type PuzzleFeedback = 'solving' | 'correct' | 'wrong' | 'solved';
+
+// --- Puzzle Trainer Hook ---
+// Keeps the loaded puzzles, the progress through them and the statistics.
+// The board itself stays with the app: it reports the player's moves through
+// handleMove and asks for the opponent's replies with replyAt. Plies are
+// indexes into the puzzle's moves, i.e. the length of the game's history.
+export const usePuzzleTrainer = (handlers: PuzzleTrainerHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const [set, setSet] = useState<StoredPuzzleSet | null>(loadPuzzleSet);
+  const [stats, setStats] = useState<PuzzleStats>(loadPuzzleStats);
+  const [feedback, setFeedback] = useState<PuzzleFeedback>('solving');
+  const [mistake, setMistake] = useState<Move | null>(null);   // Shown until it is taken back
+  const [recorded, setRecorded] = useState(false);             // The current puzzle already counted
+  const [nudge, setNudge] = useState<string | null>(null);
+  const [isNudging, setIsNudging] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState(0);
+  const nudgeRequestRef = useRef(0);
+
+  const puzzle = set ? set.puzzles[set.index] ?? null : null;
+
+  const record = (solved: boolean) => {
+    if (!puzzle || recorded) return;
+    const next = recordPuzzleResult(stats, puzzle, solved);
+    setStats(next);
+    savePuzzleStats(next);
+    setRecorded(true);
+  };
+
+  const start = (target: StoredPuzzleSet, index: number) => {
+    const next = { ...target, index };
+    setSet(next);
+    savePuzzleSet(next);
+    setFeedback('solving');
+    setMistake(null);
+    setRecorded(false);
+    setNudge(null);
+    setIsNudging(false);
+    nudgeRequestRef.current++;
+    handlersRef.current.onStart(next.puzzles[index]);
+  };
+
+  return {
+    puzzle,
+    index: set?.index ?? 0,
+    count: set?.puzzles.length ?? 0,
+    setName: set?.name ?? null,
+    stats,
+    feedback,
+    mistake,
+    nudge,
+    isNudging,
+    importError,
+    skipped,
+
+    load: async (file: File) => {
+      try {
+        const { puzzles, skipped } = parsePuzzles(await file.text(), file.name);
+        setImportError(null);
+        setSkipped(skipped);
+        start({ name: file.name, puzzles, index: 0 }, 0);
+      } catch (e) {
+        setImportError(e instanceof PuzzleImportError ? e.message : 'Could not read this puzzle file.');
+      }
+    },
+
+    restart: () => { if (set) start(set, set.index); },
+    next: () => {
+      if (!set) return;
+      // Moving on from an unsolved puzzle counts as a miss
+      if (feedback !== 'solved') record(false);
+      start(set, (set.index + 1) % set.puzzles.length);
+    },
+
+    // The opponent's move at this ply, or null when it is not theirs to play
+    replyAt: (ply: number): MoveData | null => {
+      if (!puzzle || feedback === 'solved' || mistake || ply >= puzzle.moves.length) return null;
+      return uciToMoveData(puzzle.moves[ply]);
+    },
+
+    handleMove: (ply: number, move: Move) => {
+      if (!puzzle || feedback === 'solved' || ply >= puzzle.moves.length) return;
+      const verdict = checkPuzzleMove(puzzle, ply, move);
+      setNudge(null);
+      if (verdict === 'wrong') {
+        record(false);
+        setMistake(move);
+        setFeedback('wrong');
+      } else {
+        if (verdict === 'solved') record(true);
+        setFeedback(verdict);
+      }
+    },
+
+    clearMistake: () => {
+      setMistake(null);
+      setFeedback('solving');
+    },
+
+    // Gemini when configured, otherwise (or when it fails or gives the move
+    // away) a nudge from the puzzle's themes
+    requestNudge: async (fen: string, ply: number) => {
+      if (!puzzle || ply >= puzzle.moves.length || isNudging) return;
+      const requestId = ++nudgeRequestRef.current;
+      setIsNudging(true);
+      let text: string;
+      try {
+        text = isGeminiConfigured() ? await getPuzzleNudge(fen, puzzle.moves[ply], puzzle.themes) : themeNudge(puzzle);
+      } catch (e) {
+        console.error('Nudge Error:', e);
+        text = themeNudge(puzzle);
+      }
+      if (requestId !== nudgeRequestRef.current) return;
+      setNudge(text);
+      setIsNudging(false);
+    },
+
+    resetStats: () => {
+      setStats(EMPTY_PUZZLE_STATS);
+      savePuzzleStats(EMPTY_PUZZLE_STATS);
+    },
+  };
+};
+
+export type PuzzleTrainer = ReturnType<typeof usePuzzleTrainer>;
+
+// --- Display ---
+
+interface PuzzlePanelProps {
+  trainer: PuzzleTrainer;
+}
+
+const buttonClass = "flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-semibold bg-slate-800/60 border border-white/10 text-gray-200 hover:bg-slate-700/60 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const FEEDBACK: Record<PuzzleFeedback, { text: string, className: string }> = {
+  solving: { text: 'Find the best move', className: 'text-gray-200' },
+  correct: { text: 'Correct, keep going', className: 'text-emerald-300' },
+  wrong: { text: 'Not the move, try again', className: 'text-red-300' },
+  solved: { text: 'Solved!', className: 'text-emerald-300' },
+};
+
+const MAX_THEME_ROWS = 5;
+
+const PuzzlePanel: React.FC<PuzzlePanelProps> = ({ trainer }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { puzzle, stats, feedback } = trainer;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) trainer.load(file);
+  };
+
+  // Most practised themes first
+  const themeRows = Object.entries(stats.themes)
+    .sort(([, a], [, b]) => (b.solved + b.failed) - (a.solved + a.failed))
+    .slice(0, MAX_THEME_ROWS);
+  const attempts = stats.solved + stats.failed;
+
+  return (
+    <div className="mt-2 space-y-2 text-white max-w-xs">
+      <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+
+      {puzzle ? (
+        <>
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <span className="font-semibold text-gray-200">Puzzle {trainer.index + 1} / {trainer.count}</span>
+            {puzzle.rating !== undefined && <span>· {puzzle.rating}</span>}
+            <span className="ml-auto flex items-center gap-1 text-amber-300 font-bold" title={`Best streak: ${stats.bestStreak}`}>
+              <Flame size={14} /> {stats.streak}
+            </span>
+          </div>
+          {puzzle.themes.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {puzzle.themes.map(theme => (
+                <span key={theme} className="px-1.5 py-0.5 rounded-md bg-slate-800/60 border border-white/10 text-[10px] text-gray-300">{theme}</span>
+              ))}
+            </div>
+          )}
+          <div className={`flex items-center gap-1.5 text-sm font-semibold ${FEEDBACK[feedback].className}`} role="status">
+            {feedback === 'wrong' ? <X size={16} /> : feedback !== 'solving' ? <Check size={16} /> : null}
+            {feedback === 'solving' ? `${FEEDBACK.solving.text} for ${puzzle.playerColor === 'w' ? 'White' : 'Black'}` : FEEDBACK[feedback].text}
+          </div>
+          {(trainer.nudge || trainer.isNudging) && (
+            <div className="flex items-start gap-2 px-3 py-2 rounded-xl bg-cyan-500/10 border border-cyan-400/20 text-xs text-gray-200">
+              <Lightbulb size={14} className="text-cyan-300 shrink-0 mt-0.5" />
+              <span className={trainer.isNudging ? 'animate-pulse' : ''}>{trainer.isNudging ? 'Thinking of a nudge…' : trainer.nudge}</span>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button onClick={trainer.restart} className={buttonClass} title="Start this puzzle again">
+              <RotateCcw size={14} /> Retry
+            </button>
+            <button onClick={trainer.next} className={buttonClass} title={feedback === 'solved' ? 'Next puzzle' : 'Skip (counts as a miss)'}>
+              <SkipForward size={14} /> {feedback === 'solved' ? 'Next' : 'Skip'}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} ml-auto`} title={`Loaded from ${trainer.setName}`}>
+              <Upload size={14} /> Load
+            </button>
+          </div>
+        </>
+      ) : (
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload size={14} /> Load puzzles (.json, .csv)
+        </button>
+      )}
+
+      {trainer.importError && (
+        <p className="flex items-center gap-1.5 text-[11px] text-amber-300">
+          <AlertTriangle size={12} className="shrink-0" /> {trainer.importError}
+        </p>
+      )}
+      {trainer.skipped > 0 && !trainer.importError && (
+        <p className="text-[11px] text-gray-400">{trainer.skipped} entries were skipped.</p>
+      )}
+
+      {attempts > 0 && (
+        <div className="pt-1 space-y-1">
+          <div className="flex items-center gap-3 text-[11px] text-gray-400">
+            <span>Solved <span className="font-semibold text-emerald-300">{stats.solved}</span></span>
+            <span>Missed <span className="font-semibold text-red-300">{stats.failed}</span></span>
+            <span>Best streak <span className="font-semibold text-amber-300">{stats.bestStreak}</span></span>
+            <button onClick={trainer.resetStats} className="ml-auto underline hover:text-white">Reset</button>
+          </div>
+          {themeRows.map(([theme, record]) => {
+            const total = record.solved + record.failed;
+            const rate = Math.round((record.solved / total) * 100);
+            return (
+              <div key={theme} className="flex items-center gap-2 text-[11px]" title={`${record.solved} of ${total} solved`}>
+                <span className="w-24 truncate text-gray-300">{theme}</span>
+                <span className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                  <span className="block h-full bg-emerald-400/80" style={{ width: `${rate}%` }} />
+                </span>
+                <span className="w-9 text-right text-gray-400">{rate}%</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PuzzlePanel;
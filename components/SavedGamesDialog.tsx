@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Color } from 'chess.js';
+import { X, Library, Play, Pencil, Trash2, Download, AlertTriangle } from 'lucide-react';
+import { GameStatus } from '../types';
+import { SavedGame, listGames, renameGame, deleteGame, restoreChess } from '../services/gameStorage';
+import { downloadPgn, exportPgn, resultFromStatus } from '../services/pgn';
+
+interface SavedGamesDialogProps {
+  currentGameId: string;
+  onOpen: (game: SavedGame) => void;
+  onClose: () => void;
+}
+
+const iconButtonClass = "p-2 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition-all disabled:opacity-30 disabled:cursor-not-allowed";
+
+// Side to move in the saved position, without replaying the moves
+const finalTurn = (game: SavedGame): Color => {
+  const start = game.startFen.split(' ')[1] as Color;
+  return game.moves.length % 2 === 0 ? start : (start === 'w' ? 'b' : 'w');
+};
+
+const describeResult = (game: SavedGame) =>
+  game.status === GameStatus.PLAYING ? 'In progress' : resultFromStatus(game.status, finalTurn(game));
+
+const SavedGamesDialog: React.FC<SavedGamesDialogProps> = ({ currentGameId, onOpen, onClose }) => {
+  const [games, setGames] = useState<SavedGame[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string, name: string } | null>(null);
+
+  const refresh = async () => {
+    try {
+      setGames(await listGames());
+    } catch (e) {
+      console.error('Storage Error:', e);
+      setError('Saved games could not be loaded. Storage may be disabled in this browser.');
+      setGames([]);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      console.error('Storage Error:', e);
+      setError('The change could not be saved.');
+    }
+    await refresh();
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (name) run(() => renameGame(renaming.id, name));
+  };
+
+  const handleExport = (saved: SavedGame) => {
+    try {
+      const chess = restoreChess(saved);
+      const headers = chess.getHeaders();
+      const { pgn, headers: written } = exportPgn(chess, saved.status, saved.players ?? {
+        white: headers.White && headers.White !== '?' ? headers.White : 'Player',
+        black: headers.Black && headers.Black !== '?' ? headers.Black : 'Player',
+      });
+      downloadPgn(pgn, written);
+    } catch (e) {
+      console.error('Export Error:', e);
+      setError(`"${saved.name}" could not be exported.`);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xl relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
+          title="Close (ESC)"
+        >
+          <X size={22} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <Library size={22} className="text-blue-400" /> Saved Games
+        </h2>
+
+        {error && (
+          <div className="flex items-start gap-2 px-3 py-2 mb-3 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+          </div>
+        )}
+
+        <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+          {games === null && <p className="text-sm text-gray-400 animate-pulse">Loading…</p>}
+          {games?.length === 0 && !error && (
+            <p className="text-sm text-gray-400">No saved games yet. Games are saved automatically as you play.</p>
+          )}
+          {games?.map(saved => {
+            const isCurrent = saved.id === currentGameId;
+            return (
+              <div
+                key={saved.id}
+                className={`flex items-center gap-3 px-3 py-2.5 rounded-xl border ${isCurrent ? 'bg-blue-500/15 border-blue-400/40' : 'bg-slate-800/40 border-white/10'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  {renaming?.id === saved.id ? (
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: saved.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        else if (e.key === 'Escape') { e.stopPropagation(); setRenaming(null); }
+                      }}
+                      onBlur={commitRename}
+                      className="w-full bg-slate-800/60 border border-white/10 rounded-lg px-2 py-1 text-sm text-gray-100 focus:outline-none focus:border-blue-400/50"
+                    />
+                  ) : (
+                    <div className="text-sm font-semibold text-white truncate">
+                      {saved.name}
+                      {isCurrent && <span className="ml-2 text-[10px] uppercase tracking-wider text-blue-300">Current</span>}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-400 mt-0.5">
+                    {new Date(saved.updatedAt).toLocaleString()} • {Math.ceil(saved.moves.length / 2)} moves • {describeResult(saved)}
+                  </div>
+                </div>
+                <button onClick={() => onOpen(saved)} disabled={isCurrent} className={iconButtonClass} title="Open">
+                  <Play size={16} />
+                </button>
+                <button onClick={() => setRenaming({ id: saved.id, name: saved.name })} className={iconButtonClass} title="Rename">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => handleExport(saved)} className={iconButtonClass} title="Export PGN">
+                  <Download size={16} />
+                </button>
+                <button
+                  onClick={() => run(() => deleteGame(saved.id))}
+                  disabled={isCurrent}
+                  className={`${iconButtonClass} hover:text-red-300`}
+                  title={isCurrent ? 'The game in progress cannot be deleted' : 'Delete'}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavedGamesDialog;
@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, Copy, Check, AlertTriangle, Palette, Trash2, Box, Gauge } from 'lucide-react';
+import { BoardTheme, downloadTheme, exportTheme, importTheme, ThemeImportError } from '../services/themes';
+import { QUALITY_LEVELS, QUALITY_SETTINGS, QualityLevel } from '../services/renderQuality';
+import { RenderQuality } from '../types';
+
+interface ThemeDialogProps {
+  themes: BoardTheme[];          // Built-in themes first, then the user's
+  customIds: string[];           // Themes that can be deleted
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onImport: (theme: BoardTheme) => void;
+  onDelete: (id: string) => void;
+  pieceSets: { id: string, name: string }[];   // The primitive set first
+  pieceSetId: string;
+  pieceSetError: string | null;
+  onPieceSetSelect: (id: string) => void;
+  onLocalPieceSet: (files: File[]) => void;   // A manifest plus its models
+  renderQuality: RenderQuality;
+  autoQuality: QualityLevel | null;           // What Auto currently renders at
+  onRenderQualitySelect: (quality: RenderQuality) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 focus:outline-none focus:border-blue-400/50";
+const buttonClass = "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all border border-white/10";
+
+// Miniature 2x2 board with the two piece colours on top
+const ThemeSwatch: React.FC<{ theme: BoardTheme }> = ({ theme }) => (
+  <div className="relative w-12 h-12 rounded-md overflow-hidden grid grid-cols-2 shrink-0 border" style={{ borderColor: theme.frame.inner }}>
+    <div style={{ background: theme.squares.light }} />
+    <div style={{ background: theme.squares.dark }} />
+    <div style={{ background: theme.squares.dark }} />
+    <div style={{ background: theme.squares.light }} />
+    <span className="absolute left-1.5 top-1.5 w-3.5 h-3.5 rounded-full shadow" style={{ background: theme.pieces.white }} />
+    <span className="absolute right-1.5 bottom-1.5 w-3.5 h-3.5 rounded-full shadow" style={{ background: theme.pieces.black }} />
+  </div>
+);
+
+const ThemeDialog: React.FC<ThemeDialogProps> = ({
+  themes, customIds, selectedId, onSelect, onImport, onDelete,
+  pieceSets, pieceSetId, pieceSetError, onPieceSetSelect, onLocalPieceSet,
+  renderQuality, autoQuality, onRenderQualitySelect, onClose,
+}) => {
+  const [tab, setTab] = useState<'themes' | 'import'>('themes');
+  const [copied, setCopied] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = themes.find(t => t.id === selectedId) ?? themes[0];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportTheme(selected));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error('Clipboard Error:', e);
+    }
+  };
+
+  const handleImport = (text: string) => {
+    try {
+      onImport(importTheme(text));
+      setImportText('');
+      setTab('themes');
+    } catch (e) {
+      setImportError(e instanceof ThemeImportError ? e.message : 'Could not import this theme.');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setImportText(text);
+    setImportError(null);
+    handleImport(text);
+  };
+
+  const handleModelFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length) onLocalPieceSet(files);
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-sm font-semibold transition-all ${active ? 'bg-blue-500/80 text-white' : 'text-gray-300 hover:bg-white/10'}`;
+
+  const qualityClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-xs font-semibold transition-all ${active ? 'bg-blue-500/80 text-white' : 'text-gray-300 hover:bg-white/10'}`;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl shadow-2xl w-full max-w-xl relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
+          title="Close (ESC)"
+        >
+          <X size={22} />
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+          <Palette size={22} className="text-blue-400" /> Board Theme
+        </h2>
+
+        <div className="flex gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10 mb-4">
+          <button className={tabClass(tab === 'themes')} onClick={() => setTab('themes')}>Themes</button>
+          <button className={tabClass(tab === 'import')} onClick={() => setTab('import')}>Import</button>
+        </div>
+
+        {tab === 'themes' ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-1">
+              {themes.map(theme => (
+                <div
+                  key={theme.id}
+                  className={`flex items-center gap-3 p-2 rounded-xl border transition-all ${theme.id === selected.id ? 'bg-blue-500/20 border-blue-400/60' : 'bg-slate-800/40 border-white/10 hover:bg-slate-700/50'}`}
+                >
+                  <button onClick={() => onSelect(theme.id)} className="flex-1 flex items-center gap-3 text-left min-w-0">
+                    <ThemeSwatch theme={theme} />
+                    <span className="min-w-0">
+                      <span className="block text-sm font-semibold text-gray-100 truncate">{theme.name}</span>
+                      <span className="block text-[11px] text-gray-400 capitalize">{theme.pieces.material} · {theme.environment}</span>
+                    </span>
+                  </button>
+                  {customIds.includes(theme.id) && (
+                    <button
+                      onClick={() => onDelete(theme.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-white/10 rounded-lg transition-colors"
+                      title={`Delete ${theme.name}`}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Box size={16} className="text-gray-400 shrink-0" />
+              <select
+                value={pieceSetId}
+                onChange={(e) => onPieceSetSelect(e.target.value)}
+                className={`${inputClass} flex-1`}
+                aria-label="Piece set"
+              >
+                {pieceSets.map(s => <option key={s.id} value={s.id} className="bg-slate-900">Pieces: {s.name}</option>)}
+              </select>
+              <input ref={modelInputRef} type="file" multiple accept=".json,.glb,.gltf" className="hidden" onChange={handleModelFiles} />
+              <button
+                onClick={() => modelInputRef.current?.click()}
+                className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60 shrink-0`}
+                title="Select a piece set manifest (.json) together with its .glb models"
+              >
+                <Upload size={16} /> Load glTF
+              </button>
+            </div>
+            {pieceSetError && (
+              <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {pieceSetError}
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Gauge size={16} className="text-gray-400 shrink-0" />
+              <div className="flex-1 flex gap-1 p-1 bg-slate-800/60 rounded-xl border border-white/10" role="radiogroup" aria-label="Render quality">
+                {[...QUALITY_LEVELS, RenderQuality.AUTO].map(quality => (
+                  <button
+                    key={quality}
+                    role="radio"
+                    aria-checked={renderQuality === quality}
+                    className={qualityClass(renderQuality === quality)}
+                    onClick={() => onRenderQualitySelect(quality)}
+                  >
+                    {quality === RenderQuality.AUTO
+                      ? `Auto${renderQuality === RenderQuality.AUTO && autoQuality ? ` (${QUALITY_SETTINGS[autoQuality].label})` : ''}`
+                      : QUALITY_SETTINGS[quality].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={handleCopy} className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60`}>
+                {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />} {copied ? 'Copied' : 'Copy JSON'}
+              </button>
+              <button onClick={() => downloadTheme(selected)} className={`${buttonClass} bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500`}>
+                <Download size={16} /> Export "{selected.name}"
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <textarea
+              value={importText}
+              onChange={(e) => { setImportText(e.target.value); setImportError(null); }}
+              placeholder={exportTheme(selected)}
+              className={`${inputClass} h-48 font-mono text-xs resize-none`}
+            />
+            {importError && (
+              <div className="flex items-start gap-2 px-3 py-2 rounded-lg bg-red-500/15 border border-red-500/30 text-sm text-red-300">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {importError}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+              <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} bg-slate-800/60 text-gray-200 hover:bg-slate-700/60`}>
+                <Upload size={16} /> Choose File
+              </button>
+              <button onClick={() => handleImport(importText)} className={`${buttonClass} bg-gradient-to-r from-blue-600 to-cyan-600 text-white hover:from-blue-500 hover:to-cyan-500`}>
+                <Upload size={16} /> Import
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThemeDialog;
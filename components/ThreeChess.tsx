@@ -1,15 +1,34 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
+import { Canvas, useThree, useFrame, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, Environment, ContactShadows, Text, MeshReflectorMaterial, Float, Stars } from '@react-three/drei';
-import { Square, Color, PieceSymbol } from 'chess.js';
+import { Square, Color, PieceSymbol, Move } from 'chess.js';
 import * as Pieces from './ChessPieces';
+import CanvasErrorBoundary from './CanvasErrorBoundary';
 import { useSpring, animated } from '@react-spring/three';
 import * as THREE from 'three';
+import { BoardArrow, RenderQuality } from '../types';
+import { CapturedPiece, MATERIAL_VALUES } from '../services/material';
+import { BoardPiece, TrackedPiece, resolvePieces } from '../services/pieceTracking';
+import { ARROW_COLORS, BoardTheme, DEFAULT_THEME, DROP_COLORS } from '../services/themes';
+import { PieceSet } from '../services/pieceSets';
+import { AUTO_START_LEVEL, nextAutoQuality, QUALITY_LEVELS, QUALITY_SETTINGS, QualityLevel, QualitySettings } from '../services/renderQuality';
+
+// The three-stdlib controls instance behind drei's <OrbitControls>
+type OrbitControlsImpl = React.ComponentRef<typeof OrbitControls>;
 
 // --- Constants ---
 const BOARD_SIZE = 8;
 const SQUARE_SIZE = 1.2;
 const BOARD_OFFSET = (BOARD_SIZE * SQUARE_SIZE) / 2 - SQUARE_SIZE / 2;
+const DRAG_THRESHOLD_PX = 5;   // Pointer travel before a press becomes a drag
+const BOARD_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const FRAME_SIZE = BOARD_SIZE * SQUARE_SIZE + 1.6;
+const TRAY_DEPTH = 1.0;
+const TRAY_Z = FRAME_SIZE / 2 + TRAY_DEPTH / 2 + 0.15;   // Just outside the frame edge
+const TRAY_SLOT = 0.66;
+const TRAY_PIECE_SCALE = 0.55;
+const NO_CAPTURES: CapturedPiece[] = [];
+const NO_ARROWS: BoardArrow[] = [];
 
 // --- Helper Functions ---
 
@@ -23,134 +42,48 @@ const getPosition = (square: Square): [number, number, number] => {
   return [x, 0, z];
 };
 
-const getDistance = (sq1: Square, sq2: Square) => {
-  const f1 = sq1.charCodeAt(0);
-  const r1 = parseInt(sq1[1]);
-  const f2 = sq2.charCodeAt(0);
-  const r2 = parseInt(sq2[1]);
-  return Math.sqrt(Math.pow(f1 - f2, 2) + Math.pow(r1 - r2, 2));
+// Square under a point on the board plane, or null off the board
+const getSquareAt = (point: THREE.Vector3): Square | null => {
+  const file = Math.round((point.x + BOARD_OFFSET) / SQUARE_SIZE);
+  const rank = Math.round((BOARD_OFFSET - point.z) / SQUARE_SIZE);
+  if (file < 0 || file >= BOARD_SIZE || rank < 0 || rank >= BOARD_SIZE) return null;
+  return `${String.fromCharCode(97 + file)}${rank + 1}` as Square;
 };
 
-const generateId = (type: string, color: string) => `${color}-${type}-${Math.random().toString(36).substr(2, 9)}`;
+const pieceStyleOf = (theme: BoardTheme): Pieces.PieceStyle => ({ ...theme.pieces, selected: theme.highlights.selected });
+
+// --- On-Demand Frames ---
+// The canvas only draws when something asks for a frame. Springs keep going
+// once they move a prop, but need a first frame to start; effects that run
+// their own animation ask for frames for as long as they are shown.
+
+const useInvalidateOnChange = (deps: React.DependencyList) => {
+  const invalidate = useThree(state => state.invalidate);
+  useEffect(() => {
+    invalidate();
+  }, deps);
+};
+
+const useContinuousFrames = (active: boolean) => {
+  useFrame(({ invalidate }) => {
+    if (active) invalidate();
+  });
+  const invalidate = useThree(state => state.invalidate);
+  useEffect(() => {
+    if (active) invalidate();
+  }, [active]);
+};
 
 // --- Piece Tracking Hook ---
-// This ensures that when a piece moves, we reuse the same React component (key)
-// so the animation library can interpolate the position change smoothly.
+// A moved piece keeps its React key (see resolvePieces), so the animation
+// library interpolates its position. Castling moves the rook, en passant
+// removes the right pawn and a promoted piece springs in from its pawn's
+// square.
 const usePieceTracking = (
-  boardState: ({ type: PieceSymbol, color: Color, square: Square } | null)[][],
-  lastMove: { from: Square, to: Square } | null
-) => {
-  const prevPiecesRef = useRef<Record<string, { square: Square, type: PieceSymbol, color: Color }>>({});
-
-  const trackedPieces = useMemo(() => {
-    // 1. Flatten current board state
-    const newPieces: { square: Square, type: PieceSymbol, color: Color }[] = [];
-    boardState.forEach(row => row.forEach(p => {
-      if(p) newPieces.push(p);
-    }));
-
-    // 2. Group by Type+Color (e.g., 'wp', 'br')
-    const newGroups: Record<string, typeof newPieces> = {};
-    newPieces.forEach(p => {
-      const key = p.color + p.type;
-      if(!newGroups[key]) newGroups[key] = [];
-      newGroups[key].push(p);
-    });
-
-    // 3. Prepare previous groups
-    const prevPieces = prevPiecesRef.current;
-    const prevGroups: Record<string, { id: string, square: Square, type: PieceSymbol, color: Color }[]> = {};
-    Object.entries(prevPieces).forEach(([id, p]) => {
-       const key = p.color + p.type;
-       if(!prevGroups[key]) prevGroups[key] = [];
-       prevGroups[key].push({...p, id});
-    });
-
-    const result: { id: string, square: Square, type: PieceSymbol, color: Color }[] = [];
-    const distinctKeys = new Set([...Object.keys(newGroups), ...Object.keys(prevGroups)]);
-
-    distinctKeys.forEach(key => {
-       const oldList = prevGroups[key] || [];
-       const newList = newGroups[key] || [];
-
-       const usedOld = new Set<number>();
-       const usedNew = new Set<number>();
-
-       // A. Exact Match (Piece didn't move)
-       oldList.forEach((o, oIdx) => {
-          const nIdx = newList.findIndex((n, i) => !usedNew.has(i) && n.square === o.square);
-          if(nIdx !== -1) {
-             usedNew.add(nIdx);
-             usedOld.add(oIdx);
-             result.push({ ...newList[nIdx], id: o.id });
-          }
-       });
-
-       // B. Last Move Match (The piece that explicitly moved)
-       if (lastMove) {
-          const { from, to } = lastMove;
-          const oIdx = oldList.findIndex((o, i) => !usedOld.has(i) && o.square === from);
-          const nIdx = newList.findIndex((n, i) => !usedNew.has(i) && n.square === to);
-          if(oIdx !== -1 && nIdx !== -1) {
-              usedNew.add(nIdx);
-              usedOld.add(oIdx);
-              result.push({ ...newList[nIdx], id: oldList[oIdx].id });
-          }
-       }
-
-       // C. Distance Match (Heuristic for Castling, displaced pieces, etc.)
-       const remainingOld = oldList.map((o, i) => ({ ...o, idx: i })).filter(x => !usedOld.has(x.idx));
-       const remainingNew = newList.map((n, i) => ({ ...n, idx: i })).filter(x => !usedNew.has(x.idx));
-
-       const pairs = [];
-       for(const rO of remainingOld) {
-          for(const rN of remainingNew) {
-             pairs.push({
-               o: rO,
-               n: rN,
-               dist: getDistance(rO.square, rN.square)
-             });
-          }
-       }
-       // Sort by closest distance first
-       pairs.sort((a, b) => a.dist - b.dist);
-
-       const pairUsedOld = new Set<string>();
-       const pairUsedNew = new Set<string>();
-
-       for(const p of pairs) {
-           if(!pairUsedOld.has(p.o.id) && !pairUsedNew.has(p.n.square)) {
-               pairUsedOld.add(p.o.id);
-               pairUsedNew.add(p.n.square);
-
-               // Mark them as effectively used for this step
-               // We add to result
-               result.push({ ...p.n, id: p.o.id });
-           }
-       }
-
-       // D. New pieces (Promotions, or initial load)
-       newList.forEach((n, i) => {
-           // If not matched in previous steps, verify if it's already in result
-           // (It shouldn't be if we check usedNew correctly, but pair matching was separate)
-           const alreadyInResult = result.find(r => r.square === n.square && r.type === n.type && r.color === n.color);
-           if (!alreadyInResult) {
-              result.push({ ...n, id: generateId(n.type, n.color) });
-           }
-       });
-    });
-
-    // Update Ref for next render
-    const nextMap: Record<string, any> = {};
-    result.forEach(r => nextMap[r.id] = r);
-    prevPiecesRef.current = nextMap;
-
-    return result;
-
-  }, [boardState, lastMove]);
-
-  return trackedPieces;
-};
+  boardState: (BoardPiece | null)[][],
+  startFen?: string,
+  moves?: Move[]
+): TrackedPiece[] => useMemo(() => resolvePieces(boardState, startFen, moves), [boardState, startFen, moves]);
 
 // --- Sub-Components ---
 
@@ -162,17 +95,24 @@ interface TileProps {
   isSelected: boolean;
   isPossibleMove: boolean;
   isLastMove: boolean;
+  isCursor: boolean;                        // Keyboard cursor position
+  dropTarget: 'legal' | 'illegal' | null;   // Square under a dragged piece
+  theme: BoardTheme;
+  animated: boolean;                        // Float the possible-move rings
   onClick: (square: Square) => void;
 }
 
-const Tile: React.FC<TileProps> = ({ x, z, isBlack, squareName, isSelected, isPossibleMove, isLastMove, onClick }) => {
+const Tile: React.FC<TileProps> = ({ x, z, isBlack, squareName, isSelected, isPossibleMove, isLastMove, isCursor, dropTarget, theme, animated: isAnimated, onClick }) => {
   const [hovered, setHover] = useState(false);
+  useInvalidateOnChange([isSelected, isPossibleMove, isLastMove, isCursor, dropTarget, hovered, theme, isAnimated]);
 
-  const baseColor = isBlack ? '#6b7d5c' : '#e8e4d9';
+  const { squares, highlights } = theme;
+  const baseColor = isBlack ? squares.dark : squares.light;
+  const labelColor = isBlack ? squares.light : squares.dark;
 
   const { color, emissive } = useSpring({
-    color: isSelected ? '#3b82f6' : (isLastMove ? '#f59e0b' : (hovered ? '#60a5fa' : baseColor)),
-    emissive: isSelected ? '#1d4ed8' : (isLastMove ? '#d97706' : (hovered ? '#2563eb' : '#000000')),
+    color: dropTarget ? DROP_COLORS[dropTarget].color : isSelected ? highlights.selected : (isLastMove ? highlights.lastMove : (hovered ? highlights.hover : baseColor)),
+    emissive: dropTarget ? DROP_COLORS[dropTarget].emissive : isSelected ? highlights.selected : (isLastMove ? highlights.lastMove : (hovered ? highlights.hover : '#000000')),
     config: { duration: 200 }
   });
 
@@ -204,17 +144,25 @@ const Tile: React.FC<TileProps> = ({ x, z, isBlack, squareName, isSelected, isPo
         />
       </animated.mesh>
 
+      {/* Keyboard Cursor: a four-sided ring turned square-on */}
+      {isCursor && (
+        <mesh position={[0, 0.03, 0]} rotation={[-Math.PI / 2, 0, Math.PI / 4]} raycast={() => null}>
+          <ringGeometry args={[SQUARE_SIZE * 0.56, SQUARE_SIZE * 0.68, 4]} />
+          <meshStandardMaterial color={highlights.cursor} emissive={highlights.cursor} emissiveIntensity={1.2} toneMapped={false} />
+        </mesh>
+      )}
+
       {/* Possible Move Indicator - Enhanced */}
       {isPossibleMove && (
         <group position={[0, 0.08, 0]}>
-          <Float speed={3} rotationIntensity={0} floatIntensity={0.3} floatingRange={[0, 0.15]}>
+          <Float speed={3} rotationIntensity={0} floatIntensity={isAnimated ? 0.3 : 0} floatingRange={[0, 0.15]}>
             <mesh rotation={[-Math.PI / 2, 0, 0]}>
               <ringGeometry args={[0.4, 0.5, 32]} />
-              <meshStandardMaterial color="#3b82f6" transparent opacity={0.6} emissive="#1d4ed8" emissiveIntensity={0.5} />
+              <meshStandardMaterial color={highlights.possibleMove} transparent opacity={0.6} emissive={highlights.possibleMove} emissiveIntensity={0.5} />
             </mesh>
             <mesh rotation={[-Math.PI / 2, 0, 0]}>
               <circleGeometry args={[0.25, 32]} />
-              <meshStandardMaterial color="#60a5fa" transparent opacity={0.5} emissive="#3b82f6" emissiveIntensity={0.3} />
+              <meshStandardMaterial color={highlights.possibleMove} transparent opacity={0.4} emissive={highlights.possibleMove} emissiveIntensity={0.3} />
             </mesh>
           </Float>
         </group>
@@ -226,7 +174,7 @@ const Tile: React.FC<TileProps> = ({ x, z, isBlack, squareName, isSelected, isPo
            position={[0, 0.07, SQUARE_SIZE/2 - 0.1]}
            rotation={[-Math.PI/2, 0, 0]}
            fontSize={0.28}
-           color={isBlack ? "#e8e4d9" : "#6b7d5c"}
+           color={labelColor}
            anchorY="bottom"
            fontWeight="bold"
            outlineWidth={0.01}
@@ -239,7 +187,7 @@ const Tile: React.FC<TileProps> = ({ x, z, isBlack, squareName, isSelected, isPo
            position={[-SQUARE_SIZE/2 + 0.1, 0.07, 0]}
            rotation={[-Math.PI/2, 0, 0]}
            fontSize={0.28}
-           color={isBlack ? "#e8e4d9" : "#6b7d5c"}
+           color={labelColor}
            anchorX="left"
            fontWeight="bold"
            outlineWidth={0.01}
@@ -251,22 +199,240 @@ const Tile: React.FC<TileProps> = ({ x, z, isBlack, squareName, isSelected, isPo
   );
 };
 
+// --- Suggestion Arrows ---
+
+const ARROW_HEIGHT = 0.2;
+const ARROW_HEAD_LENGTH = 0.45;
+
+const MoveArrow: React.FC<BoardArrow & { animated: boolean }> = ({ from, to, kind, animated: isAnimated }) => {
+  const materialRefs = useRef<THREE.MeshStandardMaterial[]>([]);
+  const [fx, , fz] = getPosition(from);
+  const [tx, , tz] = getPosition(to);
+  const length = Math.hypot(tx - fx, tz - fz);
+  const shaftLength = Math.max(0.1, length - ARROW_HEAD_LENGTH);
+  const width = kind === 'best' ? 0.16 : 0.1;
+  const color = ARROW_COLORS[kind];
+
+  // Gentle pulse so the suggestion reads as a glow rather than a solid prop
+  useFrame(({ clock }) => {
+    if (!isAnimated) return;
+    const glow = 1.6 + Math.sin(clock.elapsedTime * 3) * 0.6;
+    materialRefs.current.forEach(m => { if (m) m.emissiveIntensity = glow; });
+  });
+
+  const material = (index: number) => (
+    <meshStandardMaterial
+      ref={(m: THREE.MeshStandardMaterial) => { materialRefs.current[index] = m; }}
+      color={color}
+      emissive={color}
+      emissiveIntensity={1.6}
+      transparent
+      opacity={kind === 'best' ? 0.9 : 0.65}
+      toneMapped={false}
+    />
+  );
+
+  // Local +Z points from the origin square to the target square
+  return (
+    <group position={[fx, ARROW_HEIGHT, fz]} rotation={[0, Math.atan2(tx - fx, tz - fz), 0]}>
+      <mesh position={[0, 0, shaftLength / 2]} raycast={() => null}>
+        <boxGeometry args={[width, 0.04, shaftLength]} />
+        {material(0)}
+      </mesh>
+      <mesh position={[0, 0, shaftLength + ARROW_HEAD_LENGTH / 2]} rotation={[Math.PI / 2, 0, 0]} raycast={() => null}>
+        <coneGeometry args={[width * 2.2, ARROW_HEAD_LENGTH, 24]} />
+        {material(1)}
+      </mesh>
+      <pointLight color={color} intensity={kind === 'best' ? 1.2 : 0.6} distance={3} position={[0, 0.3, length / 2]} />
+    </group>
+  );
+};
+
+// --- Capture Trays ---
+// Each player's captures sit in a tray along their own edge of the frame
+// (White's at rank 1, Black's at rank 8). A piece captured since the last
+// render flies there from the square it was taken on; the trays are derived
+// from the displayed moves, so undo, reset and imports simply re-render them.
+
+const CapturedTrays: React.FC<{ pieces: CapturedPiece[], theme: BoardTheme, pieceSet: PieceSet | null }> = ({ pieces, theme, pieceSet }) => {
+  const pieceStyle = useMemo(() => pieceStyleOf(theme), [theme]);
+  // Keys shown last render; null until mounted so a loaded game does not animate
+  const shownRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    shownRef.current = new Set(pieces.map(p => p.key));
+  }, [pieces]);
+
+  const trays = (['w', 'b'] as Color[]).map(capturer => {
+    const z = capturer === 'w' ? TRAY_Z : -TRAY_Z;
+    // Lowest value first, so pawns line up at the start of the row
+    const row = pieces
+      .filter(p => p.color !== capturer)
+      .sort((a, b) => MATERIAL_VALUES[a.type] - MATERIAL_VALUES[b.type] || a.ply - b.ply);
+    // The tray reads left to right from its owner's seat
+    const direction = capturer === 'w' ? 1 : -1;
+    const startX = -direction * (FRAME_SIZE / 2 - 0.6);
+
+    return (
+      <group key={capturer}>
+        <mesh position={[0, -0.3, z]} receiveShadow>
+          <boxGeometry args={[FRAME_SIZE, 0.1, TRAY_DEPTH]} />
+          <meshStandardMaterial color={theme.frame.outer} roughness={0.4} metalness={0.5} />
+        </mesh>
+        {row.map((p, i) => {
+          const enterFrom = shownRef.current && !shownRef.current.has(p.key) ? getPosition(p.square) : undefined;
+          return (
+            <Pieces.Piece
+              key={p.key}
+              type={p.type}
+              pieceSet={pieceSet}
+              position={[startX + direction * i * TRAY_SLOT, -0.25, z]}
+              enterFrom={enterFrom}
+              scale={TRAY_PIECE_SCALE}
+              pieceStyle={pieceStyle}
+              color={p.color}
+              isSelected={false}
+            />
+          );
+        })}
+      </group>
+    );
+  });
+
+  return <group>{trays}</group>;
+};
+
 interface Board3DProps {
   fen: string;
   selectedSquare: Square | null;
   validMoves: Square[];
   lastMove: { from: Square, to: Square } | null;
+  cursorSquare?: Square | null;
   onSquareClick: (sq: Square) => void;
+  onPieceDragStart?: (from: Square) => Square[] | null;
+  onPieceDrop?: (from: Square, to: Square) => void;
+  onDragChange: (dragging: boolean) => void;
   boardState: ({ type: PieceSymbol, color: Color, square: Square } | null)[][];
+  startFen?: string;
+  moves?: Move[];
+  capturedPieces?: CapturedPiece[];
+  arrows?: BoardArrow[];
+  theme: BoardTheme;
+  pieceSet?: PieceSet | null;
+  quality: QualitySettings;
 }
 
 const Board3D: React.FC<Board3DProps> = ({
   selectedSquare,
   validMoves,
   lastMove,
+  cursorSquare = null,
   onSquareClick,
-  boardState
+  onPieceDragStart,
+  onPieceDrop,
+  onDragChange,
+  boardState,
+  startFen,
+  moves,
+  capturedPieces = NO_CAPTURES,
+  arrows = NO_ARROWS,
+  theme,
+  pieceSet = null,
+  quality
 }) => {
+  const pieceStyle = useMemo(() => pieceStyleOf(theme), [theme]);
+  const invalidate = useThree(state => state.invalidate);
+  useContinuousFrames(quality.animatedHighlights && (validMoves.length > 0 || arrows.length > 0));
+
+
+  // --- Drag and Drop ---
+  // A press on a piece becomes a drag once the pointer travels a few pixels;
+  // shorter presses stay clicks, so click-click moves keep working. The piece
+  // follows the pointer projected onto the board plane and is dropped on
+  // release: legal squares take the move, anything else springs it back.
+  const dragRef = useRef<{ from: Square, targets: Square[], startX: number, startY: number, active: boolean } | null>(null);
+  const dragPointRef = useRef<THREE.Vector3 | null>(null);
+  const dragOverRef = useRef<Square | null>(null);
+  const suppressClickRef = useRef(false);
+  const [dragFrom, setDragFrom] = useState<Square | null>(null);
+  const [dragOver, setDragOver] = useState<Square | null>(null);
+  useInvalidateOnChange([boardState, selectedSquare, validMoves, lastMove, cursorSquare, capturedPieces, arrows, theme, pieceSet, quality, dragFrom, dragOver]);
+
+  // Window listeners outlive renders, so they read the latest callbacks here
+  const callbacksRef = useRef({ onPieceDrop, onDragChange });
+  callbacksRef.current = { onPieceDrop, onDragChange };
+
+  const handleDragStart = (square: Square, e: ThreeEvent<PointerEvent>) => {
+    if (e.nativeEvent.button !== 0 || !onPieceDrop) return;
+    const targets = onPieceDragStart?.(square);
+    if (!targets) return;
+    dragRef.current = { from: square, targets, startX: e.nativeEvent.clientX, startY: e.nativeEvent.clientY, active: false };
+    onDragChange(true);
+  };
+
+  // Clicks that end a drag would otherwise reselect the dragged piece
+  const handleClick = (square: Square) => {
+    if (!suppressClickRef.current) onSquareClick(square);
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      // The dragged piece follows the pointer from useFrame, which only runs on request
+      invalidate();
+      if (drag.active) return;
+      if (Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < DRAG_THRESHOLD_PX) return;
+      drag.active = true;
+      setDragFrom(drag.from);
+      document.body.style.cursor = 'grabbing';
+    };
+
+    // Captured on the window so it runs before the canvas sees the release
+    const handleUp = () => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const to = dragOverRef.current;
+      dragRef.current = null;
+      dragPointRef.current = null;
+      dragOverRef.current = null;
+      callbacksRef.current.onDragChange(false);
+      if (!drag.active) return;
+
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; });
+      setDragFrom(null);
+      setDragOver(null);
+      document.body.style.cursor = 'auto';
+      if (to && to !== drag.from && drag.targets.includes(to)) callbacksRef.current.onPieceDrop?.(drag.from, to);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp, true);
+    window.addEventListener('pointercancel', handleUp, true);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp, true);
+      window.removeEventListener('pointercancel', handleUp, true);
+    };
+  }, []);
+
+  useFrame(({ raycaster, pointer, camera }) => {
+    if (!dragRef.current?.active) return;
+    raycaster.setFromCamera(pointer, camera);
+    const point = raycaster.ray.intersectPlane(BOARD_PLANE, dragPointRef.current ?? new THREE.Vector3());
+    if (!point) return;
+    dragPointRef.current = point;
+    const square = getSquareAt(point);
+    if (square !== dragOverRef.current) {
+      dragOverRef.current = square;
+      setDragOver(square);
+    }
+  });
+
+  const dropTargetFor = (square: Square): TileProps['dropTarget'] => {
+    if (!dragFrom || square !== dragOver || square === dragFrom) return null;
+    return dragRef.current?.targets.includes(square) ? 'legal' : 'illegal';
+  };
 
   // --- Tiles Generation ---
   const tiles = [];
@@ -289,31 +455,33 @@ const Board3D: React.FC<Board3DProps> = ({
           isSelected={isSelected}
           isPossibleMove={isPossibleMove}
           isLastMove={isLastMove}
-          onClick={onSquareClick}
+          isCursor={cursorSquare === squareName}
+          dropTarget={dropTargetFor(squareName)}
+          theme={theme}
+          animated={quality.animatedHighlights}
+          onClick={handleClick}
         />
       );
     }
   }
 
   // --- Pieces Generation using Tracking Hook ---
-  const trackedPieces = usePieceTracking(boardState, lastMove);
+  const trackedPieces = usePieceTracking(boardState, startFen, moves);
 
   const pieces = trackedPieces.map((p) => {
-    const Component =
-      p.type === 'p' ? Pieces.Pawn :
-      p.type === 'r' ? Pieces.Rook :
-      p.type === 'n' ? Pieces.Knight :
-      p.type === 'b' ? Pieces.Bishop :
-      p.type === 'q' ? Pieces.Queen :
-      Pieces.King;
-
     return (
-      <Component
+      <Pieces.Piece
         key={p.id}
+        type={p.type}
+        pieceSet={pieceSet}
         position={getPosition(p.square)}
         color={p.color}
-        isSelected={selectedSquare === p.square}
-        onClick={() => onSquareClick(p.square)}
+        isSelected={selectedSquare === p.square || dragFrom === p.square}
+        onClick={() => handleClick(p.square)}
+        onPointerDown={onPieceDrop && ((e) => handleDragStart(p.square, e))}
+        dragPoint={dragFrom === p.square ? dragPointRef : undefined}
+        enterFrom={p.promotedFrom && getPosition(p.promotedFrom)}
+        pieceStyle={pieceStyle}
       />
     );
   });
@@ -322,9 +490,9 @@ const Board3D: React.FC<Board3DProps> = ({
     <group>
       {/* Enhanced Board Frame */}
       <mesh position={[0, -0.25, 0]} receiveShadow castShadow>
-        <boxGeometry args={[SQUARE_SIZE * 8 + 1.6, 0.3, SQUARE_SIZE * 8 + 1.6]} />
+        <boxGeometry args={[FRAME_SIZE, 0.3, FRAME_SIZE]} />
         <meshStandardMaterial
-          color="#1a0f08"
+          color={theme.frame.outer}
           roughness={0.3}
           metalness={0.5}
           emissive="#0f0806"
@@ -336,7 +504,7 @@ const Board3D: React.FC<Board3DProps> = ({
       <mesh position={[0, -0.12, 0]} receiveShadow>
         <boxGeometry args={[SQUARE_SIZE * 8 + 0.8, 0.08, SQUARE_SIZE * 8 + 0.8]} />
         <meshStandardMaterial
-          color="#3d2817"
+          color={theme.frame.inner}
           roughness={0.4}
           metalness={0.6}
         />
@@ -345,18 +513,23 @@ const Board3D: React.FC<Board3DProps> = ({
       {/* Reflective Base Board */}
       <mesh position={[0, -0.09, 0]} rotation={[-Math.PI / 2, 0, 0]}>
         <planeGeometry args={[SQUARE_SIZE * 8 + 0.4, SQUARE_SIZE * 8 + 0.4]} />
-        <MeshReflectorMaterial
-          mirror={0.8}
-          blur={[500, 150]}
-          resolution={2048}
-          mixBlur={1.2}
-          mixStrength={20}
-          depthScale={1.2}
-          minDepthThreshold={0.8}
-          color="#0a0a0a"
-          metalness={0.8}
-          roughness={0.2}
-        />
+        {quality.reflectorResolution ? (
+          <MeshReflectorMaterial
+            key={quality.reflectorResolution}
+            mirror={0.8}
+            blur={[500, 150]}
+            resolution={quality.reflectorResolution}
+            mixBlur={1.2}
+            mixStrength={20}
+            depthScale={1.2}
+            minDepthThreshold={0.8}
+            color="#0a0a0a"
+            metalness={0.8}
+            roughness={0.2}
+          />
+        ) : (
+          <meshStandardMaterial color="#0a0a0a" metalness={0.8} roughness={0.2} />
+        )}
       </mesh>
 
       {/* Tiles Container */}
@@ -366,14 +539,19 @@ const Board3D: React.FC<Board3DProps> = ({
 
       {/* Pieces Container */}
       {pieces}
+
+      {/* Captured Pieces */}
+      <CapturedTrays pieces={capturedPieces} theme={theme} pieceSet={pieceSet} />
+
+      {/* Suggestion Arrows */}
+      {arrows.map(a => <MoveArrow key={`${a.kind}-${a.from}${a.to}`} {...a} animated={quality.animatedHighlights} />)}
     </group>
   );
 };
 
 // --- Controls Component ---
-const CameraController: React.FC<{ view: 'white' | 'black' }> = ({ view }) => {
-  const { camera } = useThree();
-  const controlsRef = useRef<any>();
+const CameraController: React.FC<{ view: 'white' | 'black', controlsRef: React.RefObject<OrbitControlsImpl | null> }> = ({ view, controlsRef }) => {
+  const { camera, invalidate } = useThree();
 
   useEffect(() => {
     const newPos = view === 'white' ? new THREE.Vector3(0, 14, 14) : new THREE.Vector3(0, 14, -14);
@@ -389,10 +567,12 @@ const CameraController: React.FC<{ view: 'white' | 'black' }> = ({ view }) => {
       if (t <= 1) {
         camera.position.lerpVectors(startPos, newPos, ease);
         camera.lookAt(0, 0, 0);
+        invalidate();
         requestAnimationFrame(animate);
       } else if (controlsRef.current) {
         controlsRef.current.target.set(0, 0, 0);
         controlsRef.current.update();
+        invalidate();
       }
     };
     animate();
@@ -417,78 +597,149 @@ const CameraController: React.FC<{ view: 'white' | 'black' }> = ({ view }) => {
   );
 }
 
+// --- Auto Quality ---
+// Measures the frame rate of consecutive frames only: with on-demand
+// rendering the gap before the first frame of an animation is idle time,
+// not a slow frame.
+
+const FPS_SAMPLE_FRAMES = 90;
+const MAX_FRAME_GAP = 0.25;   // Seconds; longer gaps mean the canvas was idle
 
-interface ThreeChessProps {
+const AutoQualityMonitor: React.FC<{ level: QualityLevel, onChange: (level: QualityLevel) => void }> = ({ level, onChange }) => {
+  const samplesRef = useRef<number[]>([]);
+  const ceilingRef = useRef<QualityLevel>(RenderQuality.HIGH);
+
+  useEffect(() => {
+    samplesRef.current = [];
+  }, [level]);
+
+  useFrame((_, delta) => {
+    if (delta <= 0 || delta > MAX_FRAME_GAP) return;
+    const samples = samplesRef.current;
+    samples.push(delta);
+    if (samples.length < FPS_SAMPLE_FRAMES) return;
+    const fps = samples.length / samples.reduce((sum, d) => sum + d, 0);
+    samplesRef.current = [];
+    const next = nextAutoQuality(level, fps, ceilingRef.current);
+    if (next === level) return;
+    if (QUALITY_LEVELS.indexOf(next) < QUALITY_LEVELS.indexOf(level)) ceilingRef.current = next;
+    onChange(next);
+  });
+
+  return null;
+};
+
+// Shared by the 2D board, which takes the same props and ignores the 3D-only ones
+export interface ThreeChessProps {
   boardState: ({ type: PieceSymbol, color: Color, square: Square } | null)[][];
   fen: string;
+  // The line leading to boardState; pieces are tracked through it for animation
+  startFen?: string;
+  moves?: Move[];
   selectedSquare: Square | null;
   validMoves: Square[];
   lastMove: { from: Square, to: Square } | null;
+  cursorSquare?: Square | null;   // Highlighted while the board has keyboard focus
   onSquareClick: (sq: Square) => void;
+  // Returns the squares the piece may be dropped on, or null when it cannot be picked up
+  onPieceDragStart?: (from: Square) => Square[] | null;
+  onPieceDrop?: (from: Square, to: Square) => void;
+  capturedPieces?: CapturedPiece[];   // Shown in the trays beside the board
+  arrows?: BoardArrow[];
   turn: Color;
   view: 'white' | 'black';
+  theme?: BoardTheme;
+  pieceSet?: PieceSet | null;   // glTF models; null keeps the primitive pieces
+  quality?: RenderQuality;
+  onAutoQualityChange?: (level: QualityLevel) => void;   // The preset Auto settled on
+  onRenderError?: (error: Error) => void;   // WebGL could not start
 }
 
-const ThreeChess: React.FC<ThreeChessProps> = (props) => {
+const ThreeChess: React.FC<ThreeChessProps> = ({ theme = DEFAULT_THEME, quality: requestedQuality = RenderQuality.AUTO, onAutoQualityChange, onRenderError, ...props }) => {
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const [autoLevel, setAutoLevel] = useState<QualityLevel>(AUTO_START_LEVEL);
+  const isAuto = requestedQuality === RenderQuality.AUTO;
+  const level = isAuto ? autoLevel : requestedQuality;
+  const quality = QUALITY_SETTINGS[level];
+
+  useEffect(() => {
+    onAutoQualityChange?.(autoLevel);
+  }, [autoLevel]);
+
+  // Toggled synchronously from the pointer-down handler so OrbitControls
+  // ignores the same event instead of rotating the camera mid-drag.
+  const handleDragChange = (dragging: boolean) => {
+    if (controlsRef.current) controlsRef.current.enabled = !dragging;
+  };
+
   return (
     <div className="w-full h-full absolute inset-0 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-800">
-      <Canvas
-        shadows
-        camera={{ position: [0, 14, 14], fov: 50 }}
-        dpr={[1, 2]}
-        gl={{ antialias: true, alpha: false }}
-      >
-        <color attach="background" args={['#0a0f1e']} />
-
-        {/* Enhanced Lighting Setup */}
-        <ambientLight intensity={0.3} />
-        <directionalLight
-          position={[15, 25, 15]}
-          intensity={1.5}
-          castShadow
-          shadow-mapSize={[2048, 2048]}
-          shadow-camera-far={50}
-          shadow-camera-left={-15}
-          shadow-camera-right={15}
-          shadow-camera-top={15}
-          shadow-camera-bottom={-15}
-          shadow-bias={-0.0001}
-        />
-        <hemisphereLight
-          args={['#87ceeb', '#4a5568', 0.6]}
-          position={[0, 20, 0]}
-        />
-        <pointLight position={[-12, 8, -12]} intensity={0.8} color="#3b82f6" distance={30} />
-        <pointLight position={[12, 8, 12]} intensity={0.8} color="#f59e0b" distance={30} />
-        <spotLight
-          position={[0, 25, 0]}
-          angle={0.6}
-          penumbra={1}
-          intensity={0.5}
-          castShadow
-        />
-
-        {/* Environment */}
-        <Stars radius={150} depth={60} count={6000} factor={5} saturation={0} fade speed={0.5} />
-        <Environment preset="night" blur={0.8} />
-        <fog attach="fog" args={['#0a0f1e', 15, 60]} />
-
-        {/* Game Content */}
-        <Board3D {...props} />
-
-        {/* Controls */}
-        <CameraController view={props.view} />
-
-        <ContactShadows
-          resolution={2048}
-          scale={45}
-          blur={1.5}
-          opacity={0.5}
-          far={5}
-          color="#000000"
-          position={[0, -0.1, 0]}
-        />
-      </Canvas>
+      <CanvasErrorBoundary onError={onRenderError}>
+        <Canvas
+          shadows
+          frameloop="demand"
+          camera={{ position: [0, 14, 14], fov: 50 }}
+          dpr={quality.dpr}
+          gl={{ antialias: true, alpha: false }}
+        >
+          <color attach="background" args={[theme.background]} />
+
+          {/* Enhanced Lighting Setup */}
+          <ambientLight intensity={0.3} />
+          <directionalLight
+            key={quality.shadowMapSize}
+            position={[15, 25, 15]}
+            intensity={1.5}
+            castShadow
+            shadow-mapSize={[quality.shadowMapSize, quality.shadowMapSize]}
+            shadow-camera-far={50}
+            shadow-camera-left={-15}
+            shadow-camera-right={15}
+            shadow-camera-top={15}
+            shadow-camera-bottom={-15}
+            shadow-bias={-0.0001}
+          />
+          <hemisphereLight
+            args={['#87ceeb', '#4a5568', 0.6]}
+            position={[0, 20, 0]}
+          />
+          <pointLight position={[-12, 8, -12]} intensity={0.8} color="#3b82f6" distance={30} />
+          <pointLight position={[12, 8, 12]} intensity={0.8} color="#f59e0b" distance={30} />
+          <spotLight
+            position={[0, 25, 0]}
+            angle={0.6}
+            penumbra={1}
+            intensity={0.5}
+            castShadow={quality.spotShadow}
+          />
+
+          {/* Environment */}
+          <Stars radius={150} depth={60} count={quality.stars} factor={5} saturation={0} fade speed={0.5} />
+          <Environment preset={theme.environment} blur={0.8} />
+          <fog attach="fog" args={[theme.background, 15, 60]} />
+
+          {/* Game Content */}
+          <Board3D {...props} theme={theme} quality={quality} onDragChange={handleDragChange} />
+
+          {/* Controls */}
+          <CameraController view={props.view} controlsRef={controlsRef} />
+
+          {quality.contactShadowResolution && (
+            <ContactShadows
+              key={quality.contactShadowResolution}
+              resolution={quality.contactShadowResolution}
+              scale={45}
+              blur={1.5}
+              opacity={0.5}
+              far={5}
+              color="#000000"
+              position={[0, -0.1, 0]}
+            />
+          )}
+
+          {isAuto && <AutoQualityMonitor level={autoLevel} onChange={setAutoLevel} />}
+        </Canvas>
+      </CanvasErrorBoundary>
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { TimeControl, TimeBonusType } from '../types';
+import { TIME_CONTROL_PRESETS, formatTimeControl } from '../services/clock';
+
+interface TimeControlPanelProps {
+  timeControl: TimeControl | null;
+  pauseOnModals: boolean;
+  evalBarInTimed: boolean;
+  onTimeControlChange: (timeControl: TimeControl | null) => void;
+  onPauseOnModalsChange: (pause: boolean) => void;
+  onEvalBarInTimedChange: (show: boolean) => void;
+}
+
+const selectClass = "bg-slate-800/60 border border-white/10 rounded-xl px-2 py-1.5 text-xs font-semibold text-gray-200 focus:outline-none focus:border-blue-400/50";
+const numberClass = "w-14 bg-slate-800/60 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-100 focus:outline-none focus:border-blue-400/50";
+
+const presetId = (timeControl: TimeControl | null) => {
+  if (!timeControl) return 'untimed';
+  const preset = TIME_CONTROL_PRESETS.find(p =>
+    p.timeControl.baseMs === timeControl.baseMs
+    && p.timeControl.bonusMs === timeControl.bonusMs
+    && p.timeControl.bonusType === timeControl.bonusType);
+  return preset ? preset.id : 'custom';
+};
+
+const TimeControlPanel: React.FC<TimeControlPanelProps> = ({
+  timeControl,
+  pauseOnModals,
+  evalBarInTimed,
+  onTimeControlChange,
+  onPauseOnModalsChange,
+  onEvalBarInTimedChange,
+}) => {
+  const [showCustom, setShowCustom] = useState(false);
+  const [custom, setCustom] = useState({ minutes: 10, bonusSeconds: 5, bonusType: 'increment' as TimeBonusType });
+
+  const selected = showCustom ? 'custom' : presetId(timeControl);
+
+  const handleSelect = (id: string) => {
+    if (id === 'custom') {
+      setShowCustom(true);
+      return;
+    }
+    setShowCustom(false);
+    onTimeControlChange(id === 'untimed' ? null : TIME_CONTROL_PRESETS.find(p => p.id === id)!.timeControl);
+  };
+
+  const applyCustom = () => {
+    onTimeControlChange({
+      baseMs: Math.max(1, custom.minutes) * 60 * 1000,
+      bonusMs: Math.max(0, custom.bonusSeconds) * 1000,
+      bonusType: custom.bonusType,
+    });
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-white">
+      <div className="flex items-center gap-2">
+        <select value={selected} onChange={(e) => handleSelect(e.target.value)} className={`${selectClass} flex-1`} title="Time Control">
+          <option value="untimed" className="bg-slate-900">Untimed</option>
+          {TIME_CONTROL_PRESETS.map(p => (
+            <option key={p.id} value={p.id} className="bg-slate-900">{p.label}</option>
+          ))}
+          <option value="custom" className="bg-slate-900">
+            {selected === 'custom' && timeControl ? `Custom ${formatTimeControl(timeControl)}` : 'Custom…'}
+          </option>
+        </select>
+        {timeControl && (
+          <label className="flex items-center gap-1.5 text-[11px] text-gray-300" title="Pause the clocks while the hint or game-over dialog is open">
+            <input type="checkbox" checked={pauseOnModals} onChange={(e) => onPauseOnModalsChange(e.target.checked)} className="accent-blue-500" />
+            Pause in dialogs
+          </label>
+        )}
+        {timeControl && (
+          <label className="flex items-center gap-1.5 text-[11px] text-gray-300" title="The evaluation bar is off in timed games unless enabled here">
+            <input type="checkbox" checked={evalBarInTimed} onChange={(e) => onEvalBarInTimedChange(e.target.checked)} className="accent-blue-500" />
+            Eval bar
+          </label>
+        )}
+      </div>
+
+      {showCustom && (
+        <div className="flex items-center gap-2 p-2 bg-slate-800/40 rounded-xl border border-white/10 text-xs text-gray-300">
+          <input
+            type="number"
+            min={1}
+            value={custom.minutes}
+            onChange={(e) => setCustom(c => ({ ...c, minutes: parseInt(e.target.value) || 0 }))}
+            className={numberClass}
+            title="Base time (minutes)"
+          />
+          <span>min</span>
+          <input
+            type="number"
+            min={0}
+            value={custom.bonusSeconds}
+            onChange={(e) => setCustom(c => ({ ...c, bonusSeconds: parseInt(e.target.value) || 0 }))}
+            className={numberClass}
+            title="Bonus (seconds)"
+          />
+          <select
+            value={custom.bonusType}
+            onChange={(e) => setCustom(c => ({ ...c, bonusType: e.target.value as TimeBonusType }))}
+            className={selectClass}
+          >
+            <option value="increment" className="bg-slate-900">s increment</option>
+            <option value="delay" className="bg-slate-900">s delay</option>
+          </select>
+          <button onClick={applyCustom} className="px-2.5 py-1 rounded-lg bg-blue-500/80 text-white font-semibold hover:bg-blue-500">
+            Set
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeControlPanel;
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+// Scripted stand-in for a UCI engine, for trying the bridge without a real
+// engine installed:
+//
+//   npm run uci-bridge -- node server/fake-uci-engine.js
+//
+// It answers the handshake, tracks `position` with chess.js and replies to
+// `go` with a few `info` lines and a `bestmove`. Environment:
+//   FAKE_UCI_MOVES  comma-separated UCI moves to play whenever one of them is
+//                   legal (e.g. "e7e5,g8f6"); otherwise the first legal move
+//   FAKE_UCI_DELAY  milliseconds before answering `go` (default 100, capped
+//                   by movetime)
+
+import { createInterface } from 'readline';
+import { Chess } from 'chess.js';
+
+const SCRIPTED = (process.env.FAKE_UCI_MOVES ?? '').split(',').map(m => m.trim()).filter(Boolean);
+const DELAY_MS = Number(process.env.FAKE_UCI_DELAY ?? 100);
+const VALUES = { p: 100, n: 300, b: 300, r: 500, q: 900, k: 0 };
+
+let chess = new Chess();
+let pending = null;   // { timer, finish } while a `go` is running
+
+const out = (line) => process.stdout.write(`${line}\n`);
+const uci = (move) => `${move.from}${move.to}${move.promotion ?? ''}`;
+
+// Material balance from the side to move's point of view
+const material = () => chess.board().flat().reduce((sum, piece) =>
+  piece ? sum + (piece.color === chess.turn() ? 1 : -1) * VALUES[piece.type] : sum, 0);
+
+const setPosition = (tokens) => {
+  const movesAt = tokens.indexOf('moves');
+  const fen = tokens[1] === 'startpos'
+    ? undefined
+    : tokens.slice(2, movesAt === -1 ? undefined : movesAt).join(' ');
+  chess = new Chess(fen);
+  if (movesAt !== -1) {
+    for (const move of tokens.slice(movesAt + 1)) chess.move(move);
+  }
+};
+
+const go = (tokens) => {
+  const moves = chess.moves({ verbose: true });
+  const movetime = tokens.includes('movetime') ? Number(tokens[tokens.indexOf('movetime') + 1]) : Infinity;
+  const choice = moves.find(m => SCRIPTED.includes(uci(m))) ?? moves[0];
+
+  const finish = () => {
+    clearTimeout(pending?.timer);
+    pending = null;
+    if (!choice) {
+      out(chess.inCheck() ? 'info depth 0 score mate 0' : 'info depth 0 score cp 0');
+      out('bestmove (none)');
+      return;
+    }
+    chess.move(choice);
+    const mate = chess.isCheckmate();
+    chess.undo();
+    for (let depth = 1; depth <= 3; depth++) {
+      const score = mate ? 'mate 1' : `cp ${material()}`;
+      out(`info depth ${depth} score ${score} nodes ${depth * moves.length} pv ${uci(choice)}`);
+    }
+    out(`bestmove ${uci(choice)}`);
+  };
+
+  pending = { timer: setTimeout(finish, Math.min(DELAY_MS, movetime)), finish };
+};
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const tokens = line.trim().split(/\s+/);
+  switch (tokens[0]) {
+    case 'uci':
+      out('id name Fake UCI Engine');
+      out('id author gemini-chess-3d');
+      out('uciok');
+      break;
+    case 'isready':
+      out('readyok');
+      break;
+    case 'ucinewgame':
+      chess = new Chess();
+      break;
+    case 'position':
+      setPosition(tokens);
+      break;
+    case 'go':
+      go(tokens);
+      break;
+    case 'stop':
+      pending?.finish();
+      break;
+    case 'quit':
+      process.exit(0);
+  }
+});
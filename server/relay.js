@@ -0,0 +1,171 @@
+// Minimal WebSocket relay for online two-player games.
+//
+//   npm run relay            (listens on ws://localhost:8787)
+//   PORT=9000 npm run relay
+//
+// Rooms live in memory. Each room keeps the authoritative move list, checks
+// every move with chess.js before relaying it, and hands seats back to a
+// client that reconnects with the same client id. Message shapes are
+// documented in services/onlineProtocol.ts.
+
+import { WebSocketServer } from 'ws';
+import { Chess } from 'chess.js';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const EMPTY_ROOM_TTL_MS = 30 * 60 * 1000;
+const MAX_CLIENT_ID_LENGTH = 64;
+
+/** @type {Map<string, { code: string, startFen: string, chess: Chess, seats: { w: string | null, b: string | null }, sockets: Map<import('ws').WebSocket, 'w' | 'b'>, emptySince: number | null }>} */
+const rooms = new Map();
+/** The room each socket is seated in */
+const roomOf = new Map();
+
+const createRoomCode = () => {
+  let code;
+  do {
+    code = Array.from({ length: 6 }, () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const connectedSeats = (room) => {
+  const seats = [...room.sockets.values()];
+  return { w: seats.includes('w'), b: seats.includes('b') };
+};
+
+const roomState = (room) => ({
+  room: room.code,
+  startFen: room.startFen,
+  moves: room.chess.history(),
+  connected: connectedSeats(room),
+});
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, message) => room.sockets.forEach((_, socket) => send(socket, message));
+
+const seat = (room, socket, color) => {
+  room.sockets.set(socket, color);
+  roomOf.set(socket, room);
+  room.emptySince = null;
+  send(socket, { type: 'joined', color, state: roomState(room) });
+  broadcast(room, { type: 'presence', connected: connectedSeats(room) });
+};
+
+// Takes the socket out of the room it is seated in, if any
+const leave = (socket) => {
+  const room = roomOf.get(socket);
+  if (!room) return;
+  roomOf.delete(socket);
+  room.sockets.delete(socket);
+  if (room.sockets.size === 0) room.emptySince = Date.now();
+  broadcast(room, { type: 'presence', connected: connectedSeats(room) });
+};
+
+// Parsed JSON may be anything; messages are objects with a string type
+const isMessage = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.type === 'string';
+
+// Seats are reclaimed by client id, so a missing one must not match another
+const isClientId = (value) => typeof value === 'string' && value.length > 0 && value.length <= MAX_CLIENT_ID_LENGTH;
+
+const handleMessage = (socket, message) => {
+  const current = roomOf.get(socket);
+
+  if ((message.type === 'create' || message.type === 'join') && !isClientId(message.clientId)) {
+    return send(socket, { type: 'error', message: 'A client id is needed to take a seat.' });
+  }
+
+  switch (message.type) {
+    case 'create': {
+      leave(socket);
+      const color = message.color === 'b' ? 'b' : 'w';
+      const chess = new Chess();
+      const room = { code: createRoomCode(), startFen: chess.fen(), chess, seats: { w: null, b: null }, sockets: new Map(), emptySince: null };
+      room.seats[color] = message.clientId;
+      rooms.set(room.code, room);
+      seat(room, socket, color);
+      console.log(`Room ${room.code} created`);
+      return;
+    }
+
+    case 'join': {
+      const room = rooms.get(String(message.room).toUpperCase());
+      if (!room) return send(socket, { type: 'error', message: `No game with code ${message.room}.` });
+
+      // A returning client gets its old seat back; a newcomer takes the free one
+      const returning = ['w', 'b'].find(c => room.seats[c] === message.clientId);
+      const free = ['w', 'b'].find(c => room.seats[c] === null);
+      const color = returning ?? free;
+      if (!color) return send(socket, { type: 'error', message: 'This game already has two players.' });
+
+      if (current !== room) leave(socket);
+      room.seats[color] = message.clientId;
+      // Drop a stale socket still holding the seat
+      room.sockets.forEach((c, s) => { if (c === color && s !== socket) { room.sockets.delete(s); roomOf.delete(s); s.close(); } });
+      seat(room, socket, color);
+      return;
+    }
+
+    case 'move': {
+      if (!current) return send(socket, { type: 'error', message: 'Join a game first.' });
+      const color = current.sockets.get(socket);
+      const { chess } = current;
+
+      if (message.ply !== chess.history().length || chess.turn() !== color || chess.isGameOver()) {
+        return send(socket, { type: 'sync', state: roomState(current) });
+      }
+      let move;
+      try {
+        move = chess.move(message.move);
+      } catch {
+        return send(socket, { type: 'sync', state: roomState(current) });
+      }
+      broadcast(current, { type: 'move', ply: message.ply, san: move.san });
+      return;
+    }
+
+    case 'sync-request':
+      if (current) send(socket, { type: 'sync', state: roomState(current) });
+      return;
+
+    default:
+      send(socket, { type: 'error', message: `Unknown message type "${message.type}".` });
+  }
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return send(socket, { type: 'error', message: 'Malformed message.' });
+    }
+    if (!isMessage(message)) return send(socket, { type: 'error', message: 'Malformed message.' });
+    // One bad message must not take every room down with the process
+    try {
+      handleMessage(socket, message);
+    } catch (e) {
+      console.error('Message Error:', e);
+      send(socket, { type: 'error', message: 'Could not handle this message.' });
+    }
+  });
+
+  socket.on('close', () => leave(socket));
+});
+
+// Forget rooms nobody has been in for a while
+setInterval(() => {
+  const now = Date.now();
+  rooms.forEach((room, code) => {
+    if (room.emptySince !== null && now - room.emptySince > EMPTY_ROOM_TTL_MS) rooms.delete(code);
+  });
+}, 60 * 1000).unref();
+
+console.log(`Chess relay listening on ws://localhost:${PORT}`);
@@ -0,0 +1,182 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import WebSocket from 'ws';
+
+// Runs the relay and talks to it the way services/onlineClient.ts does.
+
+const PORT = 18787;
+const serverDir = fileURLToPath(new URL('.', import.meta.url));
+
+let relay;
+
+// Collects the relay's messages so tests can wait for the one they expect
+const connect = () => new Promise((resolve, reject) => {
+  const socket = new WebSocket(`ws://localhost:${PORT}`);
+  const messages = [];
+  const waiting = [];
+  let read = 0;   // Messages before this one were already waited for
+  const closed = new Promise(resolve => socket.on('close', resolve));
+  socket.on('message', (data) => {
+    const message = JSON.parse(String(data));
+    messages.push(message);
+    waiting.slice().forEach(w => {
+      if (!w.match(message)) return;
+      waiting.splice(waiting.indexOf(w), 1);
+      read = messages.length;
+      w.resolve(message);
+    });
+  });
+  socket.on('error', reject);
+  socket.on('open', () => resolve({
+    messages,
+    closed,
+    send: (message) => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    // Waits for a message after the last one waited for
+    next: (match) => new Promise(resolve => {
+      const index = messages.findIndex((m, i) => i >= read && match(m));
+      if (index === -1) return waiting.push({ match, resolve });
+      read = index + 1;
+      resolve(messages[index]);
+    }),
+    close: () => socket.close(),
+  }));
+});
+
+const createRoom = async (clientId, color = 'w') => {
+  const client = await connect();
+  client.send({ type: 'create', clientId, color });
+  const joined = await client.next(m => m.type === 'joined');
+  return { client, joined };
+};
+
+beforeAll(async () => {
+  relay = spawn(process.execPath, ['relay.js'], {
+    cwd: serverDir,
+    env: { ...process.env, PORT: String(PORT) },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise((resolve, reject) => {
+    relay.stdout.on('data', (data) => { if (String(data).includes('listening')) resolve(); });
+    relay.on('exit', (code) => reject(new Error(`Relay exited with code ${code}`)));
+  });
+});
+
+afterAll(() => {
+  relay?.kill();
+});
+
+describe('relay', () => {
+  it('seats the creator and a joining player on opposite sides', async () => {
+    const { client: white, joined } = await createRoom('alice');
+    expect(joined.color).toBe('w');
+    expect(joined.state.room).toMatch(/^[A-Z0-9]{6}$/);
+    expect(joined.state.moves).toEqual([]);
+
+    const black = await connect();
+    const presence = white.next(m => m.type === 'presence' && m.connected.b);
+    black.send({ type: 'join', clientId: 'bob', room: joined.state.room.toLowerCase() });
+    expect((await black.next(m => m.type === 'joined')).color).toBe('b');
+    expect((await presence).connected).toEqual({ w: true, b: true });
+    white.close();
+    black.close();
+  });
+
+  it('relays legal moves to both players', async () => {
+    const { client: white, joined } = await createRoom('alice');
+    const black = await connect();
+    black.send({ type: 'join', clientId: 'bob', room: joined.state.room });
+    await black.next(m => m.type === 'joined');
+
+    white.send({ type: 'move', ply: 0, move: { from: 'e2', to: 'e4' } });
+    expect(await white.next(m => m.type === 'move')).toEqual({ type: 'move', ply: 0, san: 'e4' });
+    expect((await black.next(m => m.type === 'move')).san).toBe('e4');
+    white.close();
+    black.close();
+  });
+
+  it('gives a returning client its seat back and drops the old socket', async () => {
+    const { client: first, joined } = await createRoom('alice', 'b');
+    const again = await connect();
+    again.send({ type: 'join', clientId: 'alice', room: joined.state.room });
+    expect((await again.next(m => m.type === 'joined')).color).toBe('b');
+    await first.closed;
+    again.close();
+  });
+
+  it('turns away a third player', async () => {
+    const { client: white, joined } = await createRoom('alice');
+    const black = await connect();
+    black.send({ type: 'join', clientId: 'bob', room: joined.state.room });
+    await black.next(m => m.type === 'joined');
+
+    const third = await connect();
+    third.send({ type: 'join', clientId: 'carol', room: joined.state.room });
+    expect((await third.next(m => m.type === 'error')).message).toBe('This game already has two players.');
+    white.close();
+    black.close();
+    third.close();
+  });
+
+  it('needs a client id to take a seat', async () => {
+    const { client: white, joined } = await createRoom('alice');
+    const client = await connect();
+    client.send({ type: 'create', color: 'w' });
+    client.send({ type: 'join', room: joined.state.room });
+    client.send({ type: 'join', clientId: 'x'.repeat(65), room: joined.state.room });
+    client.send({ type: 'sync-request' });
+    await client.next(m => m.type === 'error' && m.message === 'A client id is needed to take a seat.');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(client.messages.filter(m => m.type === 'error')).toHaveLength(3);
+    expect(client.messages.some(m => m.type === 'joined' || m.type === 'sync')).toBe(false);
+    // Only the creator's own seating was announced
+    expect(white.messages.filter(m => m.type === 'presence')).toHaveLength(1);
+    white.close();
+    client.close();
+  });
+
+  it('answers a stale or illegal move with the authoritative state', async () => {
+    const { client: white, joined } = await createRoom('alice');
+    const black = await connect();
+    black.send({ type: 'join', clientId: 'bob', room: joined.state.room });
+    await black.next(m => m.type === 'joined');
+    white.send({ type: 'move', ply: 0, move: { from: 'e2', to: 'e4' } });
+    await black.next(m => m.type === 'move');
+
+    // Black answers as if White had not moved yet
+    black.send({ type: 'move', ply: 0, move: { from: 'e7', to: 'e5' } });
+    expect((await black.next(m => m.type === 'sync')).state.moves).toEqual(['e4']);
+
+    black.send({ type: 'move', ply: 1, move: { from: 'e7', to: 'e4' } });
+    expect((await black.next(m => m.type === 'sync')).state.moves).toEqual(['e4']);
+
+    // White may not move for Black
+    white.send({ type: 'move', ply: 1, move: { from: 'e7', to: 'e5' } });
+    expect((await white.next(m => m.type === 'sync')).state.moves).toEqual(['e4']);
+    expect(black.messages.filter(m => m.type === 'move')).toHaveLength(1);
+    white.close();
+    black.close();
+  });
+
+  it('moves a socket out of its old room when it creates another', async () => {
+    const { client: white, joined } = await createRoom('alice');
+    const black = await connect();
+    black.send({ type: 'join', clientId: 'bob', room: joined.state.room });
+    await black.next(m => m.type === 'joined');
+    await white.next(m => m.type === 'presence' && m.connected.b);
+
+    const presence = white.next(m => m.type === 'presence' && !m.connected.b);
+    black.send({ type: 'create', clientId: 'bob', color: 'w' });
+    const second = await black.next(m => m.type === 'joined');
+    expect(second.state.room).not.toBe(joined.state.room);
+    expect((await presence).connected).toEqual({ w: true, b: false });
+
+    // Its moves now go to the new room only
+    black.send({ type: 'move', ply: 0, move: { from: 'd2', to: 'd4' } });
+    expect((await black.next(m => m.type === 'move')).san).toBe('d4');
+    white.send({ type: 'sync-request' });
+    expect((await white.next(m => m.type === 'sync')).state.moves).toEqual([]);
+    white.close();
+    black.close();
+  });
+});
@@ -0,0 +1,168 @@
+// Bridge between the browser and a desktop UCI engine.
+//
+//   npm run uci-bridge -- /usr/local/bin/stockfish          (ws://localhost:8788)
+//   npm run uci-bridge -- node server/fake-uci-engine.js    (scripted fake engine)
+//   PORT=9000 npm run uci-bridge -- ...
+//
+// Every WebSocket connection gets its own engine process, so the opponent and
+// the analysis tools never share search state. Searches from one connection
+// run one at a time in the order they arrive. Set UCI_DEBUG=1 to log the
+// UCI traffic. Message shapes are documented in services/uciProtocol.ts.
+
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { WebSocketServer } from 'ws';
+import { isChess960Fen, parseBestMove, parseInfo, positionCommand } from './uci.js';
+
+const PORT = Number(process.env.PORT) || 8788;
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+const DEBUG = !!process.env.UCI_DEBUG;
+const [command, ...args] = process.argv.slice(2);
+
+if (!command) {
+  console.error('Usage: node server/uci-bridge.js <engine executable> [engine args...]');
+  process.exit(1);
+}
+
+// Parsed JSON may be anything; messages are objects with a string type
+const isMessage = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.type === 'string';
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const connect = (socket) => {
+  const engine = spawn(command, args, { stdio: ['pipe', 'pipe', 'inherit'] });
+  let name = command;
+  let phase = 'handshake';   // handshake -> idle -> syncing -> searching -> idle ...
+  let current = null;        // { id, fen, moves, movetimeMs, stopped }
+  let chess960 = false;      // UCI_Chess960 as last set
+  const queue = [];
+
+  const write = (line) => {
+    if (DEBUG) console.log(`> ${line}`);
+    if (engine.stdin.writable) engine.stdin.write(`${line}\n`);
+  };
+
+  // Syncs with `isready` after setting the position, so `go` never races a
+  // slow engine still busy with the previous search
+  const next = () => {
+    if (phase !== 'idle' || queue.length === 0) return;
+    current = queue.shift();
+    phase = 'syncing';
+    // The start position decides the castling notation of the whole line
+    if (isChess960Fen(current.fen) !== chess960) {
+      chess960 = !chess960;
+      write(`setoption name UCI_Chess960 value ${chess960}`);
+    }
+    write(positionCommand(current.fen, current.moves));
+    write('isready');
+  };
+
+  const handleLine = (line) => {
+    if (DEBUG) console.log(`< ${line}`);
+
+    if (line.startsWith('id name ')) {
+      name = line.slice('id name '.length).trim();
+    } else if (line === 'uciok') {
+      write('ucinewgame');
+      write('isready');
+    } else if (line === 'readyok') {
+      if (phase === 'handshake') {
+        phase = 'idle';
+        send(socket, { type: 'ready', name });
+        console.log(`Engine ready: ${name}`);
+        next();
+      } else if (phase === 'syncing') {
+        if (current.stopped) {
+          phase = 'idle';
+          current = null;
+          next();
+        } else {
+          phase = 'searching';
+          write(`go movetime ${Math.max(1, Math.round(current.movetimeMs))}`);
+        }
+      }
+    } else if (phase === 'searching') {
+      const info = parseInfo(line);
+      // Only the main line is forwarded when the engine runs MultiPV
+      if (info && info.multipv === 1 && !current.stopped) {
+        send(socket, { type: 'info', id: current.id, info: { depth: info.depth, score: info.score, nodes: info.nodes, pv: info.pv } });
+      }
+      const best = parseBestMove(line);
+      if (best) {
+        send(socket, { type: 'bestmove', id: current.id, move: best.move });
+        phase = 'idle';
+        current = null;
+        next();
+      }
+    }
+  };
+
+  createInterface({ input: engine.stdout }).on('line', handleLine);
+  write('uci');
+
+  engine.on('error', (e) => {
+    send(socket, { type: 'error', message: `Could not start engine "${command}": ${e.message}` });
+    socket.close();
+  });
+  engine.on('exit', (code) => {
+    if (socket.readyState !== socket.OPEN) return;
+    send(socket, { type: 'error', message: `Engine exited unexpectedly (code ${code}).` });
+    socket.close();
+  });
+
+  // Errors carry the id of the search they fail, so the client rejects only that one
+  const sendError = (message, text) =>
+    send(socket, { type: 'error', id: typeof message.id === 'number' ? message.id : undefined, message: text });
+
+  const handleMessage = (message) => {
+    if (message.type === 'search') {
+      // A line break would let the FEN smuggle in engine commands
+      if (typeof message.fen !== 'string' || /[\r\n]/.test(message.fen)) return sendError(message, 'A search needs a FEN.');
+      const moves = message.moves ?? [];
+      if (!Array.isArray(moves) || !moves.every(m => typeof m === 'string' && UCI_MOVE.test(m))) {
+        return sendError(message, 'Search moves must be in UCI notation.');
+      }
+      queue.push({ id: message.id, fen: message.fen, moves, movetimeMs: Number(message.movetimeMs) || 1000, stopped: false });
+      next();
+    } else if (message.type === 'stop') {
+      queue.length = 0;
+      if (current) {
+        current.stopped = true;
+        if (phase === 'searching') write('stop');
+      }
+    } else {
+      sendError(message, `Unknown message type "${message.type}".`);
+    }
+  };
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return send(socket, { type: 'error', message: 'Malformed message.' });
+    }
+    if (!isMessage(message)) return send(socket, { type: 'error', message: 'Malformed message.' });
+
+    // One bad message must not take the engines of every connection down
+    try {
+      handleMessage(message);
+    } catch (e) {
+      console.error('Message Error:', e);
+      sendError(message, 'Could not handle this message.');
+    }
+  });
+
+  socket.on('close', () => {
+    write('quit');
+    setTimeout(() => engine.kill(), 1000).unref();
+  });
+};
+
+const wss = new WebSocketServer({ port: PORT });
+wss.on('connection', connect);
+
+console.log(`UCI bridge for "${[command, ...args].join(' ')}" listening on ws://localhost:${PORT}`);
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import WebSocket from 'ws';
+
+// Runs the bridge against the scripted fake engine and talks to it the way
+// services/uciEngineClient.ts does.
+
+const PORT = 18788;
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const serverDir = fileURLToPath(new URL('.', import.meta.url));
+
+let bridge;
+
+// Collects the bridge's messages so tests can wait for the one they expect
+const connect = () => new Promise((resolve, reject) => {
+  const socket = new WebSocket(`ws://localhost:${PORT}`);
+  const messages = [];
+  const waiting = [];
+  socket.on('message', (data) => {
+    const message = JSON.parse(String(data));
+    messages.push(message);
+    waiting.slice().forEach(w => {
+      if (!w.match(message)) return;
+      waiting.splice(waiting.indexOf(w), 1);
+      w.resolve(message);
+    });
+  });
+  socket.on('error', reject);
+  socket.on('open', () => resolve({
+    messages,
+    send: (message) => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    next: (match) => new Promise(resolve => {
+      const seen = messages.find(match);
+      if (seen) resolve(seen);
+      else waiting.push({ match, resolve });
+    }),
+    close: () => socket.close(),
+  }));
+});
+
+beforeAll(async () => {
+  bridge = spawn(process.execPath, ['uci-bridge.js', process.execPath, 'fake-uci-engine.js'], {
+    cwd: serverDir,
+    env: { ...process.env, PORT: String(PORT), FAKE_UCI_MOVES: 'e7e5', FAKE_UCI_DELAY: '5000' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise((resolve, reject) => {
+    bridge.stdout.on('data', (data) => { if (String(data).includes('listening')) resolve(); });
+    bridge.on('exit', (code) => reject(new Error(`Bridge exited with code ${code}`)));
+  });
+});
+
+afterAll(() => {
+  bridge?.kill();
+});
+
+describe('uci-bridge', () => {
+  it('answers a search with info lines and a best move', async () => {
+    const client = await connect();
+    expect((await client.next(m => m.type === 'ready')).name).toBe('Fake UCI Engine');
+
+    client.send({ type: 'search', id: 1, fen: START, movetimeMs: 50 });
+    const best = await client.next(m => m.type === 'bestmove' && m.id === 1);
+    const infos = client.messages.filter(m => m.type === 'info' && m.id === 1);
+    expect(infos.map(m => m.info.depth)).toEqual([1, 2, 3]);
+    expect(infos[0].info.pv).toEqual([best.move]);
+    expect(best.move).toBe('a2a3');   // The scripted e7e5 is not White's; the first legal move is played
+    client.close();
+  });
+
+  it('searches the position after the moves from the start position', async () => {
+    const client = await connect();
+    client.send({ type: 'search', id: 1, fen: START, moves: ['e2e4'], movetimeMs: 50 });
+    expect((await client.next(m => m.type === 'bestmove')).move).toBe('e7e5');
+    client.close();
+  });
+
+  it('cuts a running search short on stop', async () => {
+    const client = await connect();
+    await client.next(m => m.type === 'ready');
+    client.send({ type: 'search', id: 1, fen: START, moves: ['e2e4'], movetimeMs: 60000 });
+    // The fake engine answers after FAKE_UCI_DELAY (5s) unless stopped first
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const stoppedAt = Date.now();
+    client.send({ type: 'stop' });
+    const best = await client.next(m => m.type === 'bestmove' && m.id === 1);
+    expect(Date.now() - stoppedAt).toBeLessThan(2000);
+    expect(best.move).toBe('e7e5');
+    // Lines from a stopped search are not forwarded
+    expect(client.messages.some(m => m.type === 'info')).toBe(false);
+    client.close();
+  });
+
+  it('answers the next search after one stopped before it started', async () => {
+    const client = await connect();
+    await client.next(m => m.type === 'ready');
+    client.send({ type: 'search', id: 1, fen: START, movetimeMs: 50 });
+    client.send({ type: 'stop' });
+    client.send({ type: 'search', id: 2, fen: START, moves: ['e2e4'], movetimeMs: 50 });
+    expect((await client.next(m => m.type === 'bestmove' && m.id === 2)).move).toBe('e7e5');
+    // The stopped search is dropped, or cut short when it had already begun
+    expect(client.messages.some(m => m.type === 'info' && m.id === 1)).toBe(false);
+    client.close();
+  });
+
+  it('rejects malformed messages and keeps running', async () => {
+    const client = await connect();
+    client.send('null');
+    client.send('not json');
+    client.send({ type: 'search', id: 1, fen: START, moves: ['e2e4; quit'] });
+    client.send({ type: 'search', id: 2, fen: `${START}\nquit` });
+    client.send({ type: 'castle' });
+    await client.next(m => m.type === 'error' && m.message.startsWith('Unknown message type'));
+    const errors = client.messages.filter(m => m.type === 'error');
+    expect(errors).toHaveLength(5);
+    // Errors name the search they reject
+    expect(errors.map(m => m.id)).toEqual([undefined, undefined, 1, 2, undefined]);
+
+    client.send({ type: 'search', id: 3, fen: START, movetimeMs: 50 });
+    expect((await client.next(m => m.type === 'bestmove' && m.id === 3)).move).toBe('a2a3');
+    client.close();
+  });
+});
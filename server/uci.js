@@ -0,0 +1,58 @@
+// UCI line helpers shared by the bridge and the fake engine.
+
+// `position` command for a FEN plus the UCI moves played from it
+export const positionCommand = (fen, moves = []) =>
+  `position fen ${fen}${moves.length ? ` moves ${moves.join(' ')}` : ''}`;
+
+// Chess960 positions carry rook files in the castling field (Shredder-FEN,
+// e.g. "HBhb"); engines need UCI_Chess960 to read them and castle
+export const isChess960Fen = (fen) => /[a-h]/i.test(fen.split(/\s+/)[2] ?? '');
+
+// Parses an `info` line; returns null for lines without a scored line
+// (currmove updates, strings, hashfull, ...).
+// info depth 12 seldepth 18 multipv 1 score cp 31 nodes 81234 nps 900000 pv e2e4 e7e5
+export const parseInfo = (line) => {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info') return null;
+
+  const info = { depth: 0, score: null, nodes: 0, pv: [], multipv: 1 };
+  for (let i = 1; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case 'depth':
+        info.depth = Number(tokens[++i]);
+        break;
+      case 'nodes':
+        info.nodes = Number(tokens[++i]);
+        break;
+      case 'multipv':
+        info.multipv = Number(tokens[++i]);
+        break;
+      case 'score': {
+        const kind = tokens[++i];
+        const value = Number(tokens[++i]);
+        // Skip "lowerbound"/"upperbound" qualifiers
+        while (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') i++;
+        if (kind === 'cp') info.score = { cp: value };
+        else if (kind === 'mate') info.score = { mate: value };
+        break;
+      }
+      case 'pv':
+        info.pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+      case 'string':
+        i = tokens.length;
+        break;
+    }
+  }
+  return info.score ? info : null;
+};
+
+// bestmove e2e4 ponder e7e5  ->  { move: 'e2e4', ponder: 'e7e5' }
+// "bestmove (none)" and "bestmove 0000" mean there is no legal move.
+export const parseBestMove = (line) => {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'bestmove') return null;
+  const move = tokens[1] && tokens[1] !== '(none)' && tokens[1] !== '0000' ? tokens[1] : null;
+  return { move, ponder: tokens[2] === 'ponder' ? tokens[3] ?? null : null };
+};
@@ -0,0 +1,123 @@
+import { Color, Move } from 'chess.js';
+import { EngineMove, EngineResult, EngineSettings } from './engine';
+import { createChess } from './variants';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+// Depth and time per position; a 40-move game takes well under a minute
+export const ANALYSIS_SETTINGS: Pick<EngineSettings, 'depth' | 'timeMs' | 'noise'> = { depth: 3, timeMs: 600, noise: 0 };
+
+// Centipawn loss at which a move drops to each class
+const THRESHOLDS: [number, MoveClassification][] = [
+  [300, 'blunder'],
+  [100, 'mistake'],
+  [50, 'inaccuracy'],
+];
+
+// Evaluations are clamped so a missed mate costs a bounded number of points
+const EVAL_CAP = 1000;
+const MATE_CP = 10000;
+
+export interface PositionEval {
+  score: number;                 // Centipawns from White's point of view; mate in N is ±(MATE_CP - 10N)
+  bestMove: EngineMove | null;   // Engine's choice in this position
+}
+
+export interface AnalyzedMove {
+  ply: number;                   // 1-based half-move number (position after the move)
+  san: string;
+  color: Color;
+  loss: number;                  // Centipawns lost against the engine's best move
+  classification: MoveClassification;
+  bestMove: EngineMove | null;   // Better move when the played one was not best
+}
+
+export interface GameAnalysis {
+  positions: PositionEval[];     // One per position, starting position first
+  moves: AnalyzedMove[];
+  accuracy: Record<Color, number>;
+}
+
+export const classifyLoss = (loss: number): MoveClassification => {
+  const match = THRESHOLDS.find(([min]) => loss >= min);
+  return match ? match[1] : 'good';
+};
+
+// Lichess-style expected score (0-100) for White from a centipawn evaluation
+export const winPercent = (cp: number) => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+
+// Per-move accuracy from the drop in the mover's winning chances
+const moveAccuracy = (winBefore: number, winAfter: number) =>
+  Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * Math.max(0, winBefore - winAfter)) - 3.1669));
+
+// Converts an engine result (side to move's point of view) to White's point of view
+export const toPositionEval = (result: EngineResult, turn: Color): PositionEval => {
+  const sign = turn === 'w' ? 1 : -1;
+  if (result.mate !== null) {
+    // Mate 0 means the side to move is already mated
+    const winner = result.mate > 0 ? 1 : -1;
+    return { score: sign * winner * (MATE_CP - Math.abs(result.mate) * 10), bestMove: result.move };
+  }
+  return { score: sign * result.score, bestMove: result.move };
+};
+
+// Moves to mate (positive when White mates), or null for a normal evaluation
+export const mateIn = (score: number): number | null =>
+  Math.abs(score) > MATE_CP - 1000 ? Math.sign(score) * Math.round((MATE_CP - Math.abs(score)) / 10) : null;
+
+const clampEval = (score: number) => Math.max(-EVAL_CAP, Math.min(EVAL_CAP, score));
+
+export const formatEval = (score: number): string => {
+  const mate = mateIn(score);
+  if (mate !== null) return mate === 0 ? '#' : `${score < 0 ? '-' : ''}M${Math.abs(mate)}`;
+  const pawns = score / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+};
+
+// Evaluates every position of the game, then scores each move by how much it
+// lost against the engine's choice. `evaluate` is called once per position in
+// order; `onProgress` receives the number of positions done so far.
+export const analyzeGame = async (
+  startFen: string,
+  history: Move[],
+  evaluate: (fen: string) => Promise<EngineResult>,
+  onProgress?: (done: number, total: number) => void
+): Promise<GameAnalysis> => {
+  const fens = [startFen, ...history.map(m => m.after)];
+  const positions: PositionEval[] = [];
+
+  for (const fen of fens) {
+    const chess = createChess(fen);
+    if (chess.isGameOver() && !chess.isCheckmate()) {
+      positions.push({ score: 0, bestMove: null });
+    } else {
+      positions.push(toPositionEval(await evaluate(fen), chess.turn()));
+    }
+    onProgress?.(positions.length, fens.length);
+  }
+
+  const accuracies: Record<Color, number[]> = { w: [], b: [] };
+  const moves = history.map((move, i): AnalyzedMove => {
+    const sign = move.color === 'w' ? 1 : -1;
+    const before = positions[i];
+    const after = positions[i + 1];
+    const isBest = before.bestMove?.san === move.san;
+    const loss = isBest ? 0 : Math.max(0, sign * (clampEval(before.score) - clampEval(after.score)));
+
+    const winBefore = winPercent(sign * clampEval(before.score));
+    const winAfter = winPercent(sign * clampEval(after.score));
+    accuracies[move.color].push(isBest ? 100 : moveAccuracy(winBefore, winAfter));
+
+    return {
+      ply: i + 1,
+      san: move.san,
+      color: move.color,
+      loss: Math.round(loss),
+      classification: isBest || loss < 10 ? 'best' : classifyLoss(loss),
+      bestMove: isBest ? null : before.bestMove,
+    };
+  });
+
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 100;
+  return { positions, moves, accuracy: { w: mean(accuracies.w), b: mean(accuracies.b) } };
+};
@@ -0,0 +1,46 @@
+import { Color, Move, PieceSymbol, Square } from 'chess.js';
+import { GameStatus } from '../types';
+
+// Plain-language descriptions for the screen-reader live region
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king',
+};
+
+const sideName = (color: Color) => color === 'w' ? 'White' : 'Black';
+
+export const describeSquare = (square: Square, piece: { type: PieceSymbol, color: Color } | null) =>
+  piece ? `${square}, ${sideName(piece.color)} ${PIECE_NAMES[piece.type]}` : `${square}, empty`;
+
+// "White knight g1 to f3." / "Black pawn on e5 takes knight on d4. Check."
+export const describeMove = (move: Move): string => {
+  const side = sideName(move.color);
+  let text: string;
+  if (move.isKingsideCastle()) text = `${side} castles kingside`;
+  else if (move.isQueensideCastle()) text = `${side} castles queenside`;
+  else if (move.captured) {
+    text = `${side} ${PIECE_NAMES[move.piece]} on ${move.from} takes ${PIECE_NAMES[move.captured]} on ${move.to}`;
+    if (move.isEnPassant()) text += ' en passant';
+  } else {
+    text = `${side} ${PIECE_NAMES[move.piece]} ${move.from} to ${move.to}`;
+  }
+  if (move.promotion) text += `, promotes to ${PIECE_NAMES[move.promotion]}`;
+
+  if (move.san.endsWith('#')) text += '. Checkmate';
+  else if (move.san.endsWith('+')) text += '. Check';
+  return `${text}.`;
+};
+
+// `turn` is the side to move when the game ended
+export const describeResult = (status: GameStatus, turn: Color): string | null => {
+  const opponent = sideName(turn === 'w' ? 'b' : 'w');
+  switch (status) {
+    case GameStatus.CHECKMATE: return `Game over. ${opponent} wins by checkmate.`;
+    case GameStatus.TIMEOUT: return `Game over. ${opponent} wins on time.`;
+    case GameStatus.ELIMINATED: return `Game over. ${opponent} wins by capturing every ${sideName(turn)} piece.`;
+    case GameStatus.TIMEOUT_DRAW: return `Game over. ${sideName(turn)} ran out of time, but ${opponent} cannot checkmate. Draw.`;
+    case GameStatus.STALEMATE: return 'Game over. Stalemate, the game is a draw.';
+    case GameStatus.DRAW: return 'Game over. The game is a draw.';
+    default: return null;
+  }
+};
@@ -0,0 +1,203 @@
+import { Chess, Color, PieceSymbol, Square, SQUARES, validateFen } from 'chess.js';
+
+export type BoardPlacement = Partial<Record<Square, { type: PieceSymbol, color: Color }>>;
+
+export interface CastlingRights {
+  wK: boolean;
+  wQ: boolean;
+  bK: boolean;
+  bQ: boolean;
+}
+
+export interface EditorPosition {
+  placement: BoardPlacement;
+  turn: Color;
+  castling: CastlingRights;
+  enPassant: Square | null;
+}
+
+// A palette piece to place, the eraser, or plain dragging
+export type EditorTool = { type: PieceSymbol, color: Color } | 'erase' | 'move';
+
+export class FenParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FenParseError';
+  }
+}
+
+const COLOR_NAME: Record<Color, string> = { w: 'White', b: 'Black' };
+
+// --- FEN Conversion ---
+
+export const fenToPosition = (fen: string): EditorPosition => {
+  const [placementField, turnField = 'w', castlingField = '-', epField = '-'] = fen.trim().split(/\s+/);
+  const ranks = (placementField || '').split('/');
+  if (ranks.length !== 8) {
+    throw new FenParseError('The piece placement must have 8 ranks separated by "/".');
+  }
+
+  const placement: BoardPlacement = {};
+  ranks.forEach((rankText, i) => {
+    const rank = 8 - i;
+    let file = 0;
+    for (const char of rankText) {
+      if (/[1-8]/.test(char)) {
+        file += parseInt(char);
+      } else if (/[pnbrqk]/i.test(char)) {
+        if (file < 8) {
+          placement[`${String.fromCharCode(97 + file)}${rank}` as Square] = {
+            type: char.toLowerCase() as PieceSymbol,
+            color: char === char.toUpperCase() ? 'w' : 'b',
+          };
+        }
+        file++;
+      } else {
+        throw new FenParseError(`Unknown piece "${char}" on rank ${rank}.`);
+      }
+    }
+    if (file !== 8) {
+      throw new FenParseError(`Rank ${rank} describes ${file} squares instead of 8.`);
+    }
+  });
+
+  if (turnField !== 'w' && turnField !== 'b') {
+    throw new FenParseError('The side to move must be "w" or "b".');
+  }
+
+  return {
+    placement,
+    turn: turnField,
+    castling: {
+      wK: castlingField.includes('K'),
+      wQ: castlingField.includes('Q'),
+      bK: castlingField.includes('k'),
+      bQ: castlingField.includes('q'),
+    },
+    enPassant: /^[a-h][36]$/.test(epField) ? epField as Square : null,
+  };
+};
+
+export const positionToFen = (position: EditorPosition): string => {
+  const rows: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = position.placement[`${String.fromCharCode(97 + file)}${rank}` as Square];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) row += empty;
+      empty = 0;
+      row += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    if (empty) row += empty;
+    rows.push(row);
+  }
+
+  const { wK, wQ, bK, bQ } = position.castling;
+  const castling = `${wK ? 'K' : ''}${wQ ? 'Q' : ''}${bK ? 'k' : ''}${bQ ? 'q' : ''}` || '-';
+  return `${rows.join('/')} ${position.turn} ${castling} ${position.enPassant ?? '-'} 0 1`;
+};
+
+// Same 8x8 layout as chess.js board(), so ThreeChess can render the editor position
+export const placementToBoard = (placement: BoardPlacement) => {
+  const board: ({ type: PieceSymbol, color: Color, square: Square } | null)[][] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    const row: ({ type: PieceSymbol, color: Color, square: Square } | null)[] = [];
+    for (let file = 0; file < 8; file++) {
+      const square = `${String.fromCharCode(97 + file)}${rank}` as Square;
+      const piece = placement[square];
+      row.push(piece ? { ...piece, square } : null);
+    }
+    board.push(row);
+  }
+  return board;
+};
+
+export const EMPTY_CASTLING: CastlingRights = { wK: false, wQ: false, bK: false, bQ: false };
+
+// Castling rights that the current king/rook placement still allows
+export const availableCastling = (placement: BoardPlacement): CastlingRights => {
+  const has = (square: Square, type: PieceSymbol, color: Color) =>
+    placement[square]?.type === type && placement[square]?.color === color;
+  return {
+    wK: has('e1', 'k', 'w') && has('h1', 'r', 'w'),
+    wQ: has('e1', 'k', 'w') && has('a1', 'r', 'w'),
+    bK: has('e8', 'k', 'b') && has('h8', 'r', 'b'),
+    bQ: has('e8', 'k', 'b') && has('a8', 'r', 'b'),
+  };
+};
+
+// En passant target squares consistent with a double pawn push by the side
+// that just moved.
+export const enPassantCandidates = (position: EditorPosition): Square[] => {
+  const mover: Color = position.turn === 'w' ? 'b' : 'w';
+  const targetRank = mover === 'b' ? 6 : 3;
+  const pawnRank = mover === 'b' ? 5 : 4;
+  const startRank = mover === 'b' ? 7 : 2;
+  const candidates: Square[] = [];
+  for (let file = 0; file < 8; file++) {
+    const f = String.fromCharCode(97 + file);
+    const pawn = position.placement[`${f}${pawnRank}` as Square];
+    if (pawn?.type === 'p' && pawn.color === mover
+      && !position.placement[`${f}${targetRank}` as Square]
+      && !position.placement[`${f}${startRank}` as Square]) {
+      candidates.push(`${f}${targetRank}` as Square);
+    }
+  }
+  return candidates;
+};
+
+// --- Validation ---
+
+// Returns a specific reason the position cannot be played, or null when
+// chess.js accepts it and the position is reachable enough to play from.
+export const validatePosition = (position: EditorPosition): string | null => {
+  const { placement, turn, castling, enPassant } = position;
+  const pieces = SQUARES.filter(sq => placement[sq]).map(sq => ({ square: sq, ...placement[sq]! }));
+
+  for (const color of ['w', 'b'] as Color[]) {
+    const own = pieces.filter(p => p.color === color);
+    const kings = own.filter(p => p.type === 'k').length;
+    if (kings === 0) return `${COLOR_NAME[color]} has no king.`;
+    if (kings > 1) return `${COLOR_NAME[color]} has ${kings} kings; exactly one is allowed.`;
+    if (own.length > 16) return `${COLOR_NAME[color]} has ${own.length} pieces; at most 16 are possible.`;
+    const pawns = own.filter(p => p.type === 'p').length;
+    if (pawns > 8) return `${COLOR_NAME[color]} has ${pawns} pawns; at most 8 are possible.`;
+  }
+
+  const edgePawn = pieces.find(p => p.type === 'p' && (p.square[1] === '1' || p.square[1] === '8'));
+  if (edgePawn) return `Pawns cannot stand on the first or eighth rank (${edgePawn.square}).`;
+
+  const allowed = availableCastling(placement);
+  const castlingLabels: [keyof CastlingRights, string][] = [
+    ['wK', 'White kingside'], ['wQ', 'White queenside'], ['bK', 'Black kingside'], ['bQ', 'Black queenside'],
+  ];
+  for (const [key, label] of castlingLabels) {
+    if (castling[key] && !allowed[key]) {
+      return `${label} castling needs the king and rook on their starting squares.`;
+    }
+  }
+
+  if (enPassant && !enPassantCandidates(position).includes(enPassant)) {
+    const mover = COLOR_NAME[turn === 'w' ? 'b' : 'w'];
+    return `En passant square ${enPassant} does not match a ${mover} pawn that just advanced two squares.`;
+  }
+
+  const fen = positionToFen(position);
+  const result = validateFen(fen);
+  if (!result.ok) return result.error?.replace(/^Invalid FEN: /, '') ?? 'Invalid position.';
+
+  // The side that just moved cannot have left its own king in check
+  const chess = new Chess(fen, { skipValidation: true });
+  const opponent: Color = turn === 'w' ? 'b' : 'w';
+  const [opponentKing] = chess.findPiece({ type: 'k', color: opponent });
+  if (opponentKing && chess.isAttacked(opponentKing, turn)) {
+    return `${COLOR_NAME[opponent]} is in check but it is ${COLOR_NAME[turn]} to move.`;
+  }
+
+  return null;
+};
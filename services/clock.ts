@@ -0,0 +1,79 @@
+import { Chess, Color, Square } from 'chess.js';
+import { GameStatus, TimeControl } from '../types';
+
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  timeControl: TimeControl;
+}
+
+const minutes = (m: number) => m * 60 * 1000;
+const seconds = (s: number) => s * 1000;
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'bullet', label: 'Bullet 1+0', timeControl: { baseMs: minutes(1), bonusMs: 0, bonusType: 'increment' } },
+  { id: 'blitz', label: 'Blitz 5+3', timeControl: { baseMs: minutes(5), bonusMs: seconds(3), bonusType: 'increment' } },
+  { id: 'rapid', label: 'Rapid 15+10', timeControl: { baseMs: minutes(15), bonusMs: seconds(10), bonusType: 'increment' } },
+  { id: 'classical', label: 'Classical 30+20', timeControl: { baseMs: minutes(30), bonusMs: seconds(20), bonusType: 'increment' } },
+];
+
+export const formatClock = (ms: number): string => {
+  const clamped = Math.max(0, ms);
+  const totalSeconds = Math.floor(clamped / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  // Tenths under ten seconds, where they matter
+  if (clamped < 10000) return `0:0${s}.${Math.floor((clamped % 1000) / 100)}`;
+  const mm = h > 0 ? m.toString().padStart(2, '0') : m.toString();
+  return `${h > 0 ? `${h}:` : ''}${mm}:${s.toString().padStart(2, '0')}`;
+};
+
+export const formatTimeControl = ({ baseMs, bonusMs, bonusType }: TimeControl): string => {
+  const base = baseMs % 60000 === 0 ? `${baseMs / 60000}` : `${Math.round(baseMs / 1000)}s`;
+  const bonus = `${Math.round(bonusMs / 1000)}`;
+  return bonusType === 'delay' ? `${base} d${bonus}` : `${base}+${bonus}`;
+};
+
+// Time the side that just moved gets to keep after a turn of `elapsedMs`
+export const chargeMove = (remainingMs: number, elapsedMs: number, { bonusMs, bonusType }: TimeControl): number => {
+  if (bonusType === 'delay') {
+    // Bronstein: the time used is refunded up to the delay
+    return remainingMs - elapsedMs + Math.min(elapsedMs, bonusMs);
+  }
+  return remainingMs - elapsedMs + bonusMs;
+};
+
+const squareShade = (square: Square) =>
+  (square.charCodeAt(0) - 97 + parseInt(square[1])) % 2;
+
+// Whether `color` could still deliver mate by some sequence of legal moves.
+// Conservative: only the clear-cut cases (bare king, a lone knight against a
+// bare king, bishops confined to one square colour) count as unable to mate.
+export const canCheckmate = (chess: Chess, color: Color): boolean => {
+  const own: { type: string, square: Square }[] = [];
+  const theirs: { type: string, square: Square }[] = [];
+  chess.board().forEach(row => row.forEach(p => {
+    if (p && p.type !== 'k') (p.color === color ? own : theirs).push(p);
+  }));
+
+  if (own.length === 0) return false;
+  if (own.some(p => p.type === 'p' || p.type === 'r' || p.type === 'q')) return true;
+
+  const knights = own.filter(p => p.type === 'n');
+  const bishops = own.filter(p => p.type === 'b');
+
+  if (knights.length === 1 && bishops.length === 0) return theirs.length > 0;
+  if (knights.length === 0) {
+    const shades = new Set(bishops.map(b => squareShade(b.square)));
+    if (shades.size > 1) return true;
+    // Same-coloured bishops only mate with help from an enemy blocker that
+    // can stand on the other colour
+    return theirs.some(p => p.type !== 'b' || !shades.has(squareShade(p.square)));
+  }
+  return true;
+};
+
+// Result when `flagged` runs out of time
+export const timeoutStatus = (chess: Chess, flagged: Color): GameStatus =>
+  canCheckmate(chess, flagged === 'w' ? 'b' : 'w') ? GameStatus.TIMEOUT : GameStatus.TIMEOUT_DRAW;
@@ -0,0 +1,304 @@
+import { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import { EngineLevel, PromotionPiece } from '../types';
+import { createChess } from './variants';
+
+// --- Engine Settings ---
+
+export interface EngineSettings {
+  label: string;
+  depth: number;   // Maximum iterative-deepening depth (plies)
+  timeMs: number;  // Soft time budget; the current iteration is abandoned when exceeded
+  noise: number;   // Random centipawn noise added to root moves (weaker play)
+}
+
+export const ENGINE_LEVELS: Record<EngineLevel, EngineSettings> = {
+  [EngineLevel.BEGINNER]: { label: 'Beginner', depth: 1, timeMs: 500, noise: 250 },
+  [EngineLevel.CASUAL]: { label: 'Casual', depth: 2, timeMs: 1000, noise: 80 },
+  [EngineLevel.CLUB]: { label: 'Club', depth: 3, timeMs: 2500, noise: 15 },
+  [EngineLevel.EXPERT]: { label: 'Expert', depth: 5, timeMs: 5000, noise: 0 },
+};
+
+export interface EngineMove {
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+  san: string;
+}
+
+export interface EngineResult {
+  move: EngineMove | null;
+  score: number;        // Centipawns from the side to move's point of view
+  mate: number | null;  // Moves to mate (positive: side to move mates, negative: gets mated)
+  depth: number;
+  nodes: number;
+  pv: string[];         // Principal variation in SAN
+}
+
+// --- Evaluation ---
+
+const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 100, n: 320, b: 330, r: 500, q: 900, k: 0,
+};
+
+// Piece-square tables from White's point of view, rank 8 first (same order as chess.board()).
+const PST: Record<PieceSymbol, number[]> = {
+  p: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+     5,  5, 10, 25, 25, 10,  5,  5,
+     0,  0,  0, 20, 20,  0,  0,  0,
+     5, -5,-10,  0,  0,-10, -5,  5,
+     5, 10, 10,-20,-20, 10, 10,  5,
+     0,  0,  0,  0,  0,  0,  0,  0,
+  ],
+  n: [
+    -50,-40,-30,-30,-30,-30,-40,-50,
+    -40,-20,  0,  0,  0,  0,-20,-40,
+    -30,  0, 10, 15, 15, 10,  0,-30,
+    -30,  5, 15, 20, 20, 15,  5,-30,
+    -30,  0, 15, 20, 20, 15,  0,-30,
+    -30,  5, 10, 15, 15, 10,  5,-30,
+    -40,-20,  0,  5,  5,  0,-20,-40,
+    -50,-40,-30,-30,-30,-30,-40,-50,
+  ],
+  b: [
+    -20,-10,-10,-10,-10,-10,-10,-20,
+    -10,  0,  0,  0,  0,  0,  0,-10,
+    -10,  0,  5, 10, 10,  5,  0,-10,
+    -10,  5,  5, 10, 10,  5,  5,-10,
+    -10,  0, 10, 10, 10, 10,  0,-10,
+    -10, 10, 10, 10, 10, 10, 10,-10,
+    -10,  5,  0,  0,  0,  0,  5,-10,
+    -20,-10,-10,-10,-10,-10,-10,-20,
+  ],
+  r: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+     5, 10, 10, 10, 10, 10, 10,  5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+     0,  0,  0,  5,  5,  0,  0,  0,
+  ],
+  q: [
+    -20,-10,-10, -5, -5,-10,-10,-20,
+    -10,  0,  0,  0,  0,  0,  0,-10,
+    -10,  0,  5,  5,  5,  5,  0,-10,
+     -5,  0,  5,  5,  5,  5,  0, -5,
+      0,  0,  5,  5,  5,  5,  0, -5,
+    -10,  5,  5,  5,  5,  5,  0,-10,
+    -10,  0,  5,  0,  0,  0,  0,-10,
+    -20,-10,-10, -5, -5,-10,-10,-20,
+  ],
+  k: [
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -20,-30,-30,-40,-40,-30,-30,-20,
+    -10,-20,-20,-20,-20,-20,-20,-10,
+     20, 20,  0,  0,  0,  0, 20, 20,
+     20, 30, 10,  0,  0, 10, 30, 20,
+  ],
+};
+
+// Static evaluation in centipawns from White's point of view.
+export const evaluateBoard = (chess: Chess): number => {
+  let score = 0;
+  chess.board().forEach((row, r) => row.forEach((p, f) => {
+    if (!p) return;
+    const idx = p.color === 'w' ? r * 8 + f : (7 - r) * 8 + f;
+    const value = PIECE_VALUES[p.type] + PST[p.type][idx];
+    score += p.color === 'w' ? value : -value;
+  }));
+  return score;
+};
+
+// --- Search ---
+
+export const MATE_SCORE = 100000;
+const MATE_THRESHOLD = MATE_SCORE - 1000;
+const MAX_QUIESCENCE_DEPTH = 4;
+
+class SearchTimeout extends Error {}
+
+const SAN_PIECE: Record<string, PieceSymbol> = { N: 'n', B: 'b', R: 'r', Q: 'q', K: 'k' };
+
+// Cheap move ordering straight from SAN, avoiding chess.js verbose move objects:
+// mates, promotions and captures (MVV-LVA) first.
+const orderScore = (chess: Chess, san: string): number => {
+  if (san.endsWith('#')) return 100000;
+  let score = 0;
+  if (san.includes('=')) score += 8000;
+  if (san.includes('x')) {
+    const targets = san.match(/[a-h][1-8]/g);
+    const target = targets ? targets[targets.length - 1] as Square : null;
+    const victim = target ? chess.get(target) : undefined;
+    const attacker = SAN_PIECE[san[0]] || 'p';
+    score += 1000 + (victim ? PIECE_VALUES[victim.type] : PIECE_VALUES.p) - PIECE_VALUES[attacker] / 10;
+  }
+  if (san.endsWith('+')) score += 50;
+  return score;
+};
+
+const orderMoves = (chess: Chess, moves: string[], first?: string): string[] => {
+  const scored = moves.map(san => ({ san, score: san === first ? Infinity : orderScore(chess, san) }));
+  scored.sort((a, b) => b.score - a.score);
+  return scored.map(s => s.san);
+};
+
+const isDrawn = (chess: Chess) =>
+  chess.isInsufficientMaterial() || chess.isDrawByFiftyMoves() || chess.isThreefoldRepetition();
+
+interface SearchContext {
+  chess: Chess;
+  nodes: number;
+  deadline: number;
+}
+
+const sideEval = (chess: Chess, turn: Color) => {
+  const score = evaluateBoard(chess);
+  return turn === 'w' ? score : -score;
+};
+
+const quiescence = (ctx: SearchContext, alpha: number, beta: number, qDepth: number): number => {
+  const { chess } = ctx;
+  ctx.nodes++;
+
+  const standPat = sideEval(chess, chess.turn());
+  if (standPat >= beta) return beta;
+  if (standPat > alpha) alpha = standPat;
+  if (qDepth >= MAX_QUIESCENCE_DEPTH) return alpha;
+
+  const captures = chess.moves().filter(san => san.includes('x') || san.includes('='));
+  for (const san of orderMoves(chess, captures)) {
+    chess.move(san);
+    const score = -quiescence(ctx, -beta, -alpha, qDepth + 1);
+    chess.undo();
+    if (score >= beta) return beta;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+};
+
+const negamax = (
+  ctx: SearchContext,
+  depth: number,
+  ply: number,
+  alpha: number,
+  beta: number,
+  pv: string[],
+  pvHint: string[]
+): number => {
+  const { chess } = ctx;
+  if (Date.now() > ctx.deadline) throw new SearchTimeout();
+
+  const moves = chess.moves();
+  if (moves.length === 0) {
+    return chess.inCheck() ? -MATE_SCORE + ply : 0;
+  }
+  if (ply > 0 && isDrawn(chess)) return 0;
+  if (depth === 0) return quiescence(ctx, alpha, beta, 0);
+
+  ctx.nodes++;
+  for (const san of orderMoves(chess, moves, pvHint[ply])) {
+    const childPv: string[] = [];
+    chess.move(san);
+    let score: number;
+    try {
+      score = -negamax(ctx, depth - 1, ply + 1, -beta, -alpha, childPv, pvHint);
+    } finally {
+      chess.undo();
+    }
+    if (score >= beta) return beta;
+    if (score > alpha) {
+      alpha = score;
+      pv.length = 0;
+      pv.push(san, ...childPv);
+    }
+  }
+  return alpha;
+};
+
+// Root search with full windows so each move gets an exact score, which lets
+// weaker levels pick among near-equal moves using `noise`.
+const searchRoot = (ctx: SearchContext, depth: number, noise: number, pvHint: string[]) => {
+  const { chess } = ctx;
+  let best: { san: string, score: number, noisy: number, pv: string[] } | null = null;
+  let alpha = -Infinity;
+
+  for (const san of orderMoves(chess, chess.moves(), pvHint[0])) {
+    const childPv: string[] = [];
+    chess.move(san);
+    let score: number;
+    try {
+      // Noisy levels need an exact score for every root move; otherwise use a normal window
+      score = -negamax(ctx, depth - 1, 1, -MATE_SCORE - 1, noise > 0 ? MATE_SCORE + 1 : -alpha, childPv, pvHint);
+    } finally {
+      chess.undo();
+    }
+    const noisy = score + (noise > 0 && Math.abs(score) < MATE_THRESHOLD ? (Math.random() * 2 - 1) * noise : 0);
+    if (!best || noisy > best.noisy) {
+      best = { san, score, noisy, pv: [san, ...childPv] };
+    }
+    if (score > alpha) alpha = score;
+  }
+  return best;
+};
+
+const toMate = (score: number): number | null => {
+  if (Math.abs(score) < MATE_THRESHOLD) return null;
+  const plies = MATE_SCORE - Math.abs(score);
+  const moves = Math.ceil(plies / 2);
+  return score > 0 ? moves : -moves;
+};
+
+// Iterative-deepening alpha-beta search. Always completes depth 1 so a move is
+// returned even when the time budget is tiny.
+export const searchPosition = (
+  fen: string,
+  settings: Pick<EngineSettings, 'depth' | 'timeMs' | 'noise'>,
+  onDepth?: (result: EngineResult) => void
+): EngineResult => {
+  const chess = createChess(fen);
+  const ctx: SearchContext = { chess, nodes: 0, deadline: Infinity };
+  const start = Date.now();
+
+  let result: EngineResult = { move: null, score: 0, mate: null, depth: 0, nodes: 0, pv: [] };
+  if (chess.moves().length === 0) {
+    result.score = chess.inCheck() ? -MATE_SCORE : 0;
+    result.mate = chess.inCheck() ? 0 : null;
+    return result;
+  }
+
+  for (let depth = 1; depth <= settings.depth; depth++) {
+    ctx.deadline = depth === 1 ? Infinity : start + settings.timeMs;
+    let best;
+    try {
+      best = searchRoot(ctx, depth, settings.noise, result.pv);
+    } catch (e) {
+      if (e instanceof SearchTimeout) break;
+      throw e;
+    }
+    if (!best) break;
+
+    const played = chess.move(best.san);
+    chess.undo();
+    result = {
+      move: { from: played.from, to: played.to, promotion: played.promotion as PromotionPiece | undefined, san: played.san },
+      score: best.score,
+      mate: toMate(best.score),
+      depth,
+      nodes: ctx.nodes,
+      pv: best.pv,
+    };
+    onDepth?.(result);
+
+    // A forced mate will not improve with more depth
+    if (result.mate !== null && result.mate > 0) break;
+  }
+
+  return result;
+};
@@ -0,0 +1,29 @@
+import { searchPosition, EngineResult, EngineSettings } from './engine';
+
+// Messages exchanged with the engine Web Worker
+export type EngineWorkerRequest = {
+  type: 'search';
+  id: number;
+  fen: string;
+  settings: Pick<EngineSettings, 'depth' | 'timeMs' | 'noise'>;
+  reportDepths?: boolean;  // Post an 'info' message after every completed depth
+};
+
+export type EngineWorkerResponse =
+  | { type: 'result'; id: number; result: EngineResult }
+  | { type: 'info'; id: number; result: EngineResult }
+  | { type: 'error'; id: number; message: string };
+
+self.onmessage = (e: MessageEvent<EngineWorkerRequest>) => {
+  const { id, fen, settings, reportDepths } = e.data;
+  const onDepth = reportDepths
+    ? (result: EngineResult) => self.postMessage({ type: 'info', id, result } as EngineWorkerResponse)
+    : undefined;
+  let response: EngineWorkerResponse;
+  try {
+    response = { type: 'result', id, result: searchPosition(fen, settings, onDepth) };
+  } catch (error) {
+    response = { type: 'error', id, message: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,84 @@
+import { EngineResult, EngineSettings } from './engine';
+import type { EngineWorkerRequest, EngineWorkerResponse } from './engine.worker';
+
+// The game that led to a position: its start and the moves since, in UCI
+// notation. External engines use it to see repetitions.
+export interface EngineLine {
+  startFen: string;
+  moves: string[];
+}
+
+export interface EngineClient {
+  // `onInfo` receives the best line after each completed depth. The built-in
+  // engine only looks at `fen` and ignores `line`.
+  search: (
+    fen: string,
+    settings: Pick<EngineSettings, 'depth' | 'timeMs' | 'noise'>,
+    onInfo?: (result: EngineResult) => void,
+    line?: EngineLine
+  ) => Promise<EngineResult>;
+  stop: () => void;
+  dispose: () => void;   // Releases the worker or connection for good
+}
+
+export class EngineStoppedError extends Error {
+  constructor() {
+    super('Engine search was stopped.');
+    this.name = 'EngineStoppedError';
+  }
+}
+
+// Runs the search in a dedicated Web Worker so the 3D scene keeps animating.
+// The search itself is synchronous, so `stop` terminates the worker and a
+// fresh one is spawned lazily for the next request.
+export const createEngineClient = (): EngineClient => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, {
+    resolve: (r: EngineResult) => void,
+    reject: (e: Error) => void,
+    onInfo?: (r: EngineResult) => void,
+  }>();
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<EngineWorkerResponse>) => {
+      const request = pending.get(e.data.id);
+      if (!request) return;
+      if (e.data.type === 'info') {
+        request.onInfo?.(e.data.result);
+        return;
+      }
+      pending.delete(e.data.id);
+      if (e.data.type === 'result') request.resolve(e.data.result);
+      else request.reject(new Error(e.data.message));
+    };
+    worker.onerror = (e) => {
+      pending.forEach(request => request.reject(new Error(e.message || 'Engine worker crashed.')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+    return worker;
+  };
+
+  const stop = () => {
+    if (!worker) return;
+    worker.terminate();
+    worker = null;
+    pending.forEach(request => request.reject(new EngineStoppedError()));
+    pending.clear();
+  };
+
+  return {
+    search: (fen, settings, onInfo) => new Promise((resolve, reject) => {
+      const id = ++nextId;
+      pending.set(id, { resolve, reject, onInfo });
+      const request: EngineWorkerRequest = { type: 'search', id, fen, settings, reportDepths: !!onInfo };
+      getWorker().postMessage(request);
+    }),
+    stop,
+    dispose: stop,
+  };
+};
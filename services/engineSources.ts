@@ -0,0 +1,25 @@
+import { EngineSource } from '../types';
+import { EngineClient, createEngineClient } from './engineClient';
+import { createUciEngineClient, uciBridgeUrl } from './uciEngineClient';
+
+export interface EngineSourceInfo {
+  id: EngineSource;
+  label: string;
+  description: string;
+}
+
+export const ENGINE_SOURCES: Record<EngineSource, EngineSourceInfo> = {
+  [EngineSource.BUILTIN]: {
+    id: EngineSource.BUILTIN,
+    label: 'Built-in',
+    description: 'The JavaScript engine in a Web Worker; levels set its depth, time and randomness.',
+  },
+  [EngineSource.UCI]: {
+    id: EngineSource.UCI,
+    label: 'UCI Engine',
+    description: `A desktop engine behind the UCI bridge at ${uciBridgeUrl()}; levels only set its think time.`,
+  },
+};
+
+export const createEngineFor = (source: EngineSource): EngineClient =>
+  source === EngineSource.UCI ? createUciEngineClient() : createEngineClient();
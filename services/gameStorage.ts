@@ -0,0 +1,127 @@
+import { Chess, Color } from 'chess.js';
+import { ClockState, EngineLevel, GameMode, GameStatus, HintProviderId, TimeControl } from '../types';
+import { createChess, parseVariant } from './variants';
+
+const DB_NAME = 'gemini-chess-3d';
+const DB_VERSION = 1;
+const STORE = 'games';
+
+export interface SavedHint {
+  ply: number;       // Half-moves played when the hint was requested
+  fen: string;
+  move?: string;     // Suggested best move in SAN, when the provider gave a legal one
+  provider?: HintProviderId;
+  text: string;
+  createdAt: number;
+}
+
+export interface SavedGame {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  startFen: string;
+  moves: string[];   // SAN, replayed from startFen
+  headers: Record<string, string>;
+  players?: { white: string, black: string };   // Names as shown when saved; missing in older records
+  status: GameStatus;
+  gameMode: GameMode;
+  engineColor: Color;
+  engineLevel: EngineLevel;
+  timeControl: TimeControl | null;
+  clock: ClockState | null;
+  boardView: 'white' | 'black';
+  hints: SavedHint[];
+}
+
+export class GameStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameStorageError';
+  }
+}
+
+export const createGameId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// --- IndexedDB Plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new GameStorageError('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new GameStorageError(request.error?.message ?? 'Could not open the game database.'));
+  });
+  // Allow a retry after a failed open
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(new GameStorageError(tx.error?.message ?? 'Game database transaction failed.'));
+    tx.onabort = () => reject(new GameStorageError(tx.error?.message ?? 'Game database transaction was aborted.'));
+  });
+};
+
+// --- Public API ---
+
+// Newest first
+export const listGames = async (): Promise<SavedGame[]> => {
+  const games = await withStore<SavedGame[]>('readonly', store => store.getAll());
+  return games.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getGame = (id: string): Promise<SavedGame | undefined> =>
+  withStore<SavedGame | undefined>('readonly', store => store.get(id));
+
+// Writes the game, keeping the name and creation time of an existing record
+// so autosaves never undo a rename from the library.
+export const saveGame = (game: SavedGame): Promise<void> =>
+  withStore<void>('readwrite', store => {
+    const existing = store.get(game.id);
+    existing.onsuccess = () => {
+      const previous = existing.result as SavedGame | undefined;
+      store.put(previous ? { ...game, name: previous.name, createdAt: previous.createdAt } : game);
+    };
+  });
+
+export const renameGame = (id: string, name: string): Promise<void> =>
+  withStore<void>('readwrite', store => {
+    const existing = store.get(id);
+    existing.onsuccess = () => {
+      const previous = existing.result as SavedGame | undefined;
+      if (previous) store.put({ ...previous, name, updatedAt: Date.now() });
+    };
+  });
+
+export const deleteGame = (id: string): Promise<void> =>
+  withStore<void>('readwrite', store => { store.delete(id); });
+
+// Rebuilds the chess.js game from a saved record
+export const restoreChess = (saved: SavedGame): Chess => {
+  const chess = createChess(saved.startFen, parseVariant(saved.headers.Variant));
+  saved.moves.forEach(san => chess.move(san));
+  Object.entries(saved.headers).forEach(([key, value]) => chess.setHeader(key, value));
+  return chess;
+};
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { getChessHint, getGeminiMove, setGeminiClient } from './geminiService';
+import { createGeminiStub } from './geminiStub';
+
+const FOOLS_MATE = 'rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3';
+
+const isLegal = (fen: string, san: string) => new Chess(fen).moves().includes(san);
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setGeminiClient(null);
+  vi.restoreAllMocks();
+});
+
+describe('getChessHint', () => {
+  it('returns a legal best move with its alternatives', async () => {
+    setGeminiClient(createGeminiStub({ latencyMs: 0 }));
+    const hint = await getChessHint(DEFAULT_POSITION, 'w');
+    expect(hint.best).not.toBeNull();
+    expect(isLegal(DEFAULT_POSITION, hint.best!.san)).toBe(true);
+    expect(hint.alternatives.length).toBeGreaterThan(0);
+    expect(hint.alternatives.every(move => move.uci !== hint.best!.uci)).toBe(true);
+  });
+
+  it('asks again after an illegal suggestion, naming the rejected move', async () => {
+    const stub = createGeminiStub({ illegalReplies: 2, latencyMs: 0 });
+    setGeminiClient(stub);
+    const hint = await getChessHint(DEFAULT_POSITION, 'w');
+    expect(hint.best).not.toBeNull();
+    expect(stub.prompts).toHaveLength(3);
+    expect(stub.prompts[2]).toContain('NOT legal here, do not repeat them: Ke9');
+  });
+
+  it('gives up without a move after three illegal suggestions', async () => {
+    const stub = createGeminiStub({ illegalReplies: Infinity, latencyMs: 0 });
+    setGeminiClient(stub);
+    const hint = await getChessHint(DEFAULT_POSITION, 'w');
+    expect(hint.best).toBeNull();
+    expect(stub.prompts).toHaveLength(3);
+  });
+
+  it('reports request errors to the caller', async () => {
+    setGeminiClient(createGeminiStub({ failRequests: 1, latencyMs: 0 }));
+    await expect(getChessHint(DEFAULT_POSITION, 'w')).rejects.toThrow('Stub request failed.');
+  });
+
+  it('needs a client', async () => {
+    await expect(getChessHint(DEFAULT_POSITION, 'w')).rejects.toThrow('API Key is missing.');
+  });
+});
+
+describe('getGeminiMove', () => {
+  it("plays Gemini's move when it is legal", async () => {
+    setGeminiClient(createGeminiStub({ latencyMs: 0 }));
+    const result = await getGeminiMove(DEFAULT_POSITION, DEFAULT_POSITION, []);
+    expect(result?.fallback).toBe(false);
+    expect(isLegal(DEFAULT_POSITION, result!.move.san)).toBe(true);
+    expect(result?.commentary).toContain(result!.move.san);
+  });
+
+  it('sends the moves so far, numbered from the start position', async () => {
+    const stub = createGeminiStub({ latencyMs: 0 });
+    setGeminiClient(stub);
+    const chess = new Chess();
+    chess.move('e4');
+    chess.move('e5');
+    await getGeminiMove(chess.fen(), DEFAULT_POSITION, ['e4', 'e5']);
+    expect(stub.prompts[0]).toContain('Moves so far: 1. e4 e5');
+  });
+
+  it('retries illegal moves before accepting a legal one', async () => {
+    const stub = createGeminiStub({ illegalReplies: 1, latencyMs: 0 });
+    setGeminiClient(stub);
+    const result = await getGeminiMove(DEFAULT_POSITION, DEFAULT_POSITION, []);
+    expect(result?.fallback).toBe(false);
+    expect(stub.prompts).toHaveLength(2);
+  });
+
+  it('retries failed requests', async () => {
+    const stub = createGeminiStub({ failRequests: 2, latencyMs: 0 });
+    setGeminiClient(stub);
+    const result = await getGeminiMove(DEFAULT_POSITION, DEFAULT_POSITION, []);
+    expect(result?.fallback).toBe(false);
+    expect(stub.prompts).toHaveLength(3);
+  });
+
+  it('falls back to a random legal move when Gemini never answers legally', async () => {
+    const stub = createGeminiStub({ illegalReplies: Infinity, latencyMs: 0 });
+    setGeminiClient(stub);
+    const result = await getGeminiMove(DEFAULT_POSITION, DEFAULT_POSITION, []);
+    expect(result?.fallback).toBe(true);
+    expect(isLegal(DEFAULT_POSITION, result!.move.san)).toBe(true);
+    expect(stub.prompts).toHaveLength(3);
+  });
+
+  it('falls back to a random legal move when every request fails', async () => {
+    setGeminiClient(createGeminiStub({ failRequests: Infinity, latencyMs: 0 }));
+    const result = await getGeminiMove(DEFAULT_POSITION, DEFAULT_POSITION, []);
+    expect(result?.fallback).toBe(true);
+    expect(isLegal(DEFAULT_POSITION, result!.move.san)).toBe(true);
+  });
+
+  it('falls back without a client', async () => {
+    const result = await getGeminiMove(DEFAULT_POSITION, DEFAULT_POSITION, []);
+    expect(result?.fallback).toBe(true);
+    expect(result?.commentary).toContain('No Gemini API key is configured.');
+  });
+
+  it('returns null when there is no legal move', async () => {
+    const stub = createGeminiStub({ latencyMs: 0 });
+    setGeminiClient(stub);
+    expect(await getGeminiMove(FOOLS_MATE, DEFAULT_POSITION, [])).toBeNull();
+    expect(stub.prompts).toHaveLength(0);
+  });
+});
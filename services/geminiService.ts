@@ -1,35 +1,321 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type, GenerateContentParameters } from "@google/genai";
+import { Chess, Move, Square } from 'chess.js';
+import { PromotionPiece } from '../types';
+import { createChess } from './variants';
+
+// The slice of the @google/genai client this app uses, so a local stub can stand in for it
+export interface GenerativeClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+  };
+}
 
 const apiKey = process.env.API_KEY || '';
 
 // Safely initialize the client only if key exists (handled in UI if missing)
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+let ai: GenerativeClient | null = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+// GEMINI_STUB is fixed at build time, so builds without it leave the stub out
+const stubLoaded: Promise<void> = process.env.GEMINI_STUB
+  ? import('./geminiStub').then(({ geminiStubFromEnv }) => { ai = geminiStubFromEnv(process.env.GEMINI_STUB) ?? ai; })
+  : Promise.resolve();
+
+export const isGeminiConfigured = () => ai !== null || !!process.env.GEMINI_STUB;
+
+// Swap the client, e.g. for a stub created with createGeminiStub
+export const setGeminiClient = (client: GenerativeClient | null) => {
+  ai = client;
+};
+
+// How often Gemini is asked again when its move is not legal
+const MAX_HINT_ATTEMPTS = 3;
+const MAX_MOVE_ATTEMPTS = 3;
+const MAX_ALTERNATIVES = 3;
+
+export interface SuggestedMove {
+  san: string;
+  uci: string;
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+}
+
+export interface ChessHint {
+  fen: string;                      // Position the hint was given for
+  best: SuggestedMove | null;       // Null when no legal suggestion came back
+  alternatives: SuggestedMove[];
+  explanation: string;
+}
 
-export const getChessHint = async (fen: string, turn: 'w' | 'b'): Promise<string> => {
+const HINT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    bestMove: {
+      type: Type.STRING,
+      description: 'The single best move, in UCI (e.g. "e2e4", "e7e8q") or SAN (e.g. "Nf3", "O-O").',
+    },
+    alternatives: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Up to three other good moves in the same notation, best first.',
+    },
+    explanation: {
+      type: Type.STRING,
+      description: 'The strategic reasoning behind the best move in 2-3 sentences.',
+    },
+  },
+  required: ['bestMove', 'explanation'],
+  propertyOrdering: ['bestMove', 'alternatives', 'explanation'],
+};
+
+export const toSuggestedMove = (move: Move): SuggestedMove => ({
+  san: move.san,
+  uci: move.lan,
+  from: move.from,
+  to: move.to,
+  promotion: move.promotion as PromotionPiece | undefined,
+});
+
+// Matches a move the model wrote (UCI or SAN, possibly with stray
+// annotations) against the legal moves of the position.
+export const resolveSuggestedMove = (fen: string, text: string): SuggestedMove | null => {
+  const legal = createChess(fen).moves({ verbose: true }) as Move[];
+  const cleaned = text.trim().replace(/^\d+\.(\.\.)?\s*/, '').replace(/[!?]+$/, '');
+
+  const uci = cleaned.toLowerCase().replace(/[-x\s]/g, '');
+  const byUci = legal.find(m => m.lan === uci || (!m.promotion && m.from + m.to === uci));
+  if (byUci) return toSuggestedMove(byUci);
+
+  const san = cleaned.replace(/[+#]$/, '').replace(/0-0-0/, 'O-O-O').replace(/0-0/, 'O-O');
+  const bySan = legal.find(m => m.san.replace(/[+#]$/, '') === san);
+  return bySan ? toSuggestedMove(bySan) : null;
+};
+
+// `signal` cancels the request in flight and the retries after it
+export const getChessHint = async (fen: string, turn: 'w' | 'b', signal?: AbortSignal): Promise<ChessHint> => {
+  await stubLoaded;
   if (!ai) {
     throw new Error("API Key is missing.");
   }
 
   const color = turn === 'w' ? 'White' : 'Black';
-  
-  const prompt = `
-    You are a Chess Grandmaster. 
+  const legalMoves = createChess(fen).moves();
+
+  const basePrompt = `
+    You are a Chess Grandmaster.
     Analyze the following chess position in FEN (Forsyth-Edwards Notation): "${fen}".
-    It is ${color}'s turn.
-    
-    1. Suggest the single best move for ${color}.
-    2. Briefly explain the strategic reasoning behind this move in 2-3 sentences.
-    3. Keep it concise and helpful for a casual player.
+    It is ${color}'s turn. The legal moves are: ${legalMoves.join(', ')}.
+
+    1. Suggest the single best move for ${color}, chosen from the legal moves.
+    2. Optionally list up to three good alternatives.
+    3. Briefly explain the strategic reasoning behind the best move in 2-3 sentences.
+    4. Keep it concise and helpful for a casual player.
   `;
 
-  try {
+  const rejected: string[] = [];
+
+  // Request errors propagate so the hint provider can report them
+  for (let attempt = 0; attempt < MAX_HINT_ATTEMPTS; attempt++) {
+    signal?.throwIfAborted();
+    const prompt = rejected.length
+      ? `${basePrompt}\n    These suggestions are NOT legal here, do not repeat them: ${rejected.join(', ')}.`
+      : basePrompt;
+
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
       contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: HINT_SCHEMA,
+        abortSignal: signal,
+      },
+    });
+
+    let parsed: { bestMove?: string, alternatives?: string[], explanation?: string };
+    try {
+      parsed = JSON.parse(response.text || '{}');
+    } catch {
+      console.warn('Gemini returned malformed JSON:', response.text);
+      continue;
+    }
+
+    const best = parsed.bestMove ? resolveSuggestedMove(fen, parsed.bestMove) : null;
+    if (!best) {
+      const text = parsed.bestMove || '(none)';
+      if (!rejected.includes(text)) rejected.push(text);
+      continue;
+    }
+
+    // Illegal or duplicate alternatives are dropped rather than retried
+    const alternatives: SuggestedMove[] = [];
+    (parsed.alternatives ?? []).forEach(text => {
+      const move = resolveSuggestedMove(fen, text);
+      if (move && move.uci !== best.uci && !alternatives.some(a => a.uci === move.uci)) alternatives.push(move);
     });
-    return response.text || "No advice available.";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "I couldn't analyze the board right now. Please try again.";
+
+    return {
+      fen,
+      best,
+      alternatives: alternatives.slice(0, MAX_ALTERNATIVES),
+      explanation: parsed.explanation?.trim() || "No advice available.",
+    };
   }
+
+  console.warn('Gemini suggested no legal move:', rejected);
+  return { fen, best: null, alternatives: [], explanation: "Gemini couldn't come up with a legal move for this position. Please try again." };
+};
+
+// --- Puzzle Nudges ---
+
+const NUDGE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    nudge: {
+      type: Type.STRING,
+      description: 'One or two sentences pointing at the idea, without naming the move, the piece to move or its target square.',
+    },
+  },
+  required: ['nudge'],
+};
+
+// A hint for a tactics puzzle that points at the idea without giving the
+// answer away. Gemini is told the move so the nudge is right, and asked not
+// to reveal it; replies that name the move anyway are rejected.
+export const getPuzzleNudge = async (fen: string, solution: string, themes: string[]): Promise<string> => {
+  await stubLoaded;
+  if (!ai) {
+    throw new Error("API Key is missing.");
+  }
+
+  const chess = createChess(fen);
+  const color = chess.turn() === 'w' ? 'White' : 'Black';
+  const move = chess.move(solution);
+  const prompt = `
+    You are a chess coach helping a student with a tactics puzzle.
+    Position in FEN: "${fen}". It is ${color}'s turn.
+    The winning move is ${move.san}${themes.length ? ` and the puzzle's themes are: ${themes.join(', ')}` : ''}.
+
+    Give a short nudge in one or two sentences that points the student towards the idea.
+    Do NOT mention ${move.san}, the square ${move.to}, or which piece to move.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: NUDGE_SCHEMA,
+    },
+  });
+
+  const parsed: { nudge?: string } = JSON.parse(response.text || '{}');
+  const nudge = parsed.nudge?.trim();
+  const san = move.san.replace(/[+#]$/, '');
+  if (!nudge || nudge.includes(san) || new RegExp(`\\b${move.to}\\b`).test(nudge)) {
+    throw new Error('Gemini gave the move away.');
+  }
+  return nudge;
+};
+
+// --- Gemini Opponent ---
+
+export interface GeminiMove {
+  move: SuggestedMove;
+  commentary: string;
+  fallback: boolean;   // True when Gemini failed and a random legal move was played
+}
+
+const MOVE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    move: {
+      type: Type.STRING,
+      description: 'The move to play, copied exactly from the list of legal moves (SAN).',
+    },
+    commentary: {
+      type: Type.STRING,
+      description: 'One short, lively sentence about the move for the opponent to read.',
+    },
+  },
+  required: ['move', 'commentary'],
+  propertyOrdering: ['move', 'commentary'],
+};
+
+// "1. e4 e5 2. Nf3" numbered from the position the game started in
+export const formatMoveList = (startFen: string, sans: string[]): string => {
+  const [, turn, , , , fullmove] = startFen.split(' ');
+  let number = parseInt(fullmove) || 1;
+  let whiteToMove = turn !== 'b';
+  const parts: string[] = [];
+  sans.forEach((san, i) => {
+    if (whiteToMove) parts.push(`${number}. ${san}`);
+    else parts.push(i === 0 ? `${number}... ${san}` : san);
+    if (!whiteToMove) number++;
+    whiteToMove = !whiteToMove;
+  });
+  return parts.join(' ');
+};
+
+export const randomLegalMove = (fen: string): SuggestedMove | null => {
+  const legal = createChess(fen).moves({ verbose: true }) as Move[];
+  return legal.length ? toSuggestedMove(legal[Math.floor(Math.random() * legal.length)]) : null;
+};
+
+// Asks Gemini for its next move. Illegal replies and request errors are
+// retried a bounded number of times, then a random legal move is played so
+// the game never stalls on the model.
+export const getGeminiMove = async (fen: string, startFen: string, sans: string[]): Promise<GeminiMove | null> => {
+  const chess = createChess(fen);
+  const legalMoves = chess.moves();
+  if (legalMoves.length === 0) return null;
+
+  const fallback = (reason: string): GeminiMove => {
+    const move = randomLegalMove(fen)!;
+    return { move, commentary: `${reason} Playing ${move.san} instead.`, fallback: true };
+  };
+
+  await stubLoaded;
+  if (!ai) return fallback('No Gemini API key is configured.');
+
+  const color = chess.turn() === 'w' ? 'White' : 'Black';
+  const moveList = sans.length ? formatMoveList(startFen, sans) : '(none yet)';
+  const basePrompt = `
+    You are playing a game of chess as ${color}.
+    Current position in FEN: "${fen}".
+    Moves so far: ${moveList}
+    The legal moves are: ${legalMoves.join(', ')}.
+
+    Choose your next move from the legal moves and add one short sentence of commentary.
+  `;
+
+  const rejected: string[] = [];
+
+  for (let attempt = 0; attempt < MAX_MOVE_ATTEMPTS; attempt++) {
+    const prompt = rejected.length
+      ? `${basePrompt}\n    These moves are NOT legal here, do not repeat them: ${rejected.join(', ')}.`
+      : basePrompt;
+
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: MOVE_SCHEMA,
+        },
+      });
+      const parsed: { move?: string, commentary?: string } = JSON.parse(response.text || '{}');
+      const move = parsed.move ? resolveSuggestedMove(fen, parsed.move) : null;
+      if (move) {
+        return { move, commentary: parsed.commentary?.trim() || '', fallback: false };
+      }
+      const text = parsed.move || '(none)';
+      if (!rejected.includes(text)) rejected.push(text);
+    } catch (error) {
+      console.error("Gemini Error:", error);
+    }
+  }
+
+  console.warn('Gemini failed to produce a legal move:', rejected);
+  return fallback("Gemini couldn't settle on a legal move.");
 };
@@ -0,0 +1,70 @@
+import type { GenerativeClient } from './geminiService';
+
+// Offline stand-in for the @google/genai client. It answers the prompts built
+// in geminiService by reading the legal move list back out of them, so the
+// hint and opponent flows can run without an API key or network access.
+//
+//   illegalReplies: how many replies in a row name an illegal move before the
+//                   stub starts answering properly (exercises the retry and
+//                   random-move fallback paths)
+//   failRequests:   how many requests reject outright, like a network error
+export interface GeminiStubOptions {
+  illegalReplies?: number;
+  failRequests?: number;
+  latencyMs?: number;
+}
+
+export interface GeminiStub extends GenerativeClient {
+  prompts: string[];   // Every prompt received, oldest first
+}
+
+const legalMovesIn = (prompt: string): string[] => {
+  const match = prompt.match(/The legal moves are: ([^\n]*?)\.\s*$/m);
+  return match ? match[1].split(',').map(m => m.trim()).filter(Boolean) : [];
+};
+
+export const createGeminiStub = ({ illegalReplies = 0, failRequests = 0, latencyMs = 400 }: GeminiStubOptions = {}): GeminiStub => {
+  let illegalLeft = illegalReplies;
+  let failuresLeft = failRequests;
+  const prompts: string[] = [];
+
+  return {
+    prompts,
+    models: {
+      generateContent: async ({ contents, config }) => {
+        const prompt = String(contents);
+        prompts.push(prompt);
+        await new Promise(resolve => setTimeout(resolve, latencyMs));
+        config?.abortSignal?.throwIfAborted();
+
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          throw new Error('Stub request failed.');
+        }
+
+        if (prompt.includes('tactics puzzle')) {
+          return { text: JSON.stringify({ nudge: 'Stub nudge: look for the most forcing move.' }) };
+        }
+
+        const legal = legalMovesIn(prompt);
+        const pick = illegalLeft > 0 ? (illegalLeft--, 'Ke9') : legal[0] ?? '';
+        const asksForHint = prompt.includes('Chess Grandmaster');
+
+        return {
+          text: JSON.stringify(asksForHint
+            ? { bestMove: pick, alternatives: legal.slice(1, 3), explanation: `Stub analysis: ${pick} is the first legal move.` }
+            : { move: pick, commentary: `Stub opponent plays ${pick}.` }),
+        };
+      },
+    },
+  };
+};
+
+// GEMINI_STUB in .env.local selects the stub: "1" answers legally,
+// "illegal" never does, "offline" fails every request.
+export const geminiStubFromEnv = (value: string | undefined): GeminiStub | null => {
+  if (!value) return null;
+  if (value === 'illegal') return createGeminiStub({ illegalReplies: Infinity });
+  if (value === 'offline') return createGeminiStub({ failRequests: Infinity });
+  return createGeminiStub();
+};
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_POSITION } from 'chess.js';
+import { HintProviderId } from '../types';
+import { EngineClient } from './engineClient';
+import { HintError, createEngineHintProvider, createHintProviders, mockHint, requestHint } from './hintProviders';
+import { setGeminiClient } from './geminiService';
+import { createGeminiStub } from './geminiStub';
+
+const SCHOLARS_MATE = 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4';
+
+// An engine client whose searches only end when stopped
+const createHangingEngine = () => {
+  const stop = vi.fn();
+  const client: EngineClient = {
+    search: () => new Promise((_, reject) => stop.mockImplementation(() => reject(new Error('stopped')))),
+    stop,
+    dispose: () => {},
+  };
+  return { client, stop };
+};
+
+const signal = () => new AbortController().signal;
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setGeminiClient(null);
+  vi.restoreAllMocks();
+});
+
+describe('mockHint', () => {
+  it('prefers mate over captures and checks', () => {
+    const hint = mockHint(SCHOLARS_MATE);
+    expect(hint.best?.san).toBe('Qxf7#');
+    expect(hint.alternatives.map(m => m.san)).toEqual(['Bxf7+', 'Qxe5+']);
+  });
+
+  it('takes the most valuable piece when there is no mate', () => {
+    expect(mockHint('4k3/8/8/3q1p2/4P3/8/8/4K3 w - - 0 1').best?.san).toBe('exd5');
+  });
+
+  it('gives the same advice for the same position', () => {
+    expect(mockHint(DEFAULT_POSITION)).toEqual(mockHint(DEFAULT_POSITION));
+    expect(mockHint(DEFAULT_POSITION).best?.uci).toBe('a2a3');
+  });
+
+  it('has no move when there are no legal moves', () => {
+    const hint = mockHint('7k/5QQ1/8/8/8/8/8/K7 b - - 0 1');
+    expect(hint.best).toBeNull();
+    expect(hint.alternatives).toEqual([]);
+  });
+});
+
+describe('hint providers', () => {
+  it('registers a provider under each id', () => {
+    const providers = createHintProviders();
+    Object.values(HintProviderId).forEach(id => expect(providers[id].id).toBe(id));
+  });
+
+  it('reports a missing Gemini key', async () => {
+    const gemini = createHintProviders()[HintProviderId.GEMINI];
+    await expect(gemini.getHint(DEFAULT_POSITION, signal())).rejects.toMatchObject({ kind: 'missing-key' });
+  });
+
+  it('reports failed Gemini requests', async () => {
+    setGeminiClient(createGeminiStub({ failRequests: 1, latencyMs: 0 }));
+    const gemini = createHintProviders()[HintProviderId.GEMINI];
+    await expect(gemini.getHint(DEFAULT_POSITION, signal())).rejects.toMatchObject({ kind: 'failed' });
+  });
+
+  it('explains the engine\'s move', async () => {
+    const client: EngineClient = {
+      search: async () => ({ move: { from: 'e2', to: 'e4', san: 'e4' }, score: 10, mate: null, depth: 4, nodes: 100, pv: ['e4', 'e5'] }),
+      stop: () => {},
+      dispose: () => {},
+    };
+    const hint = await createEngineHintProvider(client).getHint(DEFAULT_POSITION, signal());
+    expect(hint.best?.uci).toBe('e2e4');
+    expect(hint.explanation).toBe('e4 moves the pawn to e4. The position is roughly equal (+0.1). Expected line: e4 e5.');
+  });
+
+  it('reports engine failures', async () => {
+    const client: EngineClient = { search: () => Promise.reject(new Error('crashed')), stop: () => {}, dispose: () => {} };
+    await expect(createEngineHintProvider(client).getHint(DEFAULT_POSITION, signal())).rejects.toMatchObject({ kind: 'failed' });
+  });
+});
+
+describe('requestHint', () => {
+  it('passes the provider\'s hint through', async () => {
+    const mock = createHintProviders()[HintProviderId.MOCK];
+    expect(await requestHint(mock, DEFAULT_POSITION)).toEqual(mockHint(DEFAULT_POSITION));
+  });
+
+  it('times out and stops the engine search', async () => {
+    const { client, stop } = createHangingEngine();
+    const error = await requestHint(createEngineHintProvider(client), DEFAULT_POSITION, 20).catch(e => e);
+    expect(error).toBeInstanceOf(HintError);
+    expect(error.kind).toBe('timeout');
+    expect(stop).toHaveBeenCalledOnce();
+  });
+
+  it('times out and cancels the Gemini request', async () => {
+    const stub = createGeminiStub({ illegalReplies: Infinity, latencyMs: 30 });
+    setGeminiClient(stub);
+    const gemini = createHintProviders()[HintProviderId.GEMINI];
+    await expect(requestHint(gemini, DEFAULT_POSITION, 10)).rejects.toMatchObject({ kind: 'timeout' });
+    await new Promise(resolve => setTimeout(resolve, 150));
+    // The first request saw the abort, so no retry followed
+    expect(stub.prompts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,173 @@
+import { Chess, Move } from 'chess.js';
+import { EngineLevel, HintProviderId } from '../types';
+import { ChessHint, getChessHint, isGeminiConfigured, toSuggestedMove } from './geminiService';
+import { ENGINE_LEVELS, EngineResult } from './engine';
+import { EngineClient, createEngineClient } from './engineClient';
+import { createChess } from './variants';
+
+export const HINT_TIMEOUT_MS = 20000;
+
+export type HintErrorKind = 'missing-key' | 'timeout' | 'failed';
+
+export class HintError extends Error {
+  kind: HintErrorKind;
+
+  constructor(kind: HintErrorKind, message: string) {
+    super(message);
+    this.name = 'HintError';
+    this.kind = kind;
+  }
+}
+
+export interface HintProvider {
+  id: HintProviderId;
+  label: string;
+  description: string;
+  getHint: (fen: string, signal: AbortSignal) => Promise<ChessHint>;   // Gives up when `signal` aborts
+}
+
+const PIECE_NAMES: Record<string, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king',
+};
+
+// --- Gemini ---
+
+const geminiProvider: HintProvider = {
+  id: HintProviderId.GEMINI,
+  label: 'Gemini',
+  description: 'Strategic advice from Google Gemini (needs an API key and network).',
+  getHint: async (fen, signal) => {
+    if (!isGeminiConfigured()) {
+      throw new HintError('missing-key', 'No Gemini API key is configured. Set GEMINI_API_KEY in .env.local, or switch to the local engine.');
+    }
+    try {
+      return await getChessHint(fen, createChess(fen).turn(), signal);
+    } catch (e) {
+      console.error('Gemini Error:', e);
+      throw new HintError('failed', "Gemini couldn't analyze the board right now. Please try again.");
+    }
+  },
+};
+
+// --- Local Engine Explainer ---
+
+// Plain-language description of what a move does, from the engine's line
+const describeMove = (chess: Chess, move: Move) => {
+  const piece = PIECE_NAMES[move.piece];
+  const parts: string[] = [];
+  if (move.isKingsideCastle() || move.isQueensideCastle()) parts.push('castles the king to safety');
+  else if (move.captured) parts.push(`uses the ${piece} to capture the ${PIECE_NAMES[move.captured]} on ${move.to}`);
+  else parts.push(`moves the ${piece} to ${move.to}`);
+  if (move.promotion) parts.push(`promotes to a ${PIECE_NAMES[move.promotion]}`);
+
+  chess.move(move.san);
+  if (chess.isCheckmate()) parts.push('and delivers checkmate');
+  else if (chess.inCheck()) parts.push('with check');
+  chess.undo();
+  return parts.join(' ');
+};
+
+const describeScore = (result: EngineResult, turn: 'w' | 'b') => {
+  const side = turn === 'w' ? 'White' : 'Black';
+  if (result.mate !== null) {
+    return result.mate > 0
+      ? `${side} can force mate in ${result.mate}.`
+      : `${side} is getting mated in ${-result.mate}; this move holds out longest.`;
+  }
+  const pawns = result.score / 100;
+  if (Math.abs(pawns) < 0.3) return `The position is roughly equal (${pawns >= 0 ? '+' : ''}${pawns.toFixed(1)}).`;
+  return `${pawns > 0 ? side : (turn === 'w' ? 'Black' : 'White')} is better by about ${Math.abs(pawns).toFixed(1)} pawns.`;
+};
+
+export const createEngineHintProvider = (client: EngineClient = createEngineClient()): HintProvider => ({
+  id: HintProviderId.ENGINE,
+  label: 'Local Engine',
+  description: 'Runs the built-in engine in your browser and explains its choice. Works offline.',
+  getHint: async (fen, signal) => {
+    let result: EngineResult;
+    // Frees the worker for the next hint instead of finishing a search nobody waits for
+    const stop = () => client.stop();
+    signal.addEventListener('abort', stop, { once: true });
+    try {
+      result = await client.search(fen, { ...ENGINE_LEVELS[EngineLevel.CLUB], noise: 0 });
+    } catch (e) {
+      console.error('Engine Error:', e);
+      throw new HintError('failed', 'The local engine could not analyze this position.');
+    } finally {
+      signal.removeEventListener('abort', stop);
+    }
+
+    const chess = createChess(fen);
+    const move = result.move
+      ? (chess.moves({ verbose: true }) as Move[]).find(m => m.san === result.move!.san)
+      : undefined;
+    if (!move) {
+      return { fen, best: null, alternatives: [], explanation: 'There are no legal moves in this position.' };
+    }
+
+    const line = result.pv.length > 1 ? ` Expected line: ${result.pv.slice(0, 5).join(' ')}.` : '';
+    return {
+      fen,
+      best: toSuggestedMove(move),
+      alternatives: [],
+      explanation: `${move.san} ${describeMove(chess, move)}. ${describeScore(result, chess.turn())}${line}`,
+    };
+  },
+});
+
+// --- Deterministic Mock ---
+
+// Always suggests the same move for the same position: mate, then the most
+// valuable capture, then a check, then the first move in UCI order.
+export const mockHint = (fen: string): ChessHint => {
+  const chess = createChess(fen);
+  const moves = (chess.moves({ verbose: true }) as Move[]).sort((a, b) => a.lan.localeCompare(b.lan));
+  const value = (m: Move) => m.captured ? 'pnbrq'.indexOf(m.captured) + 1 : 0;
+  const ranked = [...moves].sort((a, b) =>
+    Number(b.san.endsWith('#')) - Number(a.san.endsWith('#'))
+    || value(b) - value(a)
+    || Number(b.san.endsWith('+')) - Number(a.san.endsWith('+')));
+
+  if (ranked.length === 0) {
+    return { fen, best: null, alternatives: [], explanation: 'There are no legal moves in this position.' };
+  }
+  return {
+    fen,
+    best: toSuggestedMove(ranked[0]),
+    alternatives: ranked.slice(1, 3).map(toSuggestedMove),
+    explanation: `Mock hint: ${ranked[0].san} is picked by a fixed rule (mates, then captures, then checks), so the same position always gets the same advice.`,
+  };
+};
+
+const mockProvider: HintProvider = {
+  id: HintProviderId.MOCK,
+  label: 'Mock',
+  description: 'Deterministic offline hints for demos and testing.',
+  getHint: async (fen, signal) => {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, 300);
+      signal.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+    });
+    return mockHint(fen);
+  },
+};
+
+// --- Registry ---
+
+export const createHintProviders = (): Record<HintProviderId, HintProvider> => ({
+  [HintProviderId.GEMINI]: geminiProvider,
+  [HintProviderId.ENGINE]: createEngineHintProvider(),
+  [HintProviderId.MOCK]: mockProvider,
+});
+
+// Fails with a timeout error when the provider takes too long, and tells the
+// provider to stop
+export const requestHint = (provider: HintProvider, fen: string, timeoutMs = HINT_TIMEOUT_MS): Promise<ChessHint> =>
+  new Promise((resolve, reject) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      reject(new HintError('timeout', `${provider.label} did not answer within ${Math.round(timeoutMs / 1000)} seconds.`));
+      controller.abort();
+    }, timeoutMs);
+    provider.getHint(fen, controller.signal).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
@@ -0,0 +1,31 @@
+import { Color, Move, PieceSymbol, Square } from 'chess.js';
+
+// Conventional point values used for the HUD material difference
+export const MATERIAL_VALUES: Record<PieceSymbol, number> = {
+  p: 1, n: 3, b: 3, r: 5, q: 9, k: 0,
+};
+
+export interface CapturedPiece {
+  key: string;        // Stable for as long as the capturing move stays in the game
+  type: PieceSymbol;
+  color: Color;       // Colour of the captured piece
+  square: Square;     // Where it was taken (the passed pawn's square for en passant)
+  ply: number;
+}
+
+// Pieces taken in the given moves, oldest first
+export const getCapturedPieces = (moves: Move[]): CapturedPiece[] => {
+  const captured: CapturedPiece[] = [];
+  moves.forEach((move, index) => {
+    if (!move.captured) return;
+    const square = (move.isEnPassant() ? `${move.to[0]}${move.from[1]}` : move.to) as Square;
+    const color: Color = move.color === 'w' ? 'b' : 'w';
+    captured.push({ key: `${index + 1}-${color}${move.captured}-${square}`, type: move.captured, color, square, ply: index + 1 });
+  });
+  return captured;
+};
+
+// White's material minus Black's, in points. Read off the board rather than
+// the captures so promotions and imported positions count correctly.
+export const getMaterialBalance = (board: ({ type: PieceSymbol, color: Color } | null)[][]): number =>
+  board.flat().reduce((sum, p) => p ? sum + (p.color === 'w' ? 1 : -1) * MATERIAL_VALUES[p.type] : sum, 0);
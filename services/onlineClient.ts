@@ -0,0 +1,112 @@
+import { Color } from 'chess.js';
+import { MoveData } from '../types';
+import { DEFAULT_RELAY_PORT, OnlineClientMessage, OnlineServerMessage } from './onlineProtocol';
+
+export type OnlineConnection = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+export interface OnlineClient {
+  create: (color: Color) => void;
+  join: (room: string) => void;
+  sendMove: (ply: number, move: MoveData) => void;
+  requestSync: () => void;
+  leave: () => void;
+}
+
+export interface OnlineClientHandlers {
+  onMessage: (message: OnlineServerMessage) => void;
+  onConnectionChange: (status: OnlineConnection) => void;
+}
+
+const CLIENT_ID_KEY = 'gemini-chess-3d:online-client';
+const ROOM_KEY = 'gemini-chess-3d:online-room';
+const MAX_RETRY_MS = 8000;
+
+export const relayUrl = () => process.env.RELAY_URL || `ws://${location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+
+// Both kept per tab, so two tabs are two players while a reload keeps its seat
+const getClientId = () => {
+  let id = sessionStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+// Room this tab was playing in before a reload, if any
+export const storedRoom = () => sessionStorage.getItem(ROOM_KEY);
+
+// One connection to the relay. After a `joined` message the client remembers
+// the room and rejoins it on every reconnect, which makes the relay send the
+// authoritative state again. Dropped connections retry with backoff until
+// `leave` is called.
+export const createOnlineClient = (handlers: OnlineClientHandlers, url: string = relayUrl()): OnlineClient => {
+  const clientId = getClientId();
+  let socket: WebSocket | null = null;
+  let hello: OnlineClientMessage | null = null;   // Sent on every (re)connect
+  let retries = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const send = (message: OnlineClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const connect = () => {
+    handlers.onConnectionChange(retries === 0 ? 'connecting' : 'reconnecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      retries = 0;
+      handlers.onConnectionChange('open');
+      if (hello) send(hello);
+    };
+    ws.onmessage = (e: MessageEvent<string>) => {
+      let message: OnlineServerMessage;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        console.error('Relay Error: malformed message', e.data);
+        return;
+      }
+      if (message.type === 'joined') {
+        hello = { type: 'join', clientId, room: message.state.room };
+        sessionStorage.setItem(ROOM_KEY, message.state.room);
+      }
+      handlers.onMessage(message);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      if (!hello) {
+        handlers.onConnectionChange('idle');
+        return;
+      }
+      handlers.onConnectionChange('reconnecting');
+      retryTimer = setTimeout(connect, Math.min(MAX_RETRY_MS, 500 * 2 ** retries++));
+    };
+  };
+
+  const start = (message: OnlineClientMessage) => {
+    hello = message;
+    if (socket?.readyState === WebSocket.OPEN) send(message);
+    else if (!socket) connect();
+  };
+
+  return {
+    create: (color) => start({ type: 'create', clientId, color }),
+    join: (room) => start({ type: 'join', clientId, room: room.trim().toUpperCase() }),
+    sendMove: (ply, move) => send({ type: 'move', ply, move }),
+    requestSync: () => send({ type: 'sync-request' }),
+    leave: () => {
+      hello = null;
+      retries = 0;
+      sessionStorage.removeItem(ROOM_KEY);
+      clearTimeout(retryTimer);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      handlers.onConnectionChange('idle');
+    },
+  };
+};
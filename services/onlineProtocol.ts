@@ -0,0 +1,30 @@
+import { Color } from 'chess.js';
+import { MoveData } from '../types';
+
+// Messages exchanged with the relay in server/relay.js. The relay owns the
+// authoritative move list; clients apply moves optimistically and resync
+// from `sync` whenever their list disagrees.
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+export type OnlineClientMessage =
+  | { type: 'create'; clientId: string; color: Color }
+  | { type: 'join'; clientId: string; room: string }
+  | { type: 'move'; ply: number; move: MoveData }   // `ply` = moves played before this one
+  | { type: 'sync-request' };
+
+export interface RoomState {
+  room: string;
+  startFen: string;
+  moves: string[];                   // SAN, authoritative
+  connected: Record<Color, boolean>; // Which seats currently have a live connection
+}
+
+export type OnlineServerMessage =
+  | { type: 'joined'; color: Color; state: RoomState }
+  | { type: 'sync'; state: RoomState }
+  | { type: 'move'; ply: number; san: string }
+  | { type: 'presence'; connected: Record<Color, boolean> }
+  | { type: 'error'; message: string };
+
+export const ROOM_CODE_PATTERN = /^[A-Z0-9]{6}$/;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Chess, DEFAULT_POSITION, Move } from 'chess.js';
+import { OPENINGS, getBookMoves, identifyOpening } from './openings';
+
+const play = (sans: string) => {
+  const chess = new Chess();
+  sans.split(' ').forEach(san => chess.move(san));
+  return chess.history({ verbose: true }) as Move[];
+};
+
+describe('opening book', () => {
+  it.each(OPENINGS.map(o => [`${o.eco} ${o.name}`, o.moves]))('%s is a legal line', (_, moves) => {
+    expect(() => play(moves)).not.toThrow();
+  });
+
+  it('offers book moves from the start, named after the lines they reach', () => {
+    const moves = getBookMoves(DEFAULT_POSITION);
+    expect(moves.find(m => m.san === 'c4')?.opening.name).toBe('English Opening');
+    expect(moves.find(m => m.uci === 'g1f3')?.opening.name).toBe('Zukertort Opening');
+    expect(getBookMoves('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual([]);
+  });
+});
+
+describe('identifyOpening', () => {
+  it('names the deepest position reached', () => {
+    expect(identifyOpening(DEFAULT_POSITION, play('d4 d5 c4 e6 Nc3'))).toEqual({
+      opening: expect.objectContaining({ eco: 'D31' }),
+      inBook: true,
+      leftBookAt: null,
+    });
+  });
+
+  it('recognises a transposition into a line', () => {
+    const state = identifyOpening(DEFAULT_POSITION, play('c4 e6 Nc3 d5 d4'));
+    expect(state.opening?.name).toBe("Queen's Gambit Declined: Queen's Knight Variation");
+    expect(state.inBook).toBe(true);
+    expect(state.leftBookAt).toBeNull();
+  });
+
+  it('marks the move that left the book and keeps the last name', () => {
+    const state = identifyOpening(DEFAULT_POSITION, play('d4 d5 c4 e6 h4 h5'));
+    expect(state.opening?.name).toBe("Queen's Gambit Declined");
+    expect(state.inBook).toBe(false);
+    expect(state.leftBookAt).toBe(4);
+  });
+
+  it('knows nothing of positions outside the book', () => {
+    expect(identifyOpening('4k3/8/8/8/8/8/8/4K3 w - - 0 1', [])).toEqual({ opening: null, inBook: false, leftBookAt: null });
+  });
+});
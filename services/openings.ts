@@ -0,0 +1,262 @@
+import { Chess, Move, Square } from 'chess.js';
+import { PromotionPiece } from '../types';
+
+export interface Opening {
+  eco: string;
+  name: string;
+  moves: string;   // SAN from the standard start, space-separated
+}
+
+// A move that stays in the book, with the opening it leads into
+export interface BookMove {
+  san: string;
+  uci: string;
+  from: Square;
+  to: Square;
+  promotion?: PromotionPiece;
+  opening: Opening;
+}
+
+export interface OpeningState {
+  opening: Opening | null;     // Deepest named position reached so far
+  inBook: boolean;             // The current position is on a book line
+  leftBookAt: number | null;   // Index of the move that left the book, while out of it
+}
+
+// --- Book ---
+// The common lines by ECO code. Positions, not move orders, are matched, so
+// transpositions into a line are recognised.
+
+export const OPENINGS: Opening[] = [
+  // Flank openings
+  { eco: 'A00', name: 'Polish Opening', moves: 'b4' },
+  { eco: 'A00', name: 'Grob Opening', moves: 'g4' },
+  { eco: 'A01', name: 'Nimzo-Larsen Attack', moves: 'b3' },
+  { eco: 'A02', name: "Bird's Opening", moves: 'f4' },
+  { eco: 'A04', name: 'Zukertort Opening', moves: 'Nf3' },
+  { eco: 'A07', name: "King's Indian Attack", moves: 'Nf3 d5 g3' },
+  { eco: 'A09', name: 'Réti Opening', moves: 'Nf3 d5 c4' },
+  { eco: 'A10', name: 'English Opening', moves: 'c4' },
+  { eco: 'A15', name: 'English Opening: Anglo-Indian Defense', moves: 'c4 Nf6' },
+  { eco: 'A20', name: "English Opening: King's English Variation", moves: 'c4 e5' },
+  { eco: 'A30', name: 'English Opening: Symmetrical Variation', moves: 'c4 c5' },
+
+  // Queen's pawn
+  { eco: 'A40', name: "Queen's Pawn Game", moves: 'd4' },
+  { eco: 'A43', name: 'Old Benoni Defense', moves: 'd4 c5' },
+  { eco: 'A45', name: 'Indian Defense', moves: 'd4 Nf6' },
+  { eco: 'A45', name: 'Trompowsky Attack', moves: 'd4 Nf6 Bg5' },
+  { eco: 'A46', name: 'Indian Defense: Knights Variation', moves: 'd4 Nf6 Nf3' },
+  { eco: 'A46', name: 'Torre Attack', moves: 'd4 Nf6 Nf3 e6 Bg5' },
+  { eco: 'A50', name: 'Indian Defense: Normal Variation', moves: 'd4 Nf6 c4' },
+  { eco: 'A56', name: 'Benoni Defense', moves: 'd4 Nf6 c4 c5' },
+  { eco: 'A57', name: 'Benko Gambit', moves: 'd4 Nf6 c4 c5 d5 b5' },
+  { eco: 'A60', name: 'Benoni Defense: Modern Variation', moves: 'd4 Nf6 c4 c5 d5 e6' },
+  { eco: 'A80', name: 'Dutch Defense', moves: 'd4 f5' },
+  { eco: 'D00', name: "Queen's Pawn Game: Symmetrical Variation", moves: 'd4 d5' },
+  { eco: 'D00', name: 'London System', moves: 'd4 d5 Bf4' },
+  { eco: 'D00', name: 'Blackmar-Diemer Gambit', moves: 'd4 d5 e4' },
+  { eco: 'D01', name: 'Richter-Veresov Attack', moves: 'd4 d5 Nc3 Nf6 Bg5' },
+  { eco: 'D02', name: "Queen's Pawn Game: Zukertort Variation", moves: 'd4 d5 Nf3' },
+  { eco: 'D02', name: 'London System', moves: 'd4 d5 Nf3 Nf6 Bf4' },
+  { eco: 'D04', name: 'Colle System', moves: 'd4 d5 Nf3 Nf6 e3' },
+  { eco: 'D06', name: "Queen's Gambit", moves: 'd4 d5 c4' },
+  { eco: 'D07', name: 'Chigorin Defense', moves: 'd4 d5 c4 Nc6' },
+  { eco: 'D08', name: 'Albin Countergambit', moves: 'd4 d5 c4 e5' },
+  { eco: 'D10', name: 'Slav Defense', moves: 'd4 d5 c4 c6' },
+  { eco: 'D11', name: 'Slav Defense: Modern Line', moves: 'd4 d5 c4 c6 Nf3' },
+  { eco: 'D15', name: 'Slav Defense: Three Knights Variation', moves: 'd4 d5 c4 c6 Nf3 Nf6 Nc3' },
+  { eco: 'D20', name: "Queen's Gambit Accepted", moves: 'd4 d5 c4 dxc4' },
+  { eco: 'D30', name: "Queen's Gambit Declined", moves: 'd4 d5 c4 e6' },
+  { eco: 'D31', name: "Queen's Gambit Declined: Queen's Knight Variation", moves: 'd4 d5 c4 e6 Nc3' },
+  { eco: 'D35', name: "Queen's Gambit Declined: Exchange Variation", moves: 'd4 d5 c4 e6 Nc3 Nf6 cxd5' },
+  { eco: 'D37', name: "Queen's Gambit Declined: Three Knights Variation", moves: 'd4 d5 c4 e6 Nc3 Nf6 Nf3' },
+  { eco: 'D43', name: 'Semi-Slav Defense', moves: 'd4 d5 c4 e6 Nc3 Nf6 Nf3 c6' },
+  { eco: 'D53', name: "Queen's Gambit Declined: Orthodox Defense", moves: 'd4 d5 c4 e6 Nc3 Nf6 Bg5 Be7' },
+  { eco: 'D80', name: 'Grünfeld Defense', moves: 'd4 Nf6 c4 g6 Nc3 d5' },
+  { eco: 'D85', name: 'Grünfeld Defense: Exchange Variation', moves: 'd4 Nf6 c4 g6 Nc3 d5 cxd5 Nxd5' },
+  { eco: 'E00', name: 'Indian Defense: East Indian Defense', moves: 'd4 Nf6 c4 e6' },
+  { eco: 'E01', name: 'Catalan Opening', moves: 'd4 Nf6 c4 e6 g3' },
+  { eco: 'E10', name: 'Indian Defense: Anglo-Indian Variation', moves: 'd4 Nf6 c4 e6 Nf3' },
+  { eco: 'E11', name: 'Bogo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nf3 Bb4+' },
+  { eco: 'E12', name: "Queen's Indian Defense", moves: 'd4 Nf6 c4 e6 Nf3 b6' },
+  { eco: 'E20', name: 'Nimzo-Indian Defense', moves: 'd4 Nf6 c4 e6 Nc3 Bb4' },
+  { eco: 'E32', name: 'Nimzo-Indian Defense: Classical Variation', moves: 'd4 Nf6 c4 e6 Nc3 Bb4 Qc2' },
+  { eco: 'E40', name: 'Nimzo-Indian Defense: Rubinstein Variation', moves: 'd4 Nf6 c4 e6 Nc3 Bb4 e3' },
+  { eco: 'E60', name: "King's Indian Defense", moves: 'd4 Nf6 c4 g6' },
+  { eco: 'E61', name: "King's Indian Defense: Normal Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7' },
+  { eco: 'E70', name: "King's Indian Defense: Main Line", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6' },
+  { eco: 'E80', name: "King's Indian Defense: Sämisch Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 f3' },
+  { eco: 'E92', name: "King's Indian Defense: Classical Variation", moves: 'd4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3 O-O Be2 e5' },
+
+  // King's pawn, semi-open
+  { eco: 'B00', name: "King's Pawn Game", moves: 'e4' },
+  { eco: 'B00', name: 'Nimzowitsch Defense', moves: 'e4 Nc6' },
+  { eco: 'B00', name: "Owen's Defense", moves: 'e4 b6' },
+  { eco: 'B01', name: 'Scandinavian Defense', moves: 'e4 d5' },
+  { eco: 'B01', name: 'Scandinavian Defense: Main Line', moves: 'e4 d5 exd5 Qxd5 Nc3 Qa5' },
+  { eco: 'B01', name: 'Scandinavian Defense: Modern Variation', moves: 'e4 d5 exd5 Nf6' },
+  { eco: 'B02', name: "Alekhine's Defense", moves: 'e4 Nf6' },
+  { eco: 'B03', name: "Alekhine's Defense: Four Pawns Attack", moves: 'e4 Nf6 e5 Nd5 d4 d6 c4 Nb6 f4' },
+  { eco: 'B04', name: "Alekhine's Defense: Modern Variation", moves: 'e4 Nf6 e5 Nd5 d4 d6 Nf3' },
+  { eco: 'B06', name: 'Modern Defense', moves: 'e4 g6' },
+  { eco: 'B07', name: 'Pirc Defense', moves: 'e4 d6 d4 Nf6 Nc3 g6' },
+  { eco: 'B09', name: 'Pirc Defense: Austrian Attack', moves: 'e4 d6 d4 Nf6 Nc3 g6 f4' },
+  { eco: 'B10', name: 'Caro-Kann Defense', moves: 'e4 c6' },
+  { eco: 'B11', name: 'Caro-Kann Defense: Two Knights Attack', moves: 'e4 c6 Nc3 d5 Nf3' },
+  { eco: 'B12', name: 'Caro-Kann Defense: Advance Variation', moves: 'e4 c6 d4 d5 e5' },
+  { eco: 'B13', name: 'Caro-Kann Defense: Exchange Variation', moves: 'e4 c6 d4 d5 exd5 cxd5' },
+  { eco: 'B13', name: 'Caro-Kann Defense: Panov Attack', moves: 'e4 c6 d4 d5 exd5 cxd5 c4' },
+  { eco: 'B15', name: 'Caro-Kann Defense: Main Line', moves: 'e4 c6 d4 d5 Nc3' },
+  { eco: 'B18', name: 'Caro-Kann Defense: Classical Variation', moves: 'e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5' },
+  { eco: 'B20', name: 'Sicilian Defense', moves: 'e4 c5' },
+  { eco: 'B21', name: 'Sicilian Defense: Smith-Morra Gambit', moves: 'e4 c5 d4 cxd4 c3' },
+  { eco: 'B22', name: 'Sicilian Defense: Alapin Variation', moves: 'e4 c5 c3' },
+  { eco: 'B23', name: 'Sicilian Defense: Closed', moves: 'e4 c5 Nc3' },
+  { eco: 'B27', name: 'Sicilian Defense: Open', moves: 'e4 c5 Nf3' },
+  { eco: 'B30', name: 'Sicilian Defense: Old Sicilian', moves: 'e4 c5 Nf3 Nc6' },
+  { eco: 'B30', name: 'Sicilian Defense: Rossolimo Variation', moves: 'e4 c5 Nf3 Nc6 Bb5' },
+  { eco: 'B33', name: 'Sicilian Defense: Sveshnikov Variation', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5' },
+  { eco: 'B34', name: 'Sicilian Defense: Accelerated Dragon', moves: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 g6' },
+  { eco: 'B40', name: 'Sicilian Defense: French Variation', moves: 'e4 c5 Nf3 e6' },
+  { eco: 'B41', name: 'Sicilian Defense: Kan Variation', moves: 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 a6' },
+  { eco: 'B44', name: 'Sicilian Defense: Taimanov Variation', moves: 'e4 c5 Nf3 e6 d4 cxd4 Nxd4 Nc6' },
+  { eco: 'B50', name: 'Sicilian Defense: Modern Variations', moves: 'e4 c5 Nf3 d6' },
+  { eco: 'B51', name: 'Sicilian Defense: Moscow Variation', moves: 'e4 c5 Nf3 d6 Bb5+' },
+  { eco: 'B54', name: 'Sicilian Defense: Open, Modern Variations', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4' },
+  { eco: 'B56', name: 'Sicilian Defense: Classical Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 Nc6' },
+  { eco: 'B70', name: 'Sicilian Defense: Dragon Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6' },
+  { eco: 'B80', name: 'Sicilian Defense: Scheveningen Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 e6' },
+  { eco: 'B90', name: 'Sicilian Defense: Najdorf Variation', moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6' },
+  { eco: 'C00', name: 'French Defense', moves: 'e4 e6' },
+  { eco: 'C01', name: 'French Defense: Exchange Variation', moves: 'e4 e6 d4 d5 exd5' },
+  { eco: 'C02', name: 'French Defense: Advance Variation', moves: 'e4 e6 d4 d5 e5' },
+  { eco: 'C03', name: 'French Defense: Tarrasch Variation', moves: 'e4 e6 d4 d5 Nd2' },
+  { eco: 'C10', name: 'French Defense: Paulsen Variation', moves: 'e4 e6 d4 d5 Nc3' },
+  { eco: 'C10', name: 'French Defense: Rubinstein Variation', moves: 'e4 e6 d4 d5 Nc3 dxe4' },
+  { eco: 'C11', name: 'French Defense: Classical Variation', moves: 'e4 e6 d4 d5 Nc3 Nf6' },
+  { eco: 'C15', name: 'French Defense: Winawer Variation', moves: 'e4 e6 d4 d5 Nc3 Bb4' },
+
+  // King's pawn, open
+  { eco: 'C20', name: "King's Pawn Game", moves: 'e4 e5' },
+  { eco: 'C20', name: "King's Pawn Game: Wayward Queen Attack", moves: 'e4 e5 Qh5' },
+  { eco: 'C21', name: 'Center Game', moves: 'e4 e5 d4 exd4' },
+  { eco: 'C21', name: 'Danish Gambit', moves: 'e4 e5 d4 exd4 c3' },
+  { eco: 'C23', name: "Bishop's Opening", moves: 'e4 e5 Bc4' },
+  { eco: 'C25', name: 'Vienna Game', moves: 'e4 e5 Nc3' },
+  { eco: 'C29', name: 'Vienna Gambit', moves: 'e4 e5 Nc3 Nf6 f4' },
+  { eco: 'C30', name: "King's Gambit", moves: 'e4 e5 f4' },
+  { eco: 'C30', name: "King's Gambit Declined: Classical Variation", moves: 'e4 e5 f4 Bc5' },
+  { eco: 'C31', name: 'Falkbeer Countergambit', moves: 'e4 e5 f4 d5' },
+  { eco: 'C33', name: "King's Gambit Accepted", moves: 'e4 e5 f4 exf4' },
+  { eco: 'C40', name: "King's Knight Opening", moves: 'e4 e5 Nf3' },
+  { eco: 'C40', name: 'Latvian Gambit', moves: 'e4 e5 Nf3 f5' },
+  { eco: 'C40', name: 'Elephant Gambit', moves: 'e4 e5 Nf3 d5' },
+  { eco: 'C41', name: 'Philidor Defense', moves: 'e4 e5 Nf3 d6' },
+  { eco: 'C42', name: "Petrov's Defense", moves: 'e4 e5 Nf3 Nf6' },
+  { eco: 'C44', name: "King's Knight Opening: Normal Variation", moves: 'e4 e5 Nf3 Nc6' },
+  { eco: 'C44', name: 'Ponziani Opening', moves: 'e4 e5 Nf3 Nc6 c3' },
+  { eco: 'C44', name: 'Scotch Gambit', moves: 'e4 e5 Nf3 Nc6 d4 exd4 Bc4' },
+  { eco: 'C45', name: 'Scotch Game', moves: 'e4 e5 Nf3 Nc6 d4' },
+  { eco: 'C46', name: 'Three Knights Opening', moves: 'e4 e5 Nf3 Nc6 Nc3' },
+  { eco: 'C47', name: 'Four Knights Game', moves: 'e4 e5 Nf3 Nc6 Nc3 Nf6' },
+  { eco: 'C48', name: 'Four Knights Game: Spanish Variation', moves: 'e4 e5 Nf3 Nc6 Nc3 Nf6 Bb5' },
+  { eco: 'C50', name: 'Italian Game', moves: 'e4 e5 Nf3 Nc6 Bc4' },
+  { eco: 'C50', name: 'Italian Game: Hungarian Defense', moves: 'e4 e5 Nf3 Nc6 Bc4 Be7' },
+  { eco: 'C50', name: 'Italian Game: Giuoco Piano', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5' },
+  { eco: 'C50', name: 'Italian Game: Giuoco Pianissimo', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 d3' },
+  { eco: 'C51', name: 'Italian Game: Evans Gambit', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4' },
+  { eco: 'C53', name: 'Italian Game: Classical Variation', moves: 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3' },
+  { eco: 'C55', name: 'Italian Game: Two Knights Defense', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6' },
+  { eco: 'C57', name: 'Italian Game: Two Knights Defense, Knight Attack', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5' },
+  { eco: 'C57', name: 'Italian Game: Two Knights Defense, Fried Liver Attack', moves: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7' },
+  { eco: 'C60', name: 'Ruy Lopez', moves: 'e4 e5 Nf3 Nc6 Bb5' },
+  { eco: 'C65', name: 'Ruy Lopez: Berlin Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 Nf6' },
+  { eco: 'C68', name: 'Ruy Lopez: Exchange Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6' },
+  { eco: 'C70', name: 'Ruy Lopez: Morphy Defense', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4' },
+  { eco: 'C80', name: 'Ruy Lopez: Open Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4' },
+  { eco: 'C84', name: 'Ruy Lopez: Closed Variation', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7' },
+  { eco: 'C89', name: 'Ruy Lopez: Marshall Attack', moves: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7 Re1 b5 Bb3 O-O c3 d5' },
+];
+
+// Position key without the move counters, so transpositions match
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+interface BookEdge {
+  move: Omit<BookMove, 'opening'>;
+  line: Opening;                    // First line to play the move
+  key: string;                      // Position the move leads to
+}
+
+interface BookPosition {
+  opening: Opening | null;          // The line that ends exactly here, if any
+  next: Map<string, BookEdge>;      // Continuations by UCI
+}
+
+let book: Map<string, BookPosition> | null = null;
+
+// Built on first use. Lines are replayed shortest first, so a position takes
+// its name from the most general line ending there.
+const getBook = (): Map<string, BookPosition> => {
+  if (book) return book;
+  const positions = book = new Map<string, BookPosition>();
+  const at = (key: string) => {
+    let position = positions.get(key);
+    if (!position) positions.set(key, position = { opening: null, next: new Map() });
+    return position;
+  };
+
+  [...OPENINGS].sort((a, b) => a.moves.split(' ').length - b.moves.split(' ').length).forEach(opening => {
+    const chess = new Chess();
+    let key = positionKey(chess.fen());
+    opening.moves.split(' ').forEach(san => {
+      const from = at(key);
+      const move = chess.move(san);
+      key = positionKey(chess.fen());
+      if (!from.next.has(move.lan)) {
+        from.next.set(move.lan, {
+          move: { san: move.san, uci: move.lan, from: move.from, to: move.to, promotion: move.promotion as PromotionPiece | undefined },
+          line: opening,
+          key,
+        });
+      }
+    });
+    const end = at(key);
+    if (!end.opening) end.opening = opening;
+  });
+  return positions;
+};
+
+// --- Lookups ---
+
+// Book moves from the position, each labelled with the opening it reaches,
+// or with the line it belongs to when that position has no name of its own
+export const getBookMoves = (fen: string): BookMove[] => {
+  const positions = getBook();
+  const position = positions.get(positionKey(fen));
+  if (!position) return [];
+  return [...position.next.values()].map(({ move, line, key }) => ({ ...move, opening: positions.get(key)?.opening ?? line }));
+};
+
+// Follows a game through the book: the opening is the last named position
+// reached, and the game is out of book once a move lands off every line.
+export const identifyOpening = (startFen: string, moves: Move[]): OpeningState => {
+  const positions = getBook();
+  let opening: Opening | null = positions.get(positionKey(startFen))?.opening ?? null;
+  let inBook = positions.has(positionKey(startFen));
+  let leftBookAt: number | null = null;
+
+  moves.forEach((move, i) => {
+    const position = positions.get(positionKey(move.after));
+    if (position) {
+      if (position.opening) opening = position.opening;
+      inBook = true;
+      leftBookAt = null;
+    } else if (inBook) {
+      inBook = false;
+      leftBookAt = i;
+    }
+  });
+
+  return { opening, inBook, leftBookAt };
+};
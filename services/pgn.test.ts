@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Chess } from 'chess.js';
+import { exportPgn, importPgn } from './pgn';
+import { chess960Fen, createChess } from './variants';
+import { GameStatus, Variant } from '../types';
+
+const PLAYERS = { white: 'Alice', black: 'Bob' };
+
+describe('exportPgn', () => {
+  it('leaves the game itself untouched', () => {
+    const game = new Chess();
+    game.move('e4');
+    const before = game.getHeaders();
+    const { pgn, headers } = exportPgn(game, GameStatus.PLAYING, PLAYERS);
+
+    expect(game.getHeaders()).toEqual(before);
+    expect(game.history()).toEqual(['e4']);
+    expect(headers).toMatchObject({ Event: 'Casual Game', White: 'Alice', Black: 'Bob', Result: '*' });
+    expect(pgn).toContain('1. e4 *');
+  });
+
+  it('keeps the tags and comments of an imported game', () => {
+    const game = importPgn('[Event "Club Final"]\n[Round "3"]\n\n1. e4 {Best by test} e5 2. Nf3 *');
+    const { pgn, headers } = exportPgn(game, GameStatus.PLAYING, PLAYERS);
+    expect(headers.Event).toBe('Club Final');
+    expect(headers.Round).toBe('3');
+    expect(pgn).toContain('1. e4 {Best by test} e5 2. Nf3');
+  });
+
+  it('writes the variant and start position of a Chess960 game', () => {
+    const fen = chess960Fen(0);
+    const game = createChess(fen, Variant.CHESS960);
+    game.setHeader('Variant', Variant.CHESS960);
+    game.move('g3');
+    const { headers, pgn } = exportPgn(game, GameStatus.PLAYING, PLAYERS);
+    expect(headers).toMatchObject({ Variant: 'Chess960', SetUp: '1', FEN: fen });
+    expect(importPgn(pgn).fen()).toBe(game.fen());
+  });
+});
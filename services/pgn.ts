@@ -0,0 +1,144 @@
+import { Chess, Color, Move } from 'chess.js';
+import { GameStatus, Variant } from '../types';
+import { createChess, getVariant, parseVariant } from './variants';
+
+export class PgnImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PgnImportError';
+  }
+}
+
+export interface PgnPlayers {
+  white: string;
+  black: string;
+}
+
+// PGN result token for the current game state. `turn` is the side to move,
+// which is the side that got mated on checkmate or whose flag fell.
+export const resultFromStatus = (status: GameStatus, turn: Color): string => {
+  switch (status) {
+    case GameStatus.CHECKMATE:
+    case GameStatus.TIMEOUT:
+    case GameStatus.ELIMINATED:
+      return turn === 'w' ? '0-1' : '1-0';
+    case GameStatus.DRAW:
+    case GameStatus.STALEMATE:
+    case GameStatus.TIMEOUT_DRAW:
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+};
+
+export const formatPgnDate = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+export interface PgnExport {
+  pgn: string;
+  headers: Record<string, string>;   // The tags written, e.g. for the file name
+}
+
+// Replays the game, with its tags and comments, so exporting never touches
+// the game being played (and autosaved)
+const copyGame = (game: Chess): Chess => {
+  const moves = game.history({ verbose: true }) as Move[];
+  const copy = createChess(moves[0]?.before ?? game.fen(), getVariant(game));
+  Object.entries(game.getHeaders()).forEach(([key, value]) => copy.setHeader(key, value));
+
+  const comments = new Map(game.getComments().map(({ fen, comment }) => [fen, comment]));
+  const copyComment = () => {
+    const comment = comments.get(copy.fen());
+    if (comment) copy.setComment(comment);
+  };
+  copyComment();
+  moves.forEach(move => {
+    copy.move({ from: move.from, to: move.to, promotion: move.promotion });
+    copyComment();
+  });
+  return copy;
+};
+
+// Returns the game's PGN with the Seven Tag Roster filled in. Tags that an
+// imported game already carries (Event, Site, Date, Round) are kept. Variant
+// games always carry their start position, even the one Chess960 shares with
+// standard chess (chess.js leaves SetUp/FEN out for that).
+export const exportPgn = (game: Chess, status: GameStatus, players: PgnPlayers): PgnExport => {
+  const copy = copyGame(game);
+  const headers = game.getHeaders();
+  const keep = (key: string, fallback: string) =>
+    headers[key] && !headers[key].includes('?') ? headers[key] : fallback;
+
+  copy.setHeader('Event', keep('Event', 'Casual Game'));
+  copy.setHeader('Site', keep('Site', 'Gemini Chess 3D'));
+  copy.setHeader('Date', keep('Date', formatPgnDate(new Date())));
+  copy.setHeader('Round', keep('Round', '-'));
+  copy.setHeader('White', players.white.trim() || '?');
+  copy.setHeader('Black', players.black.trim() || '?');
+  copy.setHeader('Result', resultFromStatus(status, copy.turn()));
+
+  const variant = getVariant(copy);
+  if (variant !== Variant.STANDARD) {
+    const first = copy.history({ verbose: true })[0] as Move | undefined;
+    copy.setHeader('Variant', variant);
+    copy.setHeader('SetUp', '1');
+    copy.setHeader('FEN', first?.before ?? copy.fen());
+  }
+
+  return { pgn: copy.pgn({ maxWidth: 80 }), headers: copy.getHeaders() };
+};
+
+// Parses PGN text into a fresh game, translating chess.js parser errors into
+// messages that point at the offending move or line. The Variant tag decides
+// the rules the moves are read with.
+export const importPgn = (text: string): Chess => {
+  if (!text.trim()) {
+    throw new PgnImportError('Paste PGN text or choose a .pgn file to import.');
+  }
+
+  const variantTag = text.match(/\[Variant\s+"([^"]*)"\]/)?.[1];
+  const game = createChess(undefined, parseVariant(variantTag));
+  try {
+    game.loadPgn(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    const illegal = message.match(/^Invalid move in PGN: (.+)$/);
+    if (illegal) {
+      // chess.js stops at the bad move, so the partially loaded game tells us where
+      const side = game.turn() === 'w' ? 'White' : 'Black';
+      throw new PgnImportError(
+        `Illegal move "${illegal[1]}" at move ${game.moveNumber()} for ${side}.`
+      );
+    }
+
+    const location = (error as { location?: { start: { line: number, column: number } } }).location;
+    const found = (error as { found?: string | null }).found;
+    if (location) {
+      const near = found ? ` near "${found}"` : '';
+      throw new PgnImportError(
+        `Malformed PGN at line ${location.start.line}, column ${location.start.column}${near}.`
+      );
+    }
+
+    if (/fen/i.test(message)) {
+      throw new PgnImportError(`Invalid starting position in PGN: ${message}`);
+    }
+    throw new PgnImportError(`Could not read PGN: ${message}`);
+  }
+
+  return game;
+};
+
+// Saves PGN text as a .pgn file named after the players and date
+export const downloadPgn = (pgn: string, headers: Record<string, string>) => {
+  const name = `${headers.White}-vs-${headers.Black}-${headers.Date}`.replace(/[^\w.-]+/g, '_');
+  const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.pgn`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PieceSetError, loadLocalPieceSet, parsePieceSetManifest } from './pieceSets';
+
+const resolve = (url: string) => `https://example.test/set/${url}`;
+const parse = (manifest: unknown) => parsePieceSetManifest(JSON.stringify(manifest), 'set', resolve);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parsePieceSetManifest', () => {
+  it('resolves urls, multiplies scales and turns degrees into radians', () => {
+    const set = parse({
+      name: ' Staunton ',
+      scale: 2,
+      pieces: {
+        n: { url: 'knight.glb', scale: 1.5, rotation: [0, 90, 0], offset: [0, 0.1, 0] },
+        k: { url: 'king.glb' },
+      },
+    });
+    expect(set.name).toBe('Staunton');
+    expect(set.blackRotation).toEqual([0, Math.PI, 0]);
+    expect(set.pieces.n).toEqual({ url: 'https://example.test/set/knight.glb', scale: 3, rotation: [0, Math.PI / 2, 0], offset: [0, 0.1, 0] });
+    expect(set.pieces.k).toEqual({ url: 'https://example.test/set/king.glb', scale: 2, rotation: [0, 0, 0], offset: [0, 0, 0] });
+    expect(set.pieces.q).toBeUndefined();
+  });
+
+  it('rejects manifests without pieces', () => {
+    expect(() => parsePieceSetManifest('{', 'set', resolve)).toThrow('not valid JSON');
+    expect(() => parse([])).toThrow('needs a "pieces" object');
+    expect(() => parse({ pieces: [] })).toThrow('needs a "pieces" object');
+    expect(() => parse({ pieces: { x: { url: 'x.glb' } } })).toThrow('does not list any of p, n, b, r, q, k');
+  });
+
+  it.each([
+    [{ p: { url: '' } }, '"pieces.p.url" must name'],
+    [{ p: 'pawn.glb' }, '"pieces.p.url" must name'],
+    [{ p: { url: 'pawn.glb', scale: 0 } }, '"pieces.p.scale" must be a positive number'],
+    [{ p: { url: 'pawn.glb', scale: '2' } }, '"pieces.p.scale" must be a positive number'],
+    [{ p: { url: 'pawn.glb', rotation: [0, 90] } }, '"pieces.p.rotation" must be an array of three numbers'],
+    [{ p: { url: 'pawn.glb', offset: [0, null, 0] } }, '"pieces.p.offset" must be an array of three numbers'],
+  ])('rejects the entry %j', (pieces, message) => {
+    expect(() => parse({ pieces })).toThrow(message);
+  });
+
+  it('rejects a bad set-wide scale or rotation', () => {
+    expect(() => parse({ scale: -1, pieces: { p: { url: 'pawn.glb' } } })).toThrow('"scale" must be a positive number');
+    expect(() => parse({ blackRotation: [0, 'half', 0], pieces: { p: { url: 'pawn.glb' } } })).toThrow('"blackRotation" must be an array');
+  });
+});
+
+describe('loadLocalPieceSet', () => {
+  const manifest = (pieces: unknown) => new File([JSON.stringify({ pieces })], 'manifest.json');
+
+  it('serves the picked models from object urls', async () => {
+    const set = await loadLocalPieceSet([manifest({ p: { url: 'models/pawn.glb' } }), new File(['glb'], 'pawn.glb')]);
+    expect(set.pieces.p?.url).toMatch(/^blob:/);
+    URL.revokeObjectURL(set.pieces.p!.url);
+  });
+
+  it('revokes the object urls already made when a later model is missing', async () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+    const files = [manifest({ p: { url: 'pawn.glb' }, n: { url: 'knight.glb' } }), new File(['glb'], 'pawn.glb')];
+    await expect(loadLocalPieceSet(files)).rejects.toThrow(PieceSetError);
+    expect(revoke).toHaveBeenCalledOnce();
+    expect(revoke.mock.calls[0][0]).toMatch(/^blob:/);
+  });
+
+  it('needs the manifest among the files', async () => {
+    await expect(loadLocalPieceSet([new File(['glb'], 'pawn.glb')])).rejects.toThrow('Select the manifest');
+  });
+});
@@ -0,0 +1,154 @@
+import { PieceSymbol } from 'chess.js';
+
+// A piece set maps piece types to glTF/GLB models. Types it leaves out, and
+// models that fail to load, fall back to the built-in primitive pieces.
+//
+// manifest.json:
+//   {
+//     "name": "Staunton",
+//     "scale": 1,                      // Applied to every model
+//     "blackRotation": [0, 180, 0],    // Degrees, turns Black's pieces to face White
+//     "pieces": {
+//       "n": { "url": "knight.glb", "scale": 1.1, "rotation": [0, 90, 0], "offset": [0, 0, 0] },
+//       ...
+//     }
+//   }
+// Model URLs are relative to the manifest.
+
+export type Vec3 = [number, number, number];
+
+export interface PieceModel {
+  url: string;       // Resolved, ready for the loader
+  scale: number;     // Includes the set-wide scale
+  rotation: Vec3;    // Radians
+  offset: Vec3;      // Board units, applied after scaling
+}
+
+export interface PieceSet {
+  id: string;
+  name: string;
+  blackRotation: Vec3;   // Radians
+  pieces: Partial<Record<PieceSymbol, PieceModel>>;
+}
+
+// Entry in public/piece-sets/index.json
+export interface PieceSetListing {
+  id: string;
+  name: string;
+  manifest: string;   // URL of the manifest, relative to the index
+}
+
+export const PRIMITIVE_PIECE_SET_ID = 'primitive';
+const PIECE_SET_INDEX = '/piece-sets/index.json';
+const PIECE_TYPES: PieceSymbol[] = ['p', 'n', 'b', 'r', 'q', 'k'];
+
+export class PieceSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PieceSetError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toRadians = (degrees: Vec3): Vec3 => degrees.map(d => d * Math.PI / 180) as Vec3;
+
+const readVec3 = (value: unknown, field: string, fallback: Vec3): Vec3 => {
+  if (value === undefined) return fallback;
+  if (!Array.isArray(value) || value.length !== 3 || !value.every(n => typeof n === 'number' && isFinite(n))) {
+    throw new PieceSetError(`"${field}" must be an array of three numbers.`);
+  }
+  return value as Vec3;
+};
+
+const readScale = (value: unknown, field: string): number => {
+  if (value === undefined) return 1;
+  if (typeof value !== 'number' || !(value > 0)) throw new PieceSetError(`"${field}" must be a positive number.`);
+  return value;
+};
+
+// Validates a manifest; `resolveUrl` turns each model's url into a loadable one
+export const parsePieceSetManifest = (json: string, id: string, resolveUrl: (url: string) => string): PieceSet => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PieceSetError('The piece set manifest is not valid JSON.');
+  }
+  if (!isObject(data) || !isObject(data.pieces)) {
+    throw new PieceSetError('The piece set manifest needs a "pieces" object.');
+  }
+
+  const setScale = readScale(data.scale, 'scale');
+  const pieces: PieceSet['pieces'] = {};
+  for (const type of PIECE_TYPES) {
+    const entry = data.pieces[type];
+    if (entry === undefined) continue;
+    if (!isObject(entry) || typeof entry.url !== 'string' || !entry.url) throw new PieceSetError(`"pieces.${type}.url" must name a .glb or .gltf file.`);
+    pieces[type] = {
+      url: resolveUrl(entry.url),
+      scale: setScale * readScale(entry.scale, `pieces.${type}.scale`),
+      rotation: toRadians(readVec3(entry.rotation, `pieces.${type}.rotation`, [0, 0, 0])),
+      offset: readVec3(entry.offset, `pieces.${type}.offset`, [0, 0, 0]),
+    };
+  }
+  if (Object.keys(pieces).length === 0) throw new PieceSetError('The piece set manifest does not list any of p, n, b, r, q, k.');
+
+  return {
+    id,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Custom Pieces',
+    blackRotation: toRadians(readVec3(data.blackRotation, 'blackRotation', [0, 180, 0])),
+    pieces,
+  };
+};
+
+// Sets shipped with the app under public/piece-sets; none is not an error
+export const listPieceSets = async (): Promise<PieceSetListing[]> => {
+  try {
+    const response = await fetch(PIECE_SET_INDEX);
+    if (!response.ok) return [];
+    const listings: unknown = await response.json();
+    return Array.isArray(listings)
+      ? listings.filter((l): l is PieceSetListing => isObject(l) && typeof l.id === 'string' && typeof l.name === 'string' && typeof l.manifest === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadPieceSet = async (listing: PieceSetListing): Promise<PieceSet> => {
+  const manifestUrl = new URL(listing.manifest, new URL(PIECE_SET_INDEX, location.href)).href;
+  let response: Response;
+  try {
+    response = await fetch(manifestUrl);
+  } catch {
+    throw new PieceSetError(`Could not fetch the manifest for "${listing.name}".`);
+  }
+  if (!response.ok) throw new PieceSetError(`Could not fetch the manifest for "${listing.name}" (HTTP ${response.status}).`);
+  const set = parsePieceSetManifest(await response.text(), listing.id, url => new URL(url, manifestUrl).href);
+  return { ...set, name: listing.name };
+};
+
+// Builds a set from files picked together: a manifest.json plus the models it
+// names. The models are served from object URLs, so the set lasts until reload
+// and its models must be self-contained (.glb, or .gltf with embedded buffers).
+export const loadLocalPieceSet = async (files: File[]): Promise<PieceSet> => {
+  const manifest = files.find(f => f.name.toLowerCase().endsWith('.json'));
+  if (!manifest) throw new PieceSetError('Select the manifest .json file together with its models.');
+  const byName = new Map(files.map(f => [f.name, f]));
+  const created: string[] = [];
+  try {
+    return parsePieceSetManifest(await manifest.text(), `local-${Date.now().toString(36)}`, url => {
+      const file = byName.get(url.split('/').pop() ?? url);
+      if (!file) throw new PieceSetError(`The manifest names "${url}", which was not among the selected files.`);
+      const objectUrl = URL.createObjectURL(file);
+      created.push(objectUrl);
+      return objectUrl;
+    });
+  } catch (e) {
+    // A later entry failed, so the models read so far are never used
+    created.forEach(url => URL.revokeObjectURL(url));
+    throw e;
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POSITION, Move } from 'chess.js';
+import { resolvePieces, trackPieces } from './pieceTracking';
+import { createChess } from './variants';
+
+// Plays the moves from the start and returns them with the final board
+const play = (startFen: string, moves: (string | { from: string, to: string, promotion?: string })[]) => {
+  const chess = createChess(startFen);
+  moves.forEach(m => chess.move(m));
+  return { chess, history: chess.history({ verbose: true }) as Move[] };
+};
+
+const idAt = (pieces: { id: string, square: string }[] | null, square: string) => pieces?.find(p => p.square === square)?.id;
+
+describe('trackPieces', () => {
+  it('keeps the castling rook\'s id', () => {
+    const { history } = play(DEFAULT_POSITION, ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Bc5', 'O-O']);
+    const pieces = trackPieces(DEFAULT_POSITION, history);
+    expect(idAt(pieces, 'g1')).toBe('wk-e1');
+    expect(idAt(pieces, 'f1')).toBe('wr-h1');
+  });
+
+  it('keeps the castling rook\'s id in Chess960 when king and rook swap squares', () => {
+    const fen = '1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1';
+    const { history } = play(fen, [{ from: 'e1', to: 'b1' }]);
+    const pieces = trackPieces(fen, history);
+    expect(idAt(pieces, 'c1')).toBe('wk-e1');
+    expect(idAt(pieces, 'd1')).toBe('wr-b1');
+    expect(idAt(pieces, 'g1')).toBe('wr-g1');
+  });
+
+  it('removes the pawn taken en passant', () => {
+    const { history } = play(DEFAULT_POSITION, ['e4', 'a6', 'e5', 'd5', 'exd6']);
+    const pieces = trackPieces(DEFAULT_POSITION, history)!;
+    expect(pieces).toHaveLength(31);
+    expect(pieces.some(p => p.id === 'bp-d7')).toBe(false);
+    expect(idAt(pieces, 'd6')).toBe('wp-e2');
+  });
+
+  it('keeps the pawn\'s id through promotion and marks the promoting move', () => {
+    const fen = '7k/P7/8/8/8/8/8/K7 w - - 0 1';
+    const { history } = play(fen, [{ from: 'a7', to: 'a8', promotion: 'q' }]);
+    const pieces = trackPieces(fen, history);
+    expect(pieces?.find(p => p.square === 'a8')).toEqual({ id: 'wp-a7', square: 'a8', type: 'q', color: 'w', promotedFrom: 'a7' });
+
+    // Only the move that promoted is marked
+    const later = play(fen, [{ from: 'a7', to: 'a8', promotion: 'q' }, 'Kg7', 'Qb8']).history;
+    expect(trackPieces(fen, later)?.find(p => p.square === 'b8')).toEqual({ id: 'wp-a7', square: 'b8', type: 'q', color: 'w' });
+  });
+
+  it('gives the same ids whichever ply the board jumps to', () => {
+    const { history } = play(DEFAULT_POSITION, ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nc3', 'd5', 'Nxd5']);
+    const atEnd = trackPieces(DEFAULT_POSITION, history);
+    expect(idAt(atEnd, 'd5')).toBe('wn-b1');
+
+    // Undo: one ply back
+    const undone = trackPieces(DEFAULT_POSITION, history.slice(0, -1));
+    expect(idAt(undone, 'c3')).toBe('wn-b1');
+    expect(idAt(undone, 'd5')).toBe('bp-d7');
+
+    // Jump back four plies: the knight that went out and back is the g1 knight again
+    const jumped = trackPieces(DEFAULT_POSITION, history.slice(0, 3));
+    expect(idAt(jumped, 'g1')).toBe('wn-g1');
+    expect(idAt(jumped, 'f6')).toBe('bn-g8');
+
+    // Redo to the end gives the ids back unchanged
+    expect(trackPieces(DEFAULT_POSITION, history)).toEqual(atEnd);
+  });
+
+  it('returns null for moves that do not fit the start position', () => {
+    const { history } = play(DEFAULT_POSITION, ['e4']);
+    expect(trackPieces('4k3/8/8/8/8/8/8/4K3 w - - 0 1', history)).toBeNull();
+  });
+});
+
+describe('resolvePieces', () => {
+  it('uses the tracked ids when the line matches the board', () => {
+    const { chess, history } = play(DEFAULT_POSITION, ['Nf3']);
+    const pieces = resolvePieces(chess.board(), DEFAULT_POSITION, history);
+    expect(idAt(pieces, 'f3')).toBe('wn-g1');
+  });
+
+  it('keys pieces by their square when the line does not fit', () => {
+    const { chess, history } = play(DEFAULT_POSITION, ['e4']);
+    const pieces = resolvePieces(chess.board(), '4k3/8/8/8/8/8/8/4K3 w - - 0 1', history);
+    expect(pieces).toHaveLength(32);
+    expect(idAt(pieces, 'e4')).toBe('wp-e4');
+  });
+
+  it('keys pieces by their square when the board was edited away from the line', () => {
+    const { history } = play(DEFAULT_POSITION, ['e4']);
+    const edited = createChess('4k3/8/8/8/4P3/8/8/4K3 b - - 0 1');
+    const pieces = resolvePieces(edited.board(), DEFAULT_POSITION, history);
+    expect(pieces.map(p => p.id).sort()).toEqual(['bk-e8', 'wk-e1', 'wp-e4']);
+  });
+
+  it('keys pieces by their square without a line', () => {
+    const pieces = resolvePieces(createChess(DEFAULT_POSITION).board());
+    expect(idAt(pieces, 'g1')).toBe('wn-g1');
+  });
+});
@@ -0,0 +1,87 @@
+import { Color, Move, PieceSymbol, Square } from 'chess.js';
+import { castlingRook, createChess } from './variants';
+
+export interface TrackedPiece {
+  id: string;              // Colour, original type and starting square, e.g. "wn-g1"
+  square: Square;
+  type: PieceSymbol;
+  color: Color;
+  promotedFrom?: Square;   // Set on the piece promoted by the final move
+}
+
+// A piece as read from the board, e.g. Chess.board()
+export interface BoardPiece {
+  square: Square;
+  type: PieceSymbol;
+  color: Color;
+}
+
+export const squareId = (piece: { color: Color, type: PieceSymbol }, square: Square) => `${piece.color}${piece.type}-${square}`;
+
+// Follows every piece of the starting position through the moves, so a piece
+// keeps its id for the whole game no matter how far the board jumps (undo,
+// history navigation, imports). Returns null when a move does not fit the
+// position, e.g. a line that does not belong to this start.
+export const trackPieces = (startFen: string, moves: Move[]): TrackedPiece[] | null => {
+  const pieces = new Map<Square, TrackedPiece>();
+  createChess(startFen).board().flat().forEach(p => {
+    if (p) pieces.set(p.square, { id: squareId(p, p.square), square: p.square, type: p.type, color: p.color });
+  });
+
+  const relocate = (from: Square, to: Square, changes: Partial<TrackedPiece> = {}) => {
+    const piece = pieces.get(from);
+    if (!piece) return false;
+    pieces.delete(from);
+    pieces.set(to, { ...piece, square: to, ...changes });
+    return true;
+  };
+
+  for (let i = 0; i < moves.length; i++) {
+    const move = moves[i];
+    const mover = pieces.get(move.from);
+    if (!mover || mover.color !== move.color || mover.type !== move.piece) return null;
+
+    if (move.captured) {
+      // The pawn taken en passant stands beside the target square, not on it
+      const taken = (move.isEnPassant() ? `${move.to[0]}${move.from[1]}` : move.to) as Square;
+      if (!pieces.delete(taken)) return null;
+    }
+
+    // In Chess960 the king and rook can land on each other's squares, so
+    // both are lifted before either is put down
+    const rook = castlingRook(move);
+    if (rook) {
+      const king = pieces.get(move.from);
+      const castled = pieces.get(rook.from);
+      if (!king || !castled) return null;
+      pieces.delete(move.from);
+      pieces.delete(rook.from);
+      pieces.set(move.to, { ...king, square: move.to });
+      pieces.set(rook.to, { ...castled, square: rook.to });
+      continue;
+    }
+
+    relocate(move.from, move.to, move.promotion
+      ? { type: move.promotion, ...(i === moves.length - 1 ? { promotedFrom: move.from } : {}) }
+      : {});
+  }
+
+  return [...pieces.values()];
+};
+
+// The pieces on the board with ids tracked through the line that led there,
+// so renderers can key them and animate moves. Without a line, or when it
+// does not match the board (the position editor), pieces are keyed by their
+// square.
+export const resolvePieces = (boardState: (BoardPiece | null)[][], startFen?: string, moves?: Move[]): TrackedPiece[] => {
+  const onBoard = boardState.flat().filter((p): p is BoardPiece => p !== null);
+  const tracked = startFen && moves ? trackPieces(startFen, moves) : null;
+
+  if (tracked && tracked.length === onBoard.length) {
+    const bySquare = new Map(tracked.map(t => [t.square, t]));
+    const matches = onBoard.every(p => bySquare.get(p.square)?.type === p.type && bySquare.get(p.square)?.color === p.color);
+    if (matches) return tracked;
+  }
+
+  return onBoard.map(p => ({ id: squareId(p, p.square), square: p.square, type: p.type, color: p.color }));
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Chess, Move } from 'chess.js';
+import { EMPTY_PUZZLE_STATS, Puzzle, checkPuzzleMove, parsePuzzles, recordPuzzleResult, uciToMoveData } from './puzzles';
+
+// White mates on f7; in the CSV version Black's Nf6 sets it up
+const SCHOLARS_MATE = 'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4';
+const BEFORE_NF6 = 'r1bqkbnr/pppp1ppp/2n5/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR b KQkq - 3 3';
+// Both rooks mate on the back rank
+const TWO_MATES = '6k1/5ppp/8/8/8/8/8/R3R1K1 w - - 0 1';
+
+const LICHESS_HEADER = 'PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags';
+
+const playMove = (fen: string, san: string) => new Chess(fen).move(san) as Move;
+
+describe('parsePuzzles (JSON)', () => {
+  it('reads puzzles that start with the player\'s move, in UCI or SAN', () => {
+    const { puzzles, skipped } = parsePuzzles(JSON.stringify([
+      { id: 'mate-1', fen: SCHOLARS_MATE, solution: ['h5f7'], themes: ['mateIn1'], rating: 600 },
+      { fen: SCHOLARS_MATE, solution: 'Qxf7#' },
+    ]), 'puzzles.json');
+    expect(skipped).toBe(0);
+    expect(puzzles[0]).toEqual({ id: 'mate-1', fen: SCHOLARS_MATE, moves: ['h5f7'], playerColor: 'w', themes: ['mateIn1'], rating: 600 });
+    expect(puzzles[1]).toMatchObject({ id: 'puzzle-2', moves: ['h5f7'], playerColor: 'w', themes: [] });
+  });
+
+  it('skips entries with a bad position or an illegal move', () => {
+    const { puzzles, skipped } = parsePuzzles(JSON.stringify([
+      { fen: SCHOLARS_MATE, solution: ['h5f7'] },
+      { fen: 'not a fen', solution: ['e2e4'] },
+      { fen: SCHOLARS_MATE, solution: ['h5h8'] },
+      { fen: SCHOLARS_MATE },
+      null,
+    ]));
+    expect(puzzles).toHaveLength(1);
+    expect(skipped).toBe(4);
+  });
+
+  it('rejects files that are not a list of puzzles', () => {
+    expect(() => parsePuzzles('{', 'set.json')).toThrow('This is not valid JSON.');
+    expect(() => parsePuzzles('{"fen": "x"}', 'set.json')).toThrow('must be a JSON array');
+    expect(() => parsePuzzles('[{"fen": "x"}]')).toThrow('None of the 1 puzzles could be read');
+  });
+});
+
+describe('parsePuzzles (CSV)', () => {
+  it('reads the Lichess layout, where the opponent moves first', () => {
+    const csv = `${LICHESS_HEADER}\nabc12,${BEFORE_NF6},g8f6 h5f7,700,75,90,1000,mateIn1 short,https://lichess.org/x,\n`;
+    const { puzzles } = parsePuzzles(csv, 'lichess.csv');
+    expect(puzzles).toEqual([{ id: 'abc12', fen: BEFORE_NF6, moves: ['g8f6', 'h5f7'], playerColor: 'w', themes: ['mateIn1', 'short'], rating: 700 }]);
+  });
+
+  it('assumes the Lichess column order without a header', () => {
+    const { puzzles } = parsePuzzles(`abc12,${BEFORE_NF6},g8f6 h5f7,700,75,90,1000,mateIn1,,`);
+    expect(puzzles[0]).toMatchObject({ id: 'abc12', moves: ['g8f6', 'h5f7'], rating: 700, themes: ['mateIn1'] });
+  });
+
+  it('finds columns by header name in any order', () => {
+    const csv = `Themes,Moves,FEN\r\nfork,"g8f6 h5f7",${BEFORE_NF6}\r\n`;
+    const { puzzles } = parsePuzzles(csv);
+    expect(puzzles[0]).toMatchObject({ id: 'puzzle-1', moves: ['g8f6', 'h5f7'], themes: ['fork'] });
+    expect(puzzles[0].rating).toBeUndefined();
+  });
+
+  it('keeps commas and escaped quotes inside quoted fields', () => {
+    const csv = `PuzzleId,Moves,Comment,FEN\n"id ""1"", quoted",g8f6 h5f7,"a, b",${BEFORE_NF6}`;
+    const { puzzles } = parsePuzzles(csv);
+    expect(puzzles[0].id).toBe('id "1", quoted');
+    expect(puzzles[0].fen).toBe(BEFORE_NF6);
+  });
+
+  it('needs the opponent\'s move and the player\'s answer', () => {
+    const { puzzles, skipped } = parsePuzzles(`${LICHESS_HEADER}\na,${BEFORE_NF6},g8f6,700\nb,${BEFORE_NF6},g8f6 h5f7,700`);
+    expect(puzzles.map(p => p.id)).toEqual(['b']);
+    expect(skipped).toBe(1);
+  });
+
+  it('rejects a header without FEN and Moves columns', () => {
+    expect(() => parsePuzzles('Id,FEN\na,b', 'set.csv')).toThrow('needs "FEN" and "Moves" columns');
+    expect(() => parsePuzzles('\n\n', 'set.csv')).toThrow('The CSV file is empty.');
+  });
+
+});
+
+describe('checkPuzzleMove', () => {
+  const puzzle: Puzzle = { id: 'p', fen: TWO_MATES, moves: ['a1a8'], playerColor: 'w', themes: [] };
+
+  it('accepts the listed move and any other mate', () => {
+    expect(checkPuzzleMove(puzzle, 0, playMove(TWO_MATES, 'Ra8#'))).toBe('solved');
+    expect(checkPuzzleMove(puzzle, 0, playMove(TWO_MATES, 'Re8#'))).toBe('solved');
+    expect(checkPuzzleMove(puzzle, 0, playMove(TWO_MATES, 'Kf1'))).toBe('wrong');
+  });
+
+  it('asks for more while the line goes on', () => {
+    const long: Puzzle = { id: 'q', fen: BEFORE_NF6, moves: ['g8f6', 'h5f7'], playerColor: 'w', themes: [] };
+    expect(checkPuzzleMove(long, 0, playMove(BEFORE_NF6, 'Nf6'))).toBe('correct');
+  });
+
+  it('converts UCI to move data', () => {
+    expect(uciToMoveData('e7e8q')).toEqual({ from: 'e7', to: 'e8', promotion: 'q' });
+    expect(uciToMoveData('e2e4')).toEqual({ from: 'e2', to: 'e4', promotion: undefined });
+  });
+});
+
+describe('recordPuzzleResult', () => {
+  const fork: Puzzle = { id: 'f', fen: SCHOLARS_MATE, moves: ['h5f7'], playerColor: 'w', themes: ['fork', 'short'] };
+
+  it('counts streaks and keeps the best one', () => {
+    let stats = EMPTY_PUZZLE_STATS;
+    [true, true, false, true].forEach(solved => { stats = recordPuzzleResult(stats, fork, solved); });
+    expect(stats).toMatchObject({ solved: 3, failed: 1, streak: 1, bestStreak: 2 });
+  });
+
+  it('keeps a record per theme without touching the previous stats', () => {
+    const first = recordPuzzleResult(EMPTY_PUZZLE_STATS, fork, true);
+    const second = recordPuzzleResult(first, { ...fork, themes: ['fork'] }, false);
+    expect(second.themes).toEqual({ fork: { solved: 1, failed: 1 }, short: { solved: 1, failed: 0 } });
+    expect(first.themes.fork).toEqual({ solved: 1, failed: 0 });
+    expect(EMPTY_PUZZLE_STATS.themes).toEqual({});
+  });
+});
@@ -0,0 +1,291 @@
+import { Chess, Color, Move } from 'chess.js';
+import { MoveData, PromotionPiece } from '../types';
+
+// Tactics puzzles, loaded from a local file. Two formats are read:
+//
+// JSON: an array of
+//   { "id": "mate-1", "fen": "...", "solution": ["h5f7"], "themes": ["mateIn1"], "rating": 1200 }
+//   where the solution starts with the player's move; moves may be UCI or
+//   SAN, as an array or one space-separated string.
+//
+// CSV: the Lichess puzzle database layout (PuzzleId,FEN,Moves,Rating,...,Themes,...).
+//   Columns are found by header name; without a header the Lichess order is
+//   assumed. As in that database, the first move is the opponent's and sets
+//   the puzzle up.
+
+export interface Puzzle {
+  id: string;
+  fen: string;          // Position before the first move in `moves`
+  moves: string[];      // UCI, alternating sides; the opponent's are played automatically
+  playerColor: Color;   // The side the solver plays
+  themes: string[];
+  rating?: number;
+}
+
+export interface PuzzleImport {
+  puzzles: Puzzle[];
+  skipped: number;      // Entries whose position or moves did not check out
+}
+
+export interface ThemeRecord {
+  solved: number;
+  failed: number;
+}
+
+export interface PuzzleStats {
+  solved: number;       // Solved without a wrong move
+  failed: number;
+  streak: number;
+  bestStreak: number;
+  themes: Record<string, ThemeRecord>;
+}
+
+export type PuzzleVerdict = 'correct' | 'solved' | 'wrong';
+
+export const MAX_PUZZLES = 5000;   // Keeps the stored set within localStorage limits
+const LICHESS_COLUMNS = ['PuzzleId', 'FEN', 'Moves', 'Rating', 'RatingDeviation', 'Popularity', 'NbPlays', 'Themes', 'GameUrl', 'OpeningTags'];
+
+export const EMPTY_PUZZLE_STATS: PuzzleStats = { solved: 0, failed: 0, streak: 0, bestStreak: 0, themes: {} };
+
+export class PuzzleImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PuzzleImportError';
+  }
+}
+
+// --- Parsing ---
+
+const splitList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String).map(s => s.trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(/[\s,]+/).filter(Boolean);
+  return [];
+};
+
+// Replays the moves from the position, returning them as UCI, or null when
+// the position is invalid or a move is not legal
+const normalizeMoves = (fen: string, moves: string[]): string[] | null => {
+  let chess: Chess;
+  try {
+    chess = new Chess(fen);
+  } catch {
+    return null;
+  }
+  const uci: string[] = [];
+  for (const text of moves) {
+    const legal = chess.moves({ verbose: true }) as Move[];
+    const cleaned = text.replace(/[+#!?]+$/, '');
+    const move = legal.find(m => m.lan === cleaned.toLowerCase()) ?? legal.find(m => m.san.replace(/[+#]$/, '') === cleaned);
+    if (!move) return null;
+    chess.move(move);
+    uci.push(move.lan);
+  }
+  return uci;
+};
+
+const buildPuzzle = (id: string, fen: string, moves: string[], opponentFirst: boolean, themes: string[], rating?: number): Puzzle | null => {
+  if (!fen || moves.length < (opponentFirst ? 2 : 1)) return null;
+  const uci = normalizeMoves(fen, moves);
+  if (!uci) return null;
+  const turn = fen.split(' ')[1] === 'b' ? 'b' : 'w';
+  return {
+    id,
+    fen,
+    moves: uci,
+    playerColor: opponentFirst ? (turn === 'w' ? 'b' : 'w') : turn,
+    themes,
+    ...(rating !== undefined && isFinite(rating) ? { rating } : {}),
+  };
+};
+
+const parseJson = (text: string): PuzzleImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PuzzleImportError('This is not valid JSON.');
+  }
+  if (!Array.isArray(data)) throw new PuzzleImportError('A puzzle file must be a JSON array of puzzles.');
+
+  const puzzles: Puzzle[] = [];
+  let skipped = 0;
+  data.forEach((value: unknown, i) => {
+    const entry = typeof value === 'object' && value !== null ? value as Record<string, unknown> : null;
+    const puzzle = entry && typeof entry.fen === 'string'
+      ? buildPuzzle(typeof entry.id === 'string' ? entry.id : `puzzle-${i + 1}`, entry.fen.trim(), splitList(entry.solution), false,
+          splitList(entry.themes), typeof entry.rating === 'number' ? entry.rating : undefined)
+      : null;
+    if (puzzle) puzzles.push(puzzle);
+    else skipped++;
+  });
+  return { puzzles, skipped };
+};
+
+// Splits one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+};
+
+const parseCsv = (text: string): PuzzleImport => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) throw new PuzzleImportError('The CSV file is empty.');
+
+  const first = splitCsvLine(lines[0]);
+  const hasHeader = first.some(field => /^fen$/i.test(field));
+  const header = hasHeader ? first : LICHESS_COLUMNS;
+  const column = (name: string) => header.findIndex(field => field.toLowerCase() === name.toLowerCase());
+  const [idCol, fenCol, movesCol, ratingCol, themesCol] = ['PuzzleId', 'FEN', 'Moves', 'Rating', 'Themes'].map(column);
+  if (fenCol < 0 || movesCol < 0) throw new PuzzleImportError('The CSV header needs "FEN" and "Moves" columns.');
+
+  const puzzles: Puzzle[] = [];
+  let skipped = 0;
+  lines.slice(hasHeader ? 1 : 0).forEach((line, i) => {
+    const fields = splitCsvLine(line);
+    const puzzle = buildPuzzle(
+      (idCol >= 0 && fields[idCol]) || `puzzle-${i + 1}`,
+      fields[fenCol] ?? '',
+      splitList(fields[movesCol]),
+      true,
+      themesCol >= 0 ? splitList(fields[themesCol]) : [],
+      ratingCol >= 0 && fields[ratingCol] ? Number(fields[ratingCol]) : undefined,
+    );
+    if (puzzle) puzzles.push(puzzle);
+    else skipped++;
+  });
+  return { puzzles, skipped };
+};
+
+// Reads a puzzle file; the format follows the file name, or the content when
+// there is none
+export const parsePuzzles = (text: string, fileName = ''): PuzzleImport => {
+  const isJson = fileName ? /\.json$/i.test(fileName) : /^\s*\[/.test(text);
+  const result = isJson ? parseJson(text) : parseCsv(text);
+  if (result.puzzles.length === 0) {
+    throw new PuzzleImportError(result.skipped
+      ? `None of the ${result.skipped} puzzles could be read; check their FEN and moves.`
+      : 'The file does not contain any puzzles.');
+  }
+  const over = Math.max(0, result.puzzles.length - MAX_PUZZLES);
+  return { puzzles: result.puzzles.slice(0, MAX_PUZZLES), skipped: result.skipped + over };
+};
+
+// --- Solving ---
+
+export const uciToMoveData = (uci: string): MoveData => ({
+  from: uci.slice(0, 2) as MoveData['from'],
+  to: uci.slice(2, 4) as MoveData['to'],
+  promotion: (uci[4] as PromotionPiece | undefined) || undefined,
+});
+
+// Judges the player's move at `ply` (an index into puzzle.moves). Any mate
+// solves the puzzle, even one the solution does not list.
+export const checkPuzzleMove = (puzzle: Puzzle, ply: number, move: Move): PuzzleVerdict => {
+  if (move.san.endsWith('#')) return 'solved';
+  if (move.lan !== puzzle.moves[ply]) return 'wrong';
+  return ply + 1 >= puzzle.moves.length ? 'solved' : 'correct';
+};
+
+// A puzzle counts once: solved if no wrong move was made, failed otherwise
+export const recordPuzzleResult = (stats: PuzzleStats, puzzle: Puzzle, solved: boolean): PuzzleStats => {
+  const themes = { ...stats.themes };
+  puzzle.themes.forEach(theme => {
+    const record = themes[theme] ?? { solved: 0, failed: 0 };
+    themes[theme] = solved ? { ...record, solved: record.solved + 1 } : { ...record, failed: record.failed + 1 };
+  });
+  const streak = solved ? stats.streak + 1 : 0;
+  return {
+    solved: stats.solved + (solved ? 1 : 0),
+    failed: stats.failed + (solved ? 0 : 1),
+    streak,
+    bestStreak: Math.max(stats.bestStreak, streak),
+    themes,
+  };
+};
+
+// --- Nudges ---
+
+const THEME_NUDGES: Record<string, string> = {
+  fork: 'One piece can attack two targets at once.',
+  pin: 'A piece is stuck in front of something more valuable.',
+  skewer: 'Line up an attack through a valuable piece.',
+  discoveredAttack: 'Moving one piece can unmask another.',
+  doubleCheck: 'Two pieces can give check at the same time.',
+  deflection: 'Lure a defender away from its duty.',
+  attraction: 'Draw a piece onto a fatal square.',
+  sacrifice: 'Giving up material may be worth it here.',
+  backRankMate: 'The back rank is weaker than it looks.',
+  hangingPiece: 'Something is left undefended.',
+  trappedPiece: 'A piece has run out of safe squares.',
+  promotion: 'A pawn is close to becoming something more.',
+  quietMove: 'The key move is not a check or a capture.',
+  zugzwang: 'Your opponent would rather not have to move.',
+};
+
+// Offline nudge from the puzzle's themes; names the idea, never the move
+export const themeNudge = (puzzle: Puzzle): string => {
+  const theme = puzzle.themes.find(t => THEME_NUDGES[t]);
+  if (theme) return THEME_NUDGES[theme];
+  if (puzzle.themes.some(t => /^mate/i.test(t))) return 'There is a forced mate. Start with the most forcing moves.';
+  return 'Look at every check, capture and threat before settling on a move.';
+};
+
+// --- Storage ---
+
+const PUZZLE_SET_KEY = 'gemini-chess-3d:puzzle-set';
+const PUZZLE_STATS_KEY = 'gemini-chess-3d:puzzle-stats';
+
+export interface StoredPuzzleSet {
+  name: string;         // File the puzzles came from
+  puzzles: Puzzle[];
+  index: number;        // Puzzle to continue with
+}
+
+const readStored = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const loadPuzzleSet = (): StoredPuzzleSet | null => {
+  const stored = readStored<StoredPuzzleSet>(PUZZLE_SET_KEY);
+  return stored && Array.isArray(stored.puzzles) && stored.puzzles.length ? stored : null;
+};
+
+export const savePuzzleSet = (set: StoredPuzzleSet) => {
+  try {
+    localStorage.setItem(PUZZLE_SET_KEY, JSON.stringify(set));
+  } catch (e) {
+    console.error('Storage Error:', e);
+  }
+};
+
+export const loadPuzzleStats = (): PuzzleStats => ({ ...EMPTY_PUZZLE_STATS, ...readStored<PuzzleStats>(PUZZLE_STATS_KEY) });
+
+export const savePuzzleStats = (stats: PuzzleStats) => {
+  try {
+    localStorage.setItem(PUZZLE_STATS_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.error('Storage Error:', e);
+  }
+};
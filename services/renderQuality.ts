@@ -0,0 +1,76 @@
+import { RenderQuality } from '../types';
+
+export type QualityLevel = Exclude<RenderQuality, RenderQuality.AUTO>;
+
+export interface QualitySettings {
+  label: string;
+  dpr: [number, number];
+  shadowMapSize: number;
+  spotShadow: boolean;              // Second shadow-casting light above the board
+  reflectorResolution: number | null;   // null draws a plain board base
+  contactShadowResolution: number | null;
+  stars: number;
+  animatedHighlights: boolean;      // Floating move rings and pulsing arrows, which keep frames coming
+}
+
+export const QUALITY_SETTINGS: Record<QualityLevel, QualitySettings> = {
+  [RenderQuality.LOW]: {
+    label: 'Low',
+    dpr: [1, 1],
+    shadowMapSize: 512,
+    spotShadow: false,
+    reflectorResolution: null,
+    contactShadowResolution: null,
+    stars: 1000,
+    animatedHighlights: false,
+  },
+  [RenderQuality.MEDIUM]: {
+    label: 'Medium',
+    dpr: [1, 1.5],
+    shadowMapSize: 1024,
+    spotShadow: false,
+    reflectorResolution: 512,
+    contactShadowResolution: 512,
+    stars: 3000,
+    animatedHighlights: true,
+  },
+  [RenderQuality.HIGH]: {
+    label: 'High',
+    dpr: [1, 2],
+    shadowMapSize: 2048,
+    spotShadow: true,
+    reflectorResolution: 2048,
+    contactShadowResolution: 2048,
+    stars: 6000,
+    animatedHighlights: true,
+  },
+};
+
+// Ordered from cheapest to most expensive
+export const QUALITY_LEVELS: QualityLevel[] = [RenderQuality.LOW, RenderQuality.MEDIUM, RenderQuality.HIGH];
+
+export const AUTO_START_LEVEL: QualityLevel = RenderQuality.HIGH;
+const AUTO_DOWNGRADE_FPS = 45;
+const AUTO_UPGRADE_FPS = 58;
+
+// One step of the Auto preset. Frames only run while something moves, so the
+// monitor feeds this the average rate of an animation, not of idle time. It
+// never climbs back above `ceiling`, the lowest level it has had to leave, so
+// a device on the edge settles instead of flipping between two presets.
+export const nextAutoQuality = (current: QualityLevel, fps: number, ceiling: QualityLevel = RenderQuality.HIGH): QualityLevel => {
+  const index = QUALITY_LEVELS.indexOf(current);
+  if (fps < AUTO_DOWNGRADE_FPS) return QUALITY_LEVELS[Math.max(0, index - 1)];
+  if (fps >= AUTO_UPGRADE_FPS && index < QUALITY_LEVELS.indexOf(ceiling)) return QUALITY_LEVELS[index + 1];
+  return current;
+};
+
+// Whether this browser can create a WebGL context at all; without one the app
+// starts on the 2D board
+export const isWebGLAvailable = (): boolean => {
+  try {
+    const canvas = document.createElement('canvas');
+    return !!(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+  } catch {
+    return false;
+  }
+};
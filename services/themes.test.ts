@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_THEMES, DEFAULT_THEME, exportTheme, importTheme } from './themes';
+
+// The default theme as JSON with one field replaced
+const withField = (path: string[], value: unknown) => {
+  const data = JSON.parse(exportTheme(DEFAULT_THEME));
+  let target = data;
+  path.slice(0, -1).forEach(key => { target = target[key]; });
+  if (value === undefined) delete target[path[path.length - 1]];
+  else target[path[path.length - 1]] = value;
+  return JSON.stringify(data);
+};
+
+describe('importTheme', () => {
+  it('reads an exported theme back under a new id', () => {
+    BUILT_IN_THEMES.forEach(theme => {
+      const imported = importTheme(exportTheme(theme));
+      expect(imported).toEqual({ ...theme, id: imported.id });
+      expect(imported.id).toMatch(/^custom-/);
+    });
+  });
+
+  it('trims the name and falls back to a default one', () => {
+    expect(importTheme(withField(['name'], `  ${'x'.repeat(50)}  `)).name).toBe('x'.repeat(40));
+    expect(importTheme(withField(['name'], 42)).name).toBe('Custom Theme');
+  });
+
+  it('rejects text that is not a theme object', () => {
+    expect(() => importTheme('{')).toThrow('This is not valid JSON.');
+    expect(() => importTheme('[]')).toThrow('A theme must be a JSON object.');
+    expect(() => importTheme('null')).toThrow('A theme must be a JSON object.');
+  });
+
+  it.each([
+    [['squares', 'light'], 'red', '"squares.light" must be a colour'],
+    [['squares', 'dark'], '#12345', '"squares.dark" must be a colour'],
+    [['highlights', 'cursor'], 0x123456, '"highlights.cursor" must be a colour'],
+    [['background'], '#gggggg', '"background" must be a colour'],
+    [['frame'], undefined, 'missing its "frame" section'],
+    [['pieces'], 'marble', 'missing its "pieces" section'],
+  ])('rejects a bad colour at %s', (path, value, message) => {
+    expect(() => importTheme(withField(path, value))).toThrow(message);
+  });
+
+  it('rejects an unknown material or environment', () => {
+    expect(() => importTheme(withField(['pieces', 'material'], 'plastic'))).toThrow('"pieces.material" must be one of: marble, wood, metal, glass.');
+    expect(() => importTheme(withField(['pieces', 'material'], 'toString'))).toThrow('"pieces.material"');
+    expect(() => importTheme(withField(['environment'], 'moon'))).toThrow('"environment" must be one of');
+    expect(() => importTheme(withField(['environment'], undefined))).toThrow('"environment" must be one of');
+  });
+});
@@ -0,0 +1,178 @@
+import { ArrowKind } from '../types';
+
+export type PieceMaterialKind = 'marble' | 'wood' | 'metal' | 'glass';
+
+// Mirrors the presets bundled with drei's <Environment>
+export const ENVIRONMENT_PRESETS = [
+  'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'studio', 'sunset', 'warehouse',
+] as const;
+export type EnvironmentPreset = typeof ENVIRONMENT_PRESETS[number];
+
+export interface BoardTheme {
+  id: string;
+  name: string;
+  squares: { light: string, dark: string };
+  pieces: { white: string, black: string, material: PieceMaterialKind };
+  frame: { outer: string, inner: string };
+  highlights: { selected: string, lastMove: string, hover: string, possibleMove: string, cursor: string };
+  environment: EnvironmentPreset;
+  background: string;   // Clear colour, also used for the fog
+}
+
+// Surface settings per piece material; selection still brightens the metalness
+export const PIECE_MATERIALS: Record<PieceMaterialKind, { roughness: number, metalness: number, clearcoat: number, opacity: number }> = {
+  marble: { roughness: 0.2, metalness: 0.4, clearcoat: 0.6, opacity: 1 },
+  wood: { roughness: 0.65, metalness: 0.05, clearcoat: 0.2, opacity: 1 },
+  metal: { roughness: 0.25, metalness: 0.95, clearcoat: 0, opacity: 1 },
+  glass: { roughness: 0.05, metalness: 0.1, clearcoat: 1, opacity: 0.55 },
+};
+
+// Fixed colours shared by every theme and both board renderers
+export const ARROW_COLORS: Record<ArrowKind, string> = {
+  best: '#22d3ee',
+  alternative: '#a78bfa',
+};
+
+// Square under a dragged piece
+export const DROP_COLORS = {
+  legal: { color: '#22c55e', emissive: '#15803d' },
+  illegal: { color: '#ef4444', emissive: '#b91c1c' },
+};
+
+export class ThemeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeImportError';
+  }
+}
+
+const CLASSIC_HIGHLIGHTS: BoardTheme['highlights'] = {
+  selected: '#3b82f6', lastMove: '#f59e0b', hover: '#60a5fa', possibleMove: '#3b82f6', cursor: '#facc15',
+};
+
+export const BUILT_IN_THEMES: BoardTheme[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    squares: { light: '#e8e4d9', dark: '#6b7d5c' },
+    pieces: { white: '#f5f5f5', black: '#1a1a1a', material: 'marble' },
+    frame: { outer: '#1a0f08', inner: '#3d2817' },
+    highlights: CLASSIC_HIGHLIGHTS,
+    environment: 'night',
+    background: '#0a0f1e',
+  },
+  {
+    id: 'walnut',
+    name: 'Walnut',
+    squares: { light: '#e6c89c', dark: '#8b5a2b' },
+    pieces: { white: '#f0d9b5', black: '#3b2314', material: 'wood' },
+    frame: { outer: '#2b1709', inner: '#5c3a1e' },
+    highlights: { ...CLASSIC_HIGHLIGHTS, selected: '#16a34a', possibleMove: '#16a34a' },
+    environment: 'apartment',
+    background: '#1c140d',
+  },
+  {
+    id: 'carrara',
+    name: 'Carrara Marble',
+    squares: { light: '#f1f1ee', dark: '#9aa0a6' },
+    pieces: { white: '#fafafa', black: '#2f3136', material: 'marble' },
+    frame: { outer: '#d4d4d8', inner: '#71717a' },
+    highlights: { ...CLASSIC_HIGHLIGHTS, lastMove: '#eab308' },
+    environment: 'studio',
+    background: '#1f2933',
+  },
+  {
+    id: 'steel',
+    name: 'Brushed Steel',
+    squares: { light: '#b8c0c8', dark: '#4b5563' },
+    pieces: { white: '#e5e7eb', black: '#b45309', material: 'metal' },
+    frame: { outer: '#111827', inner: '#374151' },
+    highlights: { ...CLASSIC_HIGHLIGHTS, selected: '#ef4444', possibleMove: '#f97316' },
+    environment: 'warehouse',
+    background: '#0b0d10',
+  },
+  {
+    id: 'glacier',
+    name: 'Glacier Glass',
+    squares: { light: '#cfe8f5', dark: '#3a6b8c' },
+    pieces: { white: '#e0f7ff', black: '#0c4a6e', material: 'glass' },
+    frame: { outer: '#082f49', inner: '#0e7490' },
+    highlights: { ...CLASSIC_HIGHLIGHTS, selected: '#a855f7', possibleMove: '#c084fc', cursor: '#f0abfc' },
+    environment: 'dawn',
+    background: '#04141f',
+  },
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+// --- JSON Import / Export ---
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const readColors = <K extends string>(value: unknown, section: string, keys: readonly K[]): Record<K, string> => {
+  if (typeof value !== 'object' || value === null) throw new ThemeImportError(`The theme is missing its "${section}" section.`);
+  const colors = {} as Record<K, string>;
+  for (const key of keys) {
+    const color = (value as Record<string, unknown>)[key];
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+      throw new ThemeImportError(`"${section}.${key}" must be a colour like "#1a2b3c".`);
+    }
+    colors[key] = color;
+  }
+  return colors;
+};
+
+const isPieceMaterial = (value: unknown): value is PieceMaterialKind =>
+  typeof value === 'string' && Object.keys(PIECE_MATERIALS).includes(value);
+
+const isEnvironmentPreset = (value: unknown): value is EnvironmentPreset =>
+  typeof value === 'string' && (ENVIRONMENT_PRESETS as readonly string[]).includes(value);
+
+export const exportTheme = (theme: BoardTheme): string => JSON.stringify(theme, null, 2);
+
+// Validates a theme from JSON. Imported themes get a fresh id so they never
+// replace a built-in one.
+export const importTheme = (json: string): BoardTheme => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ThemeImportError('This is not valid JSON.');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new ThemeImportError('A theme must be a JSON object.');
+  const data = parsed as Record<string, unknown>;
+
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim().slice(0, 40) : 'Custom Theme';
+  const pieces = readColors(data.pieces, 'pieces', ['white', 'black'] as const);
+  const material = (data.pieces as Record<string, unknown>).material;
+  if (!isPieceMaterial(material)) {
+    throw new ThemeImportError(`"pieces.material" must be one of: ${Object.keys(PIECE_MATERIALS).join(', ')}.`);
+  }
+  if (!isEnvironmentPreset(data.environment)) {
+    throw new ThemeImportError(`"environment" must be one of: ${ENVIRONMENT_PRESETS.join(', ')}.`);
+  }
+  if (typeof data.background !== 'string' || !COLOR_PATTERN.test(data.background)) {
+    throw new ThemeImportError('"background" must be a colour like "#1a2b3c".');
+  }
+
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    squares: readColors(data.squares, 'squares', ['light', 'dark'] as const),
+    pieces: { ...pieces, material },
+    frame: readColors(data.frame, 'frame', ['outer', 'inner'] as const),
+    highlights: readColors(data.highlights, 'highlights', ['selected', 'lastMove', 'hover', 'possibleMove', 'cursor'] as const),
+    environment: data.environment,
+    background: data.background,
+  };
+};
+
+export const downloadTheme = (theme: BoardTheme) => {
+  const url = URL.createObjectURL(new Blob([exportTheme(theme)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${theme.name.replace(/[^\w.-]+/g, '_')}.theme.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
@@ -0,0 +1,165 @@
+import { EngineMove, EngineResult, MATE_SCORE } from './engine';
+import { EngineClient, EngineStoppedError } from './engineClient';
+import { DEFAULT_UCI_BRIDGE_PORT, UciBridgeRequest, UciBridgeResponse, UciInfo } from './uciProtocol';
+import { PromotionPiece } from '../types';
+import { createChess } from './variants';
+
+export class UciBridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UciBridgeError';
+  }
+}
+
+export const uciBridgeUrl = () => process.env.UCI_BRIDGE_URL || `ws://${location.hostname || 'localhost'}:${DEFAULT_UCI_BRIDGE_PORT}`;
+
+// Converts the engine's line (UCI notation) to the shape the built-in engine
+// reports. The line is cut at the first move that is not legal.
+export const toEngineResult = (fen: string, info: UciInfo | null, bestMove?: string | null): EngineResult => {
+  const chess = createChess(fen);
+  let line = info?.pv ?? [];
+  if (bestMove && line[0] !== bestMove) line = [bestMove];
+
+  const moves: EngineMove[] = [];
+  for (const uci of line) {
+    try {
+      const move = chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+      moves.push({ from: move.from, to: move.to, promotion: move.promotion as PromotionPiece | undefined, san: move.san });
+    } catch {
+      break;
+    }
+  }
+
+  let score = 0;
+  let mate: number | null = null;
+  if (info) {
+    if ('mate' in info.score) {
+      mate = info.score.mate;
+      score = mate > 0 ? MATE_SCORE - (2 * mate - 1) : -MATE_SCORE + 2 * -mate;
+    } else {
+      score = info.score.cp;
+    }
+  } else if (createChess(fen).isCheckmate()) {
+    mate = 0;
+    score = -MATE_SCORE;
+  }
+
+  return {
+    move: moves[0] ?? null,
+    score,
+    mate,
+    depth: info?.depth ?? 0,
+    nodes: info?.nodes ?? 0,
+    pv: moves.map(m => m.san),
+  };
+};
+
+// Talks to a desktop engine through the UCI bridge (server/uci-bridge.js).
+// The connection opens with the first search and stays open, so the engine
+// keeps its hash between positions; searches are given the level's time
+// budget as `go movetime` and ignore its depth and noise.
+export const createUciEngineClient = (url: string = uciBridgeUrl()): EngineClient => {
+  let socket: WebSocket | null = null;
+  let ready = false;
+  let nextId = 0;
+  const outbox: UciBridgeRequest[] = [];   // Held until the engine finished its handshake
+  const pending = new Map<number, {
+    fen: string,
+    info: UciInfo | null,
+    resolve: (r: EngineResult) => void,
+    reject: (e: Error) => void,
+    onInfo?: (r: EngineResult) => void,
+  }>();
+
+  const failAll = (error: Error) => {
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    outbox.length = 0;
+  };
+
+  const send = (request: UciBridgeRequest) => {
+    if (ready && socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(request));
+    else {
+      outbox.push(request);
+      connect();
+    }
+  };
+
+  const connect = () => {
+    if (socket) return;
+    const ws = new WebSocket(url);
+    socket = ws;
+    ready = false;
+
+    ws.onmessage = (e: MessageEvent<string>) => {
+      let message: UciBridgeResponse;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        console.error('UCI Bridge Error: malformed message', e.data);
+        return;
+      }
+      switch (message.type) {
+        case 'ready':
+          ready = true;
+          outbox.splice(0).forEach(send);
+          break;
+        case 'info': {
+          const request = pending.get(message.id);
+          if (!request) return;
+          request.info = message.info;
+          request.onInfo?.(toEngineResult(request.fen, message.info));
+          break;
+        }
+        case 'bestmove': {
+          const request = pending.get(message.id);
+          if (!request) return;
+          pending.delete(message.id);
+          request.resolve(toEngineResult(request.fen, request.info, message.move));
+          break;
+        }
+        case 'error': {
+          // Errors without an id concern the engine itself, so every search fails
+          if (message.id === undefined) return failAll(new UciBridgeError(message.message));
+          const request = pending.get(message.id);
+          if (!request) return;
+          pending.delete(message.id);
+          request.reject(new UciBridgeError(message.message));
+          break;
+        }
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      failAll(new UciBridgeError(ready
+        ? 'Lost the connection to the UCI bridge.'
+        : `Cannot reach the UCI bridge at ${url}. Start it with "npm run uci-bridge -- <engine>".`));
+      ready = false;
+    };
+  };
+
+  return {
+    search: (fen, settings, onInfo, line) => new Promise((resolve, reject) => {
+      const id = ++nextId;
+      pending.set(id, { fen, info: null, resolve, reject, onInfo });
+      send(line
+        ? { type: 'search', id, fen: line.startFen, moves: line.moves, movetimeMs: settings.timeMs }
+        : { type: 'search', id, fen, movetimeMs: settings.timeMs });
+    }),
+    stop: () => {
+      if (pending.size === 0) return;
+      outbox.length = 0;
+      if (ready) send({ type: 'stop' });
+      pending.forEach(request => request.reject(new EngineStoppedError()));
+      pending.clear();
+    },
+    dispose: () => {
+      failAll(new EngineStoppedError());
+      const ws = socket;
+      socket = null;
+      ready = false;
+      ws?.close();
+    },
+  };
+};
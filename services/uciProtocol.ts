@@ -0,0 +1,24 @@
+// Messages exchanged with the UCI bridge in server/uci-bridge.js. The bridge
+// passes moves through in UCI notation (e2e4, e7e8q); converting them to SAN
+// is left to the client, which knows the position.
+
+export const DEFAULT_UCI_BRIDGE_PORT = 8788;
+
+export type UciBridgeRequest =
+  | { type: 'search'; id: number; fen: string; moves?: string[]; movetimeMs: number }   // Searches the position after `moves` from `fen`
+  | { type: 'stop' };
+
+export type UciScore = { cp: number } | { mate: number };  // Side to move's point of view
+
+export interface UciInfo {
+  depth: number;
+  score: UciScore;
+  nodes: number;
+  pv: string[];
+}
+
+export type UciBridgeResponse =
+  | { type: 'ready'; name: string }                                      // Handshake done
+  | { type: 'info'; id: number; info: UciInfo }
+  | { type: 'bestmove'; id: number; move: string | null }
+  | { type: 'error'; id?: number; message: string };                      // With the id of the search it fails, else fatal
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import {
+  CHESS960_COUNT, CHESS960_STANDARD, HORDE_FEN, VariantChess,
+  castlingRook, chess960BackRank, chess960Fen, chess960Index, createChess, isEliminated, uciMoves,
+} from './variants';
+import { Variant } from '../types';
+
+// VariantChess reaches into chess.js internals (see variants.ts), so these
+// move counts are what catches a chess.js upgrade that renames them.
+
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+
+// Positions and counts from the Chess960 perft suite
+const CHESS960_PERFT: [string, number[]][] = [
+  ['bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9', [21, 528, 12189]],
+  ['b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9', [20, 479, 10471]],
+];
+
+describe('chess.js internals', () => {
+  // Every private member VariantChess reads or overrides, so an upgrade that
+  // renames one fails here by name rather than in a miscounted perft
+  it('still has the members VariantChess relies on', () => {
+    const chess = new Chess() as unknown as Record<string, unknown>;
+    const methods = ['_moves', '_makeMove', '_undoMove', '_push', '_attacked', '_isKingAttacked', '_updateSetup', '_computeHash', '_castlingKey'];
+    methods.forEach(name => expect(typeof (Chess.prototype as unknown as Record<string, unknown>)[name], name).toBe('function'));
+    expect(Object.fromEntries(['_board', '_kings', '_castling', '_history'].map(name => [name, typeof chess[name]])))
+      .toEqual({ _board: 'object', _kings: 'object', _castling: 'object', _history: 'object' });
+    expect(typeof chess._turn).toBe('string');
+    expect(typeof chess._epSquare).toBe('number');
+    expect(typeof chess._halfMoves).toBe('number');
+    expect(typeof chess._moveNumber).toBe('number');
+    expect(typeof chess._hash).toBe('bigint');
+  });
+});
+
+describe('VariantChess move generation', () => {
+  it('matches chess.js on standard positions', () => {
+    expect([1, 2, 3].map(depth => new VariantChess(DEFAULT_POSITION).perft(depth))).toEqual([20, 400, 8902]);
+    expect([1, 2, 3].map(depth => new VariantChess(KIWIPETE).perft(depth))).toEqual([48, 2039, 97862]);
+  });
+
+  it.each(CHESS960_PERFT)('counts Chess960 moves from %s', (fen, counts) => {
+    const chess = createChess(fen);
+    expect(chess).toBeInstanceOf(VariantChess);
+    expect(counts.map((_, i) => chess.perft(i + 1))).toEqual(counts);
+    expect(chess.fen()).toBe(fen);
+  });
+
+  it('counts Horde moves', () => {
+    const chess = createChess(HORDE_FEN, Variant.HORDE);
+    expect([1, 2, 3].map(depth => chess.perft(depth))).toEqual([8, 128, 1274]);
+  });
+});
+
+describe('Chess960 castling', () => {
+  it('castles by moving the king onto its rook, and undoes it', () => {
+    const fen = '1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1';
+    const chess = createChess(fen);
+    const move = chess.move({ from: 'e1', to: 'b1' });
+    expect(move.san).toBe('O-O-O');
+    expect(castlingRook(move)).toEqual({ from: 'b1', to: 'd1' });
+    expect(chess.fen()).toBe('1r2k1r1/8/8/8/8/8/8/2KR2R1 b gb - 1 1');
+    chess.undo();
+    expect(chess.fen()).toBe(fen);
+  });
+
+  it('castles when the king already stands on its target square', () => {
+    const chess = createChess('6kr/8/8/8/8/8/8/6KR w Hh - 0 1');
+    const move = chess.move({ from: 'g1', to: 'h1' });
+    expect(move.san).toBe('O-O');
+    expect(chess.fen()).toBe('6kr/8/8/8/8/8/8/5RK1 b h - 1 1');
+  });
+
+  it('writes castling as king takes rook for engines only in Chess960', () => {
+    const castle = (fen: string) => {
+      const chess = createChess(fen);
+      chess.move('O-O');
+      return uciMoves(fen, chess.history({ verbose: true }));
+    };
+    expect(castle('6kr/8/8/8/8/8/8/6KR w Hh - 0 1')).toEqual(['g1h1']);
+    expect(castle('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1')).toEqual(['e1g1']);
+  });
+});
+
+describe('Chess960 start positions', () => {
+  it('numbers every valid back rank once', () => {
+    const ranks = new Set<string>();
+    for (let i = 0; i < CHESS960_COUNT; i++) {
+      const rank = chess960BackRank(i);
+      expect(rank).toMatch(/^[^K]*R[^R]*K[^K]*R[^R]*$/);
+      expect((rank.indexOf('B') + rank.lastIndexOf('B')) % 2).toBe(1);
+      ranks.add(rank);
+    }
+    expect(ranks.size).toBe(CHESS960_COUNT);
+    expect(chess960BackRank(CHESS960_STANDARD)).toBe('RNBQKBNR');
+  });
+
+  it('finds the number of a start position', () => {
+    expect(chess960Index(chess960Fen(123))).toBe(123);
+    expect(chess960Index(DEFAULT_POSITION)).toBe(CHESS960_STANDARD);
+    expect(chess960Index(KIWIPETE)).toBeNull();
+  });
+});
+
+describe('Horde', () => {
+  it('ends when the side to move has no pieces left', () => {
+    expect(isEliminated(createChess(HORDE_FEN, Variant.HORDE))).toBe(false);
+    expect(isEliminated(createChess('4k3/8/8/8/8/8/8/8 w - - 0 1'))).toBe(true);
+  });
+});
@@ -0,0 +1,468 @@
+import { Chess, Color, DEFAULT_POSITION, Move, PieceSymbol, Square } from 'chess.js';
+import { Variant } from '../types';
+
+// Chess960 and other starting-position variants. chess.js only knows the
+// standard castling squares, so games that need more are played with
+// VariantChess below; createChess picks it from the FEN (or the variant) so
+// code that only has a position never has to know which rules apply.
+//
+// FENs use the Shredder convention for non-standard castling: the rook's file
+// stands for the right ("HBhb"), while rights with the king on e and the rook
+// in the corner keep KQkq, so standard positions stay readable by any chess.js.
+
+export interface VariantSettings {
+  label: string;
+  description: string;
+}
+
+export const VARIANTS: Record<Variant, VariantSettings> = {
+  [Variant.STANDARD]: { label: 'Standard', description: 'The usual starting position.' },
+  [Variant.CHESS960]: { label: 'Chess960', description: 'The back rank is shuffled, bishops on opposite colours and the king between the rooks.' },
+  [Variant.HORDE]: { label: 'Horde', description: '36 white pawns against a full army. Black wins by capturing every pawn.' },
+  [Variant.FROM_POSITION]: { label: 'From Position', description: 'Standard rules from any position given as FEN.' },
+};
+
+export const HORDE_FEN = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+
+// Custom starts offered with the From Position variant
+export const START_PRESETS: { label: string, fen: string }[] = [
+  { label: 'Pawns Game', fen: '4k3/pppppppp/8/8/8/8/PPPPPPPP/4K3 w - - 0 1' },
+  { label: 'Knights & Pawns', fen: '1n2k1n1/pppppppp/8/8/8/8/PPPPPPPP/1N2K1N1 w - - 0 1' },
+  { label: 'Rooks & Pawns', fen: 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1' },
+];
+
+// The PGN Variant tag, read leniently; games without one are standard
+export const parseVariant = (tag: string | null | undefined): Variant => {
+  const name = (tag ?? '').toLowerCase().replace(/[\s_-]+/g, '');
+  if (['chess960', 'fischerandom', 'fischerrandom', '960'].includes(name)) return Variant.CHESS960;
+  if (name === 'horde') return Variant.HORDE;
+  if (name === 'fromposition') return Variant.FROM_POSITION;
+  return Variant.STANDARD;
+};
+
+const FILES = 'abcdefgh';
+
+// --- Chess960 Positions ---
+
+export const CHESS960_COUNT = 960;
+export const CHESS960_STANDARD = 518;   // RNBQKBNR
+
+// Knight placements over the five squares left after the bishops and queen
+const KNIGHT_PATTERNS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+// White's back rank for a start position number (Scharnagl numbering)
+export const chess960BackRank = (index: number): string => {
+  const rank: (string | null)[] = new Array(8).fill(null);
+  let n = index;
+  rank[(n % 4) * 2 + 1] = 'B';   // Light-squared bishop
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'B';       // Dark-squared bishop
+  n = Math.floor(n / 4);
+  const free = () => rank.map((piece, i) => piece ? -1 : i).filter(i => i >= 0);
+  rank[free()[n % 6]] = 'Q';
+  n = Math.floor(n / 6);
+  const squares = free();
+  KNIGHT_PATTERNS[n].forEach(i => { rank[squares[i]] = 'N'; });
+  free().forEach((i, j) => { rank[i] = 'RKR'[j]; });
+  return rank.join('');
+};
+
+export const chess960Fen = (index: number): string => {
+  const rank = chess960BackRank(index);
+  const rooks = [...rank].map((piece, i) => piece === 'R' ? FILES[i] : '').join('');
+  const castling = `${rooks[1]}${rooks[0]}`;
+  return `${rank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${rank} w ${castling.toUpperCase()}${castling} - 0 1`;
+};
+
+export const randomChess960Index = () => Math.floor(Math.random() * CHESS960_COUNT);
+
+// The start position number of a FEN, or null when it is not a Chess960 start
+export const chess960Index = (fen: string): number | null => {
+  const ranks = fen.split(' ')[0].split('/');
+  const white = ranks[7];
+  if (ranks.length !== 8 || ranks[0] !== white.toLowerCase() || ranks[1] !== 'pppppppp' || ranks[6] !== 'PPPPPPPP') return null;
+  for (let i = 0; i < CHESS960_COUNT; i++) {
+    if (chess960BackRank(i) === white) return i;
+  }
+  return null;
+};
+
+// --- Castling Rights ---
+
+export type CastlingSide = 'k' | 'q';
+type CastlingRooks = Record<Color, Record<CastlingSide, Square | null>>;
+
+const COLORS: Color[] = ['w', 'b'];
+const SIDES: CastlingSide[] = ['k', 'q'];
+
+const parsePlacement = (placement: string): Map<Square, string> => {
+  const board = new Map<Square, string>();
+  placement.split('/').forEach((row, r) => {
+    let file = 0;
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        file += parseInt(char);
+      } else {
+        board.set(`${FILES[file]}${8 - r}` as Square, char);
+        file++;
+      }
+    }
+  });
+  return board;
+};
+
+const backRankOf = (color: Color) => color === 'w' ? '1' : '8';
+const cased = (color: Color, letter: string) => color === 'w' ? letter.toUpperCase() : letter.toLowerCase();
+
+// The castling rooks named by a FEN's castling field. KQkq stand for the
+// outermost rook on that side of the king (X-FEN), file letters for the rook
+// on that file (Shredder-FEN). Rights without a king and rook to match are
+// dropped.
+const parseCastlingRooks = (fen: string): CastlingRooks => {
+  const [placement = '', , castling = '-'] = fen.trim().split(/\s+/);
+  const board = parsePlacement(placement);
+  const rooks: CastlingRooks = { w: { k: null, q: null }, b: { k: null, q: null } };
+
+  for (const char of castling) {
+    if (!/[a-hkq]/i.test(char)) continue;
+    const color: Color = char === char.toUpperCase() ? 'w' : 'b';
+    const rank = backRankOf(color);
+    const king = [...FILES].find(f => board.get(`${f}${rank}` as Square) === cased(color, 'k'));
+    if (!king) continue;
+    const isRook = (file: string) => board.get(`${file}${rank}` as Square) === cased(color, 'r');
+
+    const letter = char.toLowerCase();
+    let side: CastlingSide;
+    let file: string | undefined;
+    if (letter === 'k' || letter === 'q') {
+      side = letter;
+      const outward = side === 'k' ? [...FILES].reverse() : [...FILES];
+      file = outward.find(f => (side === 'k' ? f > king : f < king) && isRook(f));
+    } else {
+      side = letter > king ? 'k' : 'q';
+      file = letter !== king && isRook(letter) ? letter : undefined;
+    }
+    if (file) rooks[color][side] = `${file}${rank}` as Square;
+  }
+  return rooks;
+};
+
+const isStandardCastle = (side: CastlingSide, king: Square, rook: Square) =>
+  king[0] === 'e' && rook[0] === (side === 'k' ? 'h' : 'a');
+
+// Whether a position needs VariantChess: castling rights chess.js would
+// misread, or a side without a king (Horde)
+export const needsVariantRules = (fen: string): boolean => {
+  const [placement = '', , castling = '-'] = fen.trim().split(/\s+/);
+  if (!placement.includes('K') || !placement.includes('k')) return true;
+  if (/[a-h]/i.test(castling)) return true;
+  const board = parsePlacement(placement);
+  const rooks = parseCastlingRooks(fen);
+  return COLORS.some(color => SIDES.some(side => {
+    if (!castling.includes(cased(color, side))) return false;
+    const rook = rooks[color][side];
+    const king = [...board].find(([, piece]) => piece === cased(color, 'k'))?.[0];
+    return !rook || !king || !isStandardCastle(side, king, rook);
+  }));
+};
+
+// --- Variant Rules ---
+
+// chess.js keeps its board and move generator private; VariantChess reaches
+// them through this view. Squares are 0x88 indexes (a8 = 0, h1 = 119).
+// package.json pins chess.js to the exact release these names come from, and
+// variants.test.ts checks that they exist and that perft counts still match.
+interface InternalMove {
+  color: Color;
+  from: number;
+  to: number;
+  piece: PieceSymbol;
+  captured?: PieceSymbol;
+  promotion?: PieceSymbol;
+  flags: number;
+  rookFrom?: number;   // Castling moves only
+  rookTo?: number;
+}
+
+interface ChessInternals {
+  _board: ({ type: PieceSymbol, color: Color } | undefined)[];
+  _turn: Color;
+  _kings: Record<Color, number>;
+  _castling: Record<Color, number>;
+  _epSquare: number;
+  _halfMoves: number;
+  _moveNumber: number;
+  _hash: bigint;
+  _history: { move: InternalMove, kings: Record<Color, number>, turn: Color, castling: Record<Color, number>, epSquare: number, halfMoves: number, moveNumber: number }[];
+  _castlingRooks: CastlingRooks;
+  _computeHash(): bigint;
+  _castlingKey(): bigint;
+  _push(move: InternalMove): void;
+  _attacked(color: Color, square: number): boolean;
+  _isKingAttacked(color: Color): boolean;
+  _updateSetup(fen: string): void;
+  _moves(options?: { legal?: boolean, piece?: string, square?: string }): InternalMove[];
+  _makeMove(move: InternalMove): void;
+  _undoMove(): InternalMove | null;
+}
+
+const BITS = { NORMAL: 1, KSIDE_CASTLE: 32, QSIDE_CASTLE: 64, NULL_MOVE: 128 };
+const SIDE_BITS: Record<CastlingSide, number> = { k: BITS.KSIDE_CASTLE, q: BITS.QSIDE_CASTLE };
+const EMPTY = -1;
+
+const toIndex = (square: Square) => (8 - parseInt(square[1])) * 16 + FILES.indexOf(square[0]);
+const toSquare = (index: number) => `${FILES[index & 15]}${8 - (index >> 4)}` as Square;
+const swap = (color: Color): Color => color === 'w' ? 'b' : 'w';
+
+const internals = (chess: Chess) => chess as unknown as ChessInternals;
+const base = Chess.prototype as unknown as ChessInternals;
+
+// Castling moves for the side to move. The king ends on g or c and the rook
+// on f or d; every square either crosses must be empty apart from the two of
+// them, and the king may not start in, pass through or land in check.
+const castlingMoves = (chess: ChessInternals, square?: string, piece?: string): InternalMove[] => {
+  const us = chess._turn;
+  const kingFrom = chess._kings[us];
+  if (kingFrom === EMPTY || !chess._castling[us] || (piece && piece.toLowerCase() !== 'k')) return [];
+  if (square && toIndex(square.toLowerCase() as Square) !== kingFrom) return [];
+  if (chess._attacked(swap(us), kingFrom)) return [];
+
+  return SIDES.flatMap(side => {
+    const rook = chess._castlingRooks[us][side];
+    if (!(chess._castling[us] & SIDE_BITS[side]) || !rook) return [];
+    const rookFrom = toIndex(rook);
+    const rank = kingFrom & 0xf0;
+    const kingTo = rank + (side === 'k' ? 6 : 2);
+    const rookTo = rank + (side === 'k' ? 5 : 3);
+
+    const low = Math.min(kingFrom, kingTo, rookFrom, rookTo);
+    const high = Math.max(kingFrom, kingTo, rookFrom, rookTo);
+    for (let sq = low; sq <= high; sq++) {
+      if (chess._board[sq] && sq !== kingFrom && sq !== rookFrom) return [];
+    }
+    const step = kingTo > kingFrom ? 1 : -1;
+    for (let sq = kingFrom; sq !== kingTo + step; sq += step) {
+      if (sq !== kingFrom && chess._attacked(swap(us), sq)) return [];
+    }
+    return [{ color: us, from: kingFrom, to: kingTo, piece: 'k' as PieceSymbol, flags: SIDE_BITS[side], rookFrom, rookTo }];
+  });
+};
+
+// Horde: pawns on their own first rank may advance two squares
+const backRankPawnPushes = (chess: ChessInternals, square?: string, piece?: string): InternalMove[] => {
+  if (piece && piece.toLowerCase() !== 'p') return [];
+  const us = chess._turn;
+  const rank = us === 'w' ? 0x70 : 0x00;
+  const forward = us === 'w' ? -16 : 16;
+  const moves: InternalMove[] = [];
+  for (let from = rank; from < rank + 8; from++) {
+    if (square && toIndex(square.toLowerCase() as Square) !== from) continue;
+    const pawn = chess._board[from];
+    if (pawn?.type !== 'p' || pawn.color !== us) continue;
+    if (chess._board[from + forward] || chess._board[from + 2 * forward]) continue;
+    moves.push({ color: us, from, to: from + 2 * forward, piece: 'p', flags: BITS.NORMAL });
+  }
+  return moves;
+};
+
+const variantRules: Pick<ChessInternals, '_moves' | '_makeMove' | '_undoMove'> = {
+  // chess.js generates everything but castling, which is added here
+  _moves(this: ChessInternals, options = {}) {
+    const castling = this._castling;
+    this._castling = { w: 0, b: 0 };
+    let moves: InternalMove[];
+    try {
+      moves = base._moves.call(this, options);
+    } finally {
+      this._castling = castling;
+    }
+
+    const extra = [
+      ...backRankPawnPushes(this, options.square, options.piece),
+      ...castlingMoves(this, options.square, options.piece),
+    ];
+    if (options.legal === false) return moves.concat(extra);
+    const us = this._turn;
+    return moves.concat(extra.filter(move => {
+      this._makeMove(move);
+      const legal = !this._isKingAttacked(us);
+      this._undoMove();
+      return legal;
+    }));
+  },
+
+  _makeMove(this: ChessInternals, move) {
+    const us = move.color;
+    const them = swap(us);
+
+    if (move.rookFrom !== undefined && move.rookTo !== undefined) {
+      // Whatever the hash is off by (chess.js's own move generator swaps
+      // the castling rights out while it runs) carries over
+      const offset = this._hash ^ this._computeHash();
+      this._push(move);
+      const king = this._board[move.from];
+      const rook = this._board[move.rookFrom];
+      delete this._board[move.from];
+      delete this._board[move.rookFrom];
+      this._board[move.to] = king;
+      this._board[move.rookTo] = rook;
+      this._kings[us] = move.to;
+      this._castling[us] = 0;
+      this._epSquare = EMPTY;
+      this._halfMoves++;
+      if (us === 'b') this._moveNumber++;
+      this._turn = them;
+      this._hash = this._computeHash() ^ offset;
+      return;
+    }
+
+    base._makeMove.call(this, move);
+    if (move.flags & BITS.NULL_MOVE) return;
+
+    // chess.js takes rights away by the corner squares; use the actual rooks
+    const rights = { ...this._history[this._history.length - 1].castling };
+    if (move.piece === 'k') rights[us] = 0;
+    SIDES.forEach(side => {
+      const own = this._castlingRooks[us][side];
+      const theirs = this._castlingRooks[them][side];
+      if (own && toIndex(own) === move.from) rights[us] &= ~SIDE_BITS[side];
+      if (theirs && toIndex(theirs) === move.to) rights[them] &= ~SIDE_BITS[side];
+    });
+    if (rights.w !== this._castling.w || rights.b !== this._castling.b) {
+      this._hash ^= this._castlingKey();
+      this._castling = rights;
+      this._hash ^= this._castlingKey();
+    }
+  },
+
+  _undoMove(this: ChessInternals) {
+    const old = this._history[this._history.length - 1];
+    const move = old?.move;
+    if (!move || move.rookFrom === undefined || move.rookTo === undefined) return base._undoMove.call(this);
+
+    const offset = this._hash ^ this._computeHash();
+    this._history.pop();
+    const king = this._board[move.to];
+    const rook = this._board[move.rookTo];
+    delete this._board[move.to];
+    delete this._board[move.rookTo];
+    this._board[move.from] = king;
+    this._board[move.rookFrom] = rook;
+    this._kings = old.kings;
+    this._turn = old.turn;
+    this._castling = old.castling;
+    this._epSquare = old.epSquare;
+    this._halfMoves = old.halfMoves;
+    this._moveNumber = old.moveNumber;
+    this._hash = this._computeHash() ^ offset;
+    return move;
+  },
+};
+
+// chess.js with Chess960 castling, Horde's kingless side and first-rank
+// double steps, and Shredder-FEN castling rights
+export class VariantChess extends Chess {
+  constructor(fen: string = DEFAULT_POSITION) {
+    super(fen);
+  }
+
+  load(fen: string, { skipValidation = false, preserveHeaders = false } = {}) {
+    const tokens = fen.trim().split(/\s+/);
+    const rooks = parseCastlingRooks(fen);
+    internals(this)._castlingRooks = rooks;
+    // chess.js reads the rights as KQkq and the rooks are kept aside
+    if (tokens.length > 2) {
+      tokens[2] = COLORS.flatMap(color => SIDES.filter(side => rooks[color][side]).map(side => cased(color, side))).join('') || '-';
+    }
+    // chess.js rejects a missing king and pawns on the first rank, both
+    // part of Horde
+    const kingless = !tokens[0].includes('K') || !tokens[0].includes('k');
+    super.load(tokens.join(' '), { skipValidation: skipValidation || kingless, preserveHeaders });
+    internals(this)._updateSetup(this.fen());
+  }
+
+  fen(options?: { forceEnpassantSquare?: boolean }) {
+    const chess = internals(this);
+    const tokens = super.fen(options).split(' ');
+    const rights = COLORS.flatMap(color => SIDES.flatMap(side => {
+      const rook = chess._castlingRooks[color][side];
+      const king = chess._kings[color];
+      if (!(chess._castling[color] & SIDE_BITS[side]) || !rook || king === EMPTY) return [];
+      return [cased(color, isStandardCastle(side, toSquare(king), rook) ? side : rook[0])];
+    }));
+    tokens[2] = rights.join('') || '-';
+    return tokens.join(' ');
+  }
+
+  // A king moved onto its own castling rook castles to that side, the usual
+  // way to ask for it in Chess960 (and the only one when the king stays put)
+  move(move: string | { from: string, to: string, promotion?: string } | null, options?: { strict?: boolean }) {
+    if (move && typeof move === 'object') {
+      const side = castlingSideFor(this, move.from as Square, move.to as Square);
+      if (side) {
+        const rank = move.from[1];
+        return super.move({ from: move.from, to: `${side === 'k' ? 'g' : 'c'}${rank}` }, options);
+      }
+    }
+    return super.move(move, options);
+  }
+}
+
+Object.assign(VariantChess.prototype, variantRules);
+
+// The castling side when `to` holds the castling rook of the king on `from`
+const castlingSideFor = (chess: Chess, from: Square, to: Square): CastlingSide | null => {
+  if (!(chess instanceof VariantChess)) return null;
+  const view = internals(chess);
+  const us = view._turn;
+  if (view._kings[us] !== toIndex(from)) return null;
+  return SIDES.find(side => view._castlingRooks[us][side] === to && view._castling[us] & SIDE_BITS[side]) ?? null;
+};
+
+// A game for the position, with variant rules when the variant or the
+// position itself calls for them
+export const createChess = (fen?: string, variant?: Variant): Chess => {
+  const variantRulesNeeded = variant === Variant.CHESS960 || variant === Variant.HORDE || (fen !== undefined && needsVariantRules(fen));
+  return variantRulesNeeded ? new VariantChess(fen) : new Chess(fen);
+};
+
+// The game's variant, from its Variant tag
+export const getVariant = (chess: Chess): Variant => parseVariant(chess.getHeaders().Variant);
+
+// The rook's squares for a castling move, from the rights in the position it
+// was played in
+export const castlingRook = (move: Move): { from: Square, to: Square } | null => {
+  if (!move.isKingsideCastle() && !move.isQueensideCastle()) return null;
+  const side: CastlingSide = move.isKingsideCastle() ? 'k' : 'q';
+  const from = parseCastlingRooks(move.before)[move.color][side];
+  if (!from) return null;
+  return { from, to: `${side === 'k' ? 'f' : 'd'}${from[1]}` as Square };
+};
+
+// Horde: the side to move has nothing left to move with
+export const isEliminated = (chess: Chess): boolean =>
+  !chess.board().some(row => row.some(piece => piece?.color === chess.turn()));
+
+// --- Moving Pieces ---
+
+// The moves in UCI notation for an engine. Engines in UCI_Chess960 mode (see
+// server/uci.js) read castling as the king taking its own rook.
+export const uciMoves = (startFen: string, moves: Move[]): string[] => {
+  const shredder = /[a-h]/i.test(startFen.split(' ')[2] ?? '');
+  return moves.map(move => {
+    const rook = shredder ? castlingRook(move) : null;
+    return rook ? `${move.from}${rook.from}` : move.lan;
+  });
+};
+
+// Squares a selected piece can go to. A Chess960 king can also be dropped on
+// its castling rook.
+export const moveTargets = (moves: Move[], variant: Variant): Square[] =>
+  moves.flatMap(move => {
+    const rook = variant === Variant.CHESS960 ? castlingRook(move) : null;
+    return rook ? [move.to, rook.from] : [move.to];
+  });
+
+// The legal moves that put the piece on `to`, by either target above
+export const movesTo = (moves: Move[], to: Square, variant: Variant): Move[] =>
+  moves.filter(move => move.to === to || (variant === Variant.CHESS960 && castlingRook(move)?.from === to));
@@ -18,15 +18,94 @@ export interface PieceProps {
   isSelected: boolean;
 }
 
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
 export type MoveData = {
   from: Square;
   to: Square;
-  promotion?: string;
+  promotion?: PromotionPiece;
 };
 
+export type ArrowKind = 'best' | 'alternative';
+
+// Move suggestion drawn on the board
+export interface BoardArrow {
+  from: Square;
+  to: Square;
+  kind: ArrowKind;
+}
+
 export enum GameStatus {
   PLAYING = 'playing',
   CHECKMATE = 'checkmate',
   DRAW = 'draw',
   STALEMATE = 'stalemate',
+  TIMEOUT = 'timeout',                // The side to move ran out of time and loses
+  TIMEOUT_DRAW = 'timeout-draw',      // Flag fell, but the opponent cannot mate
+  ELIMINATED = 'eliminated',         // Horde: the side to move has no pieces left and loses
+}
+
+export enum GameMode {
+  HOT_SEAT = 'hotseat',
+  VS_COMPUTER = 'computer',
+  VS_GEMINI = 'gemini',
+  ONLINE = 'online',     // Remote player through the relay in server/relay.js
+  PUZZLE = 'puzzle',     // Tactics trainer; the opponent plays the puzzle's replies
+}
+
+// Which engine plays and analyzes: the worker in services/engine.ts or a
+// desktop engine behind the UCI bridge
+export enum EngineSource {
+  BUILTIN = 'builtin',
+  UCI = 'uci',
+}
+
+export enum EngineLevel {
+  BEGINNER = 'beginner',
+  CASUAL = 'casual',
+  CLUB = 'club',
+  EXPERT = 'expert',
+}
+
+export enum HintProviderId {
+  GEMINI = 'gemini',
+  ENGINE = 'engine',
+  MOCK = 'mock',
+}
+
+// Starting-position variants; values are the PGN Variant tag
+export enum Variant {
+  STANDARD = 'Standard',
+  CHESS960 = 'Chess960',
+  HORDE = 'Horde',
+  FROM_POSITION = 'From Position',   // Standard rules from a custom start
+}
+
+// How the board is drawn: the three.js scene or the flat SVG board
+export enum BoardRenderer {
+  WEBGL = '3d',
+  SVG = '2d',
+}
+
+// 3D rendering presets; AUTO picks one of the others from the measured frame rate
+export enum RenderQuality {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  AUTO = 'auto',
+}
+
+export type TimeBonusType = 'increment' | 'delay';
+
+export interface TimeControl {
+  baseMs: number;
+  bonusMs: number;
+  bonusType: TimeBonusType;  // Fischer increment or Bronstein delay
+}
+
+export interface ClockState {
+  remaining: Record<Color, number>;  // Time left at the start of the running side's turn
+  running: Color | null;             // Side whose clock ticks; null until the first move
+  bankedMs: number;                  // Time already used this turn before the last pause
+  since: number | null;              // Start of the current stretch; null while stopped
 }
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_STUB': JSON.stringify(env.GEMINI_STUB || ''),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL),
+        'process.env.UCI_BRIDGE_URL': JSON.stringify(env.UCI_BRIDGE_URL)
       },
       resolve: {
         alias: {